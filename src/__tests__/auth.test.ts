@@ -0,0 +1,114 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import app from '../app';
+import { parseTrustProxy } from '../middleware/auth';
+import { ApiKeyService, apiKeyService, hashApiKey, IssueApiKeyInput } from '../services/apiKeyService';
+
+describe('API key authentication', () => {
+  let adminKey: string;
+  let readKey: string;
+
+  beforeAll(async () => {
+    ({ key: adminKey } = await apiKeyService.issue({
+      name: 'test-admin',
+      tier: 'internal',
+      scopes: ['admin'],
+    }));
+    ({ key: readKey } = await apiKeyService.issue({ name: 'test-reader', tier: 'free', scopes: ['read'] }));
+  });
+
+  describe('DELETE /cache', () => {
+    it('should require an API key', async () => {
+      const response = await request(app).delete('/cache').expect(401);
+
+      expect(response.body.error.title).toBe('Unauthorized');
+    });
+
+    it('should reject keys without the admin scope', async () => {
+      await request(app).delete('/cache').set('X-API-Key', readKey).expect(403);
+    });
+
+    it('should clear the cache for admin keys', async () => {
+      await request(app).delete('/cache').set('Authorization', `Bearer ${adminKey}`).expect(200);
+    });
+
+    it('should reject unknown keys even on public routes', async () => {
+      await request(app).get('/users/1').set('X-API-Key', 'uda_unknown_key').expect(401);
+    });
+  });
+
+  describe('/admin/api-keys', () => {
+    it('should issue keys that are stored hashed and can be revoked', async () => {
+      const issued = await request(app)
+        .post('/admin/api-keys')
+        .set('X-API-Key', adminKey)
+        .send({ name: 'partner', tier: 'pro', scopes: ['read', 'write'] })
+        .expect(201);
+
+      const { id, key } = issued.body.data;
+      expect(key).toMatch(/^uda_/);
+      expect(issued.body.data).not.toHaveProperty('hash');
+
+      const listed = await request(app).get('/admin/api-keys').set('X-API-Key', adminKey).expect(200);
+      const record = listed.body.data.find((entry: { id: string }) => entry.id === id);
+      expect(record).toMatchObject({ name: 'partner', tier: 'pro' });
+      expect(JSON.stringify(listed.body)).not.toContain(key);
+      expect(JSON.stringify(listed.body)).not.toContain(hashApiKey(key));
+
+      await request(app).get('/users/1').set('X-API-Key', key).expect(200);
+
+      await request(app).delete(`/admin/api-keys/${id}`).set('X-API-Key', adminKey).expect(200);
+      await request(app).get('/users/1').set('X-API-Key', key).expect(401);
+    });
+
+    it('should validate the requested tier and scopes', async () => {
+      await request(app)
+        .post('/admin/api-keys')
+        .set('X-API-Key', adminKey)
+        .send({ name: 'bad', tier: 'platinum' })
+        .expect(400);
+
+      await request(app)
+        .post('/admin/api-keys')
+        .set('X-API-Key', adminKey)
+        .send({ name: 'bad', scopes: ['root'] })
+        .expect(400);
+    });
+  });
+
+  describe('ApiKeyService', () => {
+    it('should persist issued keys but not registered ones, so a rotated admin key stops working', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'api-keys-'));
+      const filePath = path.join(dir, 'keys.json');
+      const admin: IssueApiKeyInput = { name: 'bootstrap-admin', tier: 'internal', scopes: ['read', 'write', 'admin'] };
+
+      try {
+        const before = new ApiKeyService(filePath);
+        before.register('old-admin-key', admin);
+        const { key } = await before.issue({ name: 'partner', tier: 'pro', scopes: ['read'] });
+        expect(before.verify('old-admin-key')).not.toBeNull();
+
+        const after = new ApiKeyService(filePath);
+        after.register('new-admin-key', admin);
+
+        expect(after.verify('old-admin-key')).toBeNull();
+        expect(after.verify('new-admin-key')).toMatchObject({ scopes: ['read', 'write', 'admin'] });
+        expect(after.verify(key)).toMatchObject({ name: 'partner' });
+        expect(JSON.parse(fs.readFileSync(filePath, 'utf8'))).toHaveLength(1);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('parseTrustProxy', () => {
+    it('should parse booleans, hop counts and address lists', () => {
+      expect(parseTrustProxy(undefined)).toBe(false);
+      expect(parseTrustProxy('true')).toBe(true);
+      expect(parseTrustProxy('2')).toBe(2);
+      expect(parseTrustProxy('loopback, 10.0.0.0/8')).toEqual(['loopback', '10.0.0.0/8']);
+    });
+  });
+});
@@ -0,0 +1,275 @@
+import RedisMock from 'ioredis-mock';
+import type Redis from 'ioredis';
+import { UserDatabase } from '../database/userDatabase';
+import { BullMqQueueService, BullMqQueueOptions } from '../services/bullmqQueueService';
+import { UserBatchLoader } from '../services/userBatchLoader';
+import { User } from '../types';
+
+// ioredis-mock cannot run BullMQ's Lua scripts, so the queue classes are replaced by an
+// in-process broker with BullMQ's semantics for priorities, concurrency, retries with
+// exponential backoff, unrecoverable errors and per-attempt `failed` events
+jest.mock('bullmq', () => {
+  const actual = jest.requireActual<typeof import('bullmq')>('bullmq');
+  const { EventEmitter } = jest.requireActual<typeof import('events')>('events');
+
+  interface JobOptions {
+    priority?: number;
+    attempts?: number;
+    backoff?: { type: 'exponential'; delay: number };
+  }
+
+  class Job {
+    attemptsMade = 0;
+    readonly timestamp = Date.now();
+    readonly finished: Promise<unknown>;
+    settle!: { resolve: (value: unknown) => void; reject: (error: Error) => void };
+
+    constructor(
+      readonly id: string | undefined,
+      readonly data: unknown,
+      readonly opts: JobOptions
+    ) {
+      this.finished = new Promise((resolve, reject) => (this.settle = { resolve, reject }));
+    }
+
+    waitUntilFinished(_events: unknown, ttl: number): Promise<unknown> {
+      let timer: NodeJS.Timeout | undefined;
+      return Promise.race([
+        this.finished,
+        new Promise((_resolve, reject) => {
+          timer = setTimeout(() => reject(new Error(`Job wait timed out after ${ttl}ms`)), ttl);
+        }),
+      ]).finally(() => clearTimeout(timer));
+    }
+  }
+
+  class Broker {
+    static readonly byName = new Map<string, Broker>();
+    readonly waiting: Job[] = [];
+    readonly active = new Set<Job>();
+    readonly delayed = new Set<Job>();
+    readonly added: Job[] = [];
+    readonly workers = new Set<Worker>();
+
+    static get(name: string): Broker {
+      if (!Broker.byName.has(name)) Broker.byName.set(name, new Broker());
+      return Broker.byName.get(name)!;
+    }
+
+    // Lower priority numbers first, FIFO within a priority
+    enqueue(job: Job): void {
+      const index = this.waiting.findIndex(queued => (queued.opts.priority ?? 0) > (job.opts.priority ?? 0));
+      this.waiting.splice(index === -1 ? this.waiting.length : index, 0, job);
+      this.workers.forEach(worker => worker.poll());
+    }
+  }
+
+  class Queue {
+    private readonly broker: Broker;
+
+    constructor(name: string) {
+      this.broker = Broker.get(name);
+    }
+
+    async add(_name: string, data: unknown, opts: JobOptions & { jobId?: string } = {}): Promise<Job> {
+      const job = new Job(opts.jobId, data, opts);
+      this.broker.added.push(job);
+      this.broker.enqueue(job);
+      return job;
+    }
+
+    async count(): Promise<number> {
+      return this.broker.waiting.length + this.broker.delayed.size;
+    }
+
+    async getJobCounts(...types: string[]): Promise<Record<string, number>> {
+      const { waiting, active, delayed } = this.broker;
+      const counts: Record<string, number> = {
+        waiting: waiting.filter(job => !job.opts.priority).length,
+        prioritized: waiting.filter(job => job.opts.priority).length,
+        'waiting-children': 0,
+        active: active.size,
+        delayed: delayed.size,
+      };
+      return Object.fromEntries(types.map(type => [type, counts[type] ?? 0]));
+    }
+
+    async getJobs(): Promise<Job[]> {
+      return [...this.broker.waiting].sort((a, b) => a.timestamp - b.timestamp).slice(0, 1);
+    }
+
+    async close(): Promise<void> {}
+  }
+
+  class Worker extends EventEmitter {
+    private readonly broker: Broker;
+    private readonly concurrency: number;
+    private closing = false;
+
+    constructor(
+      name: string,
+      private readonly processor: (job: Job) => Promise<unknown>,
+      { concurrency = 1 }: { concurrency?: number } = {}
+    ) {
+      super();
+      this.broker = Broker.get(name);
+      this.concurrency = concurrency;
+      this.broker.workers.add(this);
+    }
+
+    poll(): void {
+      while (!this.closing && this.broker.active.size < this.concurrency && this.broker.waiting.length > 0) {
+        void this.run(this.broker.waiting.shift()!);
+      }
+    }
+
+    async close(): Promise<void> {
+      this.closing = true;
+      this.broker.workers.delete(this);
+    }
+
+    private async run(job: Job): Promise<void> {
+      this.broker.active.add(job);
+      try {
+        const result = await this.processor(job);
+        job.attemptsMade++;
+        job.settle.resolve(result);
+        this.emit('completed', job, result);
+      } catch (error) {
+        job.attemptsMade++;
+        const retry =
+          !(error instanceof actual.UnrecoverableError) && job.attemptsMade < (job.opts.attempts ?? 1);
+
+        if (retry) {
+          const delay = (job.opts.backoff?.delay ?? 0) * 2 ** (job.attemptsMade - 1);
+          this.broker.delayed.add(job);
+          setTimeout(() => {
+            this.broker.delayed.delete(job);
+            this.broker.enqueue(job);
+          }, delay);
+        } else {
+          job.settle.reject(error as Error);
+        }
+        this.emit('failed', job, error);
+      } finally {
+        this.broker.active.delete(job);
+        this.poll();
+      }
+    }
+  }
+
+  class QueueEvents extends EventEmitter {
+    async close(): Promise<void> {}
+  }
+
+  return { ...actual, Queue, Worker, QueueEvents, __brokers: Broker.byName };
+});
+
+const brokers = (jest.requireMock('bullmq') as { __brokers: Map<string, { added: unknown[] }> }).__brokers;
+
+describe('BullMqQueueService', () => {
+  const user = (id: number): User => ({ id, name: `User ${id}`, email: `user${id}@example.com` });
+
+  let getUsersByIds: jest.SpyInstance;
+  let queue: BullMqQueueService | undefined;
+  let queueName: string;
+
+  const createQueue = (options: BullMqQueueOptions = {}) => {
+    queueName = `user-fetch-${Math.random()}`;
+    queue = new BullMqQueueService(new RedisMock() as unknown as Redis, {
+      queueName,
+      backoffMs: 5,
+      loader: new UserBatchLoader({ windowMs: 1, maxBatchSize: 1 }),
+      ...options,
+    });
+    return queue;
+  };
+
+  const jobsAdded = (name = queueName) => brokers.get(name)?.added.length ?? 0;
+
+  beforeEach(() => {
+    getUsersByIds = jest
+      .spyOn(UserDatabase.prototype, 'getUsersByIds')
+      .mockImplementation(async ids => ids.map(user));
+  });
+
+  afterEach(async () => {
+    await queue?.close();
+    queue = undefined;
+    jest.restoreAllMocks();
+  });
+
+  it('should share one job between concurrent callers until the user is invalidated', async () => {
+    const service = createQueue();
+
+    await expect(Promise.all([service.addUserFetchJob(1), service.addUserFetchJob(1)])).resolves.toEqual([
+      user(1),
+      user(1),
+    ]);
+    expect(jobsAdded()).toBe(1);
+    expect(getUsersByIds).toHaveBeenCalledTimes(1);
+
+    const pending = service.addUserFetchJob(2);
+    service.invalidateUser(2);
+    const fresh = service.addUserFetchJob(2);
+    await expect(Promise.all([pending, fresh])).resolves.toEqual([user(2), user(2)]);
+    expect(jobsAdded()).toBe(3);
+
+    expect((await service.getQueueStatus()).pendingRequests).toBe(0);
+  });
+
+  it('should run at most `concurrency` jobs at once and count the rest as waiting', async () => {
+    const releases: (() => void)[] = [];
+    getUsersByIds.mockImplementation(
+      ids => new Promise(resolve => releases.push(() => resolve(ids.map(user))))
+    );
+    const service = createQueue({ concurrency: 2 });
+
+    const results = Promise.all([1, 2, 3].map(id => service.addUserFetchJob(id)));
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(getUsersByIds).toHaveBeenCalledTimes(2);
+    expect(await service.getQueueStatus()).toMatchObject({ backend: 'bullmq', active: 2, waiting: 1 });
+
+    releases.splice(0).forEach(release => release());
+    await new Promise(resolve => setTimeout(resolve, 20));
+    releases.splice(0).forEach(release => release());
+
+    await expect(results).resolves.toEqual([user(1), user(2), user(3)]);
+    expect(getUsersByIds).toHaveBeenCalledTimes(3);
+  });
+
+  it('should retry a failed fetch with backoff and resolve once it succeeds', async () => {
+    getUsersByIds.mockRejectedValueOnce(new Error('Database unavailable'));
+    const service = createQueue({ attempts: 3 });
+
+    await expect(service.addUserFetchJob(1)).resolves.toEqual(user(1));
+
+    expect(getUsersByIds).toHaveBeenCalledTimes(2);
+    const status = await service.getQueueStatus();
+    expect(status).toMatchObject({ deadLettered: 0, stats: { processed: 1, failed: 0 } });
+  });
+
+  it('should dead-letter a job once every attempt has timed out', async () => {
+    getUsersByIds.mockImplementation(() => new Promise(() => undefined));
+    // The backoff leaves the caller's wait (attempts x timeout + backoffs) well past the attempts
+    const service = createQueue({ attempts: 2, jobTimeoutMs: 20, backoffMs: 50 });
+
+    await expect(service.addUserFetchJob(1)).rejects.toThrow('timed out after 20ms');
+    await new Promise(setImmediate);
+
+    expect(jobsAdded(`${queueName}-dead-letter`)).toBe(1);
+    expect(await service.getQueueStatus()).toMatchObject({ deadLettered: 1, stats: { failed: 1 } });
+  });
+
+  it('should fail a job whose deadline has passed without retrying or querying the database', async () => {
+    const service = createQueue({ attempts: 3 });
+
+    await expect(service.addUserFetchJob(1, { deadline: Date.now() - 1 })).rejects.toThrow(
+      'Queued job dropped: deadline exceeded for user 1'
+    );
+
+    expect(getUsersByIds).not.toHaveBeenCalled();
+    expect(jobsAdded(`${queueName}-dead-letter`)).toBe(0);
+  });
+});
@@ -0,0 +1,61 @@
+import request from 'supertest';
+import app from '../app';
+import { apiKeyService } from '../services/apiKeyService';
+import { cacheService } from '../services/cacheService';
+
+describe('Cache introspection routes', () => {
+  let adminKey: string;
+
+  beforeAll(async () => {
+    ({ key: adminKey } = await apiKeyService.issue({ name: 'cache-debug', tier: 'internal', scopes: ['admin'] }));
+  });
+
+  beforeEach(async () => {
+    await cacheService.clear();
+    await request(app).get('/users?ids=1,2,3').expect(200);
+    await request(app).get('/users/2').expect(200);
+  });
+
+  const admin = (path: string) => request(app).get(path).set('X-API-Key', adminKey);
+
+  it('should page through keys by prefix', async () => {
+    const first = await admin('/cache/keys?prefix=user:&limit=2').expect(200);
+
+    expect(first.body.data.map((entry: { key: string }) => entry.key)).toEqual(['user:1', 'user:2']);
+    expect(first.body.meta.paging.next).toEqual(expect.any(String));
+
+    const second = await admin(`/cache/keys?prefix=user:&limit=2&cursor=${first.body.meta.paging.next}`)
+      .expect(200);
+    expect(second.body.data.map((entry: { key: string }) => entry.key)).toEqual(['user:3']);
+    expect(second.body.meta.paging.next).toBeNull();
+  });
+
+  it('should show one entry without counting a cache hit', async () => {
+    const before = (await cacheService.getStats()).hits;
+
+    const response = await admin('/cache/keys/user:2').expect(200);
+
+    expect(response.body.data).toMatchObject({
+      key: 'user:2',
+      state: 'fresh',
+      accessCount: 1,
+      lruRank: 1,
+      data: { id: 2, email: 'jane@example.com' },
+    });
+    expect(response.body.data.ttlRemainingMs).toBeGreaterThan(0);
+    expect((await cacheService.getStats()).hits).toBe(before);
+
+    await admin('/cache/keys/user:999').expect(404);
+  });
+
+  it('should rank the hottest and coldest keys', async () => {
+    const response = await admin('/cache/hot-keys?limit=1').expect(200);
+
+    expect(response.body.data.hottest).toEqual([expect.objectContaining({ key: 'user:2' })]);
+    expect(response.body.data.coldest).toEqual([expect.objectContaining({ key: 'user:1' })]);
+  });
+
+  it('should require the admin scope', async () => {
+    await request(app).get('/cache/keys').expect(401);
+  });
+});
@@ -0,0 +1,82 @@
+import request from 'supertest';
+import app from '../app';
+import { apiKeyService } from '../services/apiKeyService';
+import { cacheService } from '../services/cacheService';
+
+describe('Cache invalidation admin API', () => {
+  let adminKey: string;
+  let adminKeyId: string;
+
+  beforeAll(async () => {
+    const issued = await apiKeyService.issue({ name: 'cache-admin', tier: 'internal', scopes: ['admin'] });
+    adminKey = issued.key;
+    adminKeyId = issued.record.id;
+  });
+
+  beforeEach(async () => {
+    await cacheService.clear();
+    // Cached through the users routes, so entries carry their email-domain tag
+    await request(app).get('/users?ids=1,2,3').expect(200);
+  });
+
+  const admin = (method: 'get' | 'delete', path: string) =>
+    request(app)[method](path).set('X-API-Key', adminKey);
+
+  it('should evict a single key and report the count', async () => {
+    const response = await admin('delete', '/admin/cache/keys/user:2').expect(200);
+
+    expect(response.body.data).toMatchObject({
+      action: 'delete-key',
+      namespace: 'users',
+      target: 'user:2',
+      evicted: 1,
+    });
+    await expect(cacheService.get('user:2')).resolves.toBeNull();
+    await expect(cacheService.get('user:1')).resolves.toMatchObject({ id: 1 });
+
+    await admin('delete', '/admin/cache/keys/user:2')
+      .expect(200)
+      .expect(res => expect(res.body.data.evicted).toBe(0));
+  });
+
+  it('should evict keys matching a pattern', async () => {
+    const response = await admin('delete', '/admin/cache/keys?pattern=user:[12]').expect(400);
+    expect(response.body.error.errors).toEqual([
+      expect.objectContaining({ location: 'query', field: 'pattern' }),
+    ]);
+
+    await admin('delete', '/admin/cache/keys?pattern=user:*&namespace=lists')
+      .expect(200)
+      .expect(res => expect(res.body.data).toMatchObject({ namespace: 'lists', evicted: 0 }));
+
+    await admin('delete', '/admin/cache/keys?pattern=user:*')
+      .expect(200)
+      .expect(res => expect(res.body.data.evicted).toBe(3));
+    await expect(cacheService.getStats()).resolves.toMatchObject({ size: 0 });
+  });
+
+  it('should evict entries by tag and record every call in the audit log', async () => {
+    await admin('delete', '/admin/cache/tags/email-domain:example.com')
+      .expect(200)
+      .expect(res => expect(res.body.data.evicted).toBe(3));
+    await admin('delete', '/admin/cache/tags/email-domain:example.org')
+      .expect(200)
+      .expect(res => expect(res.body.data.evicted).toBe(0));
+
+    const response = await admin('get', '/admin/cache/audit?limit=2').expect(200);
+
+    expect(response.body.data).toEqual([
+      expect.objectContaining({ action: 'delete-tag', target: 'email-domain:example.org', evicted: 0 }),
+      expect.objectContaining({
+        action: 'delete-tag',
+        target: 'email-domain:example.com',
+        evicted: 3,
+        actor: `key:${adminKeyId}`,
+      }),
+    ]);
+  });
+
+  it('should require the admin scope', async () => {
+    await request(app).delete('/admin/cache/keys/user:1').expect(401);
+  });
+});
@@ -0,0 +1,88 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LRUCache } from '../services/cacheService';
+import { CACHE_SNAPSHOT_VERSION, CacheSnapshotService } from '../services/cacheSnapshot';
+
+describe('CacheSnapshotService', () => {
+  const user = (id: number) => ({ id, name: `User ${id}`, email: `user${id}@example.com` });
+
+  let now: number;
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-snapshot-'));
+    filePath = path.join(dir, 'snapshot.json');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should restore entries with their load time and LRU order', async () => {
+    // 60s TTL, 120s soft TTL, 600s hard TTL
+    const source = new LRUCache(3, 60, 120, 600);
+    await source.set('user:1', user(1), now - 30_000);
+    await source.set('user:2', user(2));
+    await source.set('user:3', user(3));
+    await source.lookup('user:1'); // user:2 is now least recently used
+
+    await expect(new CacheSnapshotService(source, filePath).save()).resolves.toMatchObject({
+      version: CACHE_SNAPSHOT_VERSION,
+      entries: 3,
+    });
+
+    const target = new LRUCache(3, 60, 120, 600);
+    await expect(new CacheSnapshotService(target, filePath).restore()).resolves.toMatchObject({
+      entries: 3,
+      discarded: 0,
+    });
+
+    expect((await target.lookup('user:1'))?.timestamp).toBe(now - 30_000);
+
+    await target.set('user:4', user(4));
+    await expect(target.get('user:2')).resolves.toBeNull();
+    await expect(target.get('user:3')).resolves.toEqual(user(3));
+  });
+
+  it('should discard entries past the hard TTL and keep newer cached copies', async () => {
+    const source = new LRUCache(10, 60, 120, 600);
+    await source.set('user:1', user(1));
+    await source.set('user:2', user(2));
+    await new CacheSnapshotService(source, filePath).save();
+
+    now += 300_000;
+    const target = new LRUCache(10, 60, 120, 600);
+    await target.set('user:2', { ...user(2), name: 'Updated' });
+    await target.set('user:3', user(3), now - 601_000);
+
+    const result = await new CacheSnapshotService(target, filePath).restore();
+
+    expect(result).toMatchObject({ entries: 1, discarded: 1 });
+    expect((await target.lookup('user:1'))?.state).toBe('expired');
+    await expect(target.get('user:2')).resolves.toMatchObject({ name: 'Updated' });
+  });
+
+  it('should reject snapshots from unknown versions without touching the cache', async () => {
+    fs.writeFileSync(filePath, JSON.stringify({ version: 99, entries: [{ key: 'user:1' }] }));
+    const cache = new LRUCache(10, 60, 120, 600);
+
+    await expect(new CacheSnapshotService(cache, filePath).restore()).rejects.toMatchObject({
+      statusCode: 422,
+    });
+    await expect(cache.getStats()).resolves.toMatchObject({ size: 0 });
+  });
+
+  it('should report a missing snapshot file and a missing local tier', async () => {
+    await expect(new CacheSnapshotService(new LRUCache(), filePath).restore()).rejects.toMatchObject({
+      statusCode: 404,
+    });
+    await expect(new CacheSnapshotService(null, filePath).save()).rejects.toMatchObject({
+      statusCode: 409,
+    });
+  });
+});
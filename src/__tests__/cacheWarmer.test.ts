@@ -0,0 +1,131 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LRUCache } from '../services/cacheService';
+import { CacheWarmer, CacheWarmerOptions } from '../services/cacheWarmer';
+import { HotKeyTracker } from '../services/hotKeyTracker';
+import { QueueService } from '../services/queueService';
+import { UserService } from '../services/userService';
+import { User, UserPage, UserRepository } from '../types';
+
+describe('CacheWarmer', () => {
+  const users: User[] = [1, 2, 3].map(id => ({ id, name: `User ${id}`, email: `user${id}@example.com` }));
+
+  let now: number;
+  let cache: LRUCache;
+  let queue: QueueService;
+  let fetchUser: jest.SpyInstance;
+  let hotKeys: HotKeyTracker;
+  let service: UserService;
+  let repository: UserRepository;
+
+  const createWarmer = (options: Partial<CacheWarmerOptions> = {}) =>
+    new CacheWarmer(cache, service, repository, hotKeys, {
+      strategy: 'ids',
+      ids: [],
+      topN: 10,
+      timeoutMs: 1000,
+      chunkSize: 2,
+      ttlMs: 60_000,
+      refreshAheadMs: 10_000,
+      refreshIntervalMs: 0,
+      hotKeysHalfLifeMs: 300_000,
+      hotKeysFile: null,
+      ...options,
+    });
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    cache = new LRUCache(10, 60, 120, 600);
+    queue = new QueueService();
+    fetchUser = jest
+      .spyOn(queue, 'addUserFetchJob')
+      .mockImplementation(async userId => users.find(user => user.id === userId) ?? null);
+    hotKeys = new HotKeyTracker();
+    service = new UserService(cache, queue, new LRUCache<UserPage>(), hotKeys);
+    repository = { getAllUsers: jest.fn().mockResolvedValue(users) } as unknown as UserRepository;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should warm an explicit ID list through the background lane', async () => {
+    const warmer = createWarmer({ ids: [1, 2, 3, 2, 999] });
+
+    const warmup = warmer.warmup();
+    expect(warmer.isReady()).toBe(false);
+    await warmup;
+
+    expect(warmer.isReady()).toBe(true);
+    expect(warmer.getStatus()).toMatchObject({ state: 'ready', requested: 4, warmed: 3 });
+    expect(fetchUser).toHaveBeenCalledWith(1, { priority: 'background' });
+    await expect(cache.get('user:3')).resolves.toEqual(users[2]);
+  });
+
+  it('should warm every user for the all strategy', async () => {
+    const warmer = createWarmer({ strategy: 'all' });
+
+    await warmer.warmup();
+
+    expect(warmer.getStatus()).toMatchObject({ state: 'ready', requested: 3, warmed: 3 });
+    expect(fetchUser).not.toHaveBeenCalled();
+    await expect(cache.get('user:2')).resolves.toEqual(users[1]);
+  });
+
+  it('should warm the hottest keys first', async () => {
+    [3, 3, 2, 3, 2, 1].forEach(userId => hotKeys.record(userId));
+    const warmer = createWarmer({ strategy: 'hot', topN: 2 });
+
+    await warmer.warmup();
+
+    expect(fetchUser.mock.calls.map(([userId]) => userId)).toEqual([3, 2]);
+  });
+
+  it('should report ready once the warmup times out', async () => {
+    jest.useFakeTimers({ doNotFake: ['Date'] });
+    try {
+      fetchUser.mockReturnValue(new Promise(() => undefined));
+      const warmer = createWarmer({ ids: [1], timeoutMs: 500 });
+
+      const warmup = warmer.warmup();
+      jest.advanceTimersByTime(500);
+      await warmup;
+
+      expect(warmer.isReady()).toBe(true);
+      expect(warmer.getStatus().state).toBe('timed-out');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should refresh hot entries shortly before their TTL', async () => {
+    await cache.set('user:1', users[0] as User);
+    await cache.set('user:2', users[1] as User, now - 55_000);
+    [1, 2, 3].forEach(userId => hotKeys.record(userId));
+    const warmer = createWarmer();
+
+    await expect(warmer.refreshAhead()).resolves.toBe(2);
+
+    expect(fetchUser.mock.calls.map(([userId]) => userId).sort()).toEqual([2, 3]);
+    expect((await cache.lookup('user:2'))?.timestamp).toBe(now);
+    expect(warmer.getStatus().refreshAhead).toEqual({ runs: 1, refreshed: 2, failures: 0 });
+  });
+
+  it('should carry hot keys over to the next run', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hot-keys-'));
+    const filePath = path.join(dir, 'hot-keys.json');
+    try {
+      [2, 2, 1].forEach(userId => hotKeys.record(userId));
+      await createWarmer({ hotKeysFile: filePath }).stop();
+
+      const restored = new HotKeyTracker();
+      expect(restored.load(filePath)).toBe(2);
+      expect(restored.top(10)).toEqual([2, 1]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,89 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DuplicateEmailError } from '../database/errors';
+import { FileUserRepository, SCHEMA_VERSION } from '../database/fileUserRepository';
+
+describe('FileUserRepository', () => {
+  let dir: string;
+  let filePath: string;
+
+  const readRecords = () =>
+    fs.readFileSync(filePath, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'user-store-'));
+    filePath = path.join(dir, 'users.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should create a seeded store on the current schema', async () => {
+    const repository = new FileUserRepository(filePath);
+
+    await expect(repository.getUserById(1)).resolves.toMatchObject({ name: 'John Doe' });
+    expect(readRecords()[0]).toEqual({ op: 'schema', version: SCHEMA_VERSION, nextId: 4 });
+  });
+
+  it('should fail its ping once the store directory is gone', async () => {
+    const repository = new FileUserRepository(filePath);
+    await expect(repository.ping()).resolves.toBeUndefined();
+
+    fs.rmSync(dir, { recursive: true, force: true });
+    await expect(repository.ping()).rejects.toThrow('ENOENT');
+  });
+
+  it('should keep users and ID allocation across restarts', async () => {
+    const repository = new FileUserRepository(filePath);
+    const created = await repository.createUser({ name: 'Durable', email: 'durable@example.com' });
+    await repository.updateUser(created.id, { name: 'Durable Updated' });
+    await repository.deleteUser(2);
+
+    const reopened = new FileUserRepository(filePath);
+    await expect(reopened.getUserById(created.id)).resolves.toMatchObject({ name: 'Durable Updated' });
+    await expect(reopened.getUserById(2)).resolves.toBeNull();
+    await expect(reopened.createUser({ name: 'Next', email: 'next@example.com' })).resolves.toMatchObject({
+      id: created.id + 1,
+    });
+  });
+
+  it('should enforce unique emails, including concurrent creates', async () => {
+    const repository = new FileUserRepository(filePath);
+    const results = await Promise.allSettled([
+      repository.createUser({ name: 'A', email: 'same@example.com' }),
+      repository.createUser({ name: 'B', email: 'SAME@example.com' }),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    await expect(repository.updateUser(1, { email: 'jane@example.com' })).rejects.toBeInstanceOf(
+      DuplicateEmailError
+    );
+  });
+
+  it('should migrate older files and ignore a torn last line', async () => {
+    fs.writeFileSync(
+      filePath,
+      [
+        JSON.stringify({ op: 'schema', version: 1, nextId: 10 }),
+        JSON.stringify({ op: 'put', user: { id: 9, name: 'Legacy', email: ' Legacy@Example.com ' } }),
+        '{"op":"put","user":{"id":',
+      ].join('\n')
+    );
+
+    const repository = new FileUserRepository(filePath);
+
+    await expect(repository.getUserById(9)).resolves.toMatchObject({ email: 'legacy@example.com' });
+    expect(readRecords()).toHaveLength(2);
+    await expect(repository.createUser({ name: 'New', email: 'new@example.com' })).resolves.toMatchObject({
+      id: 10,
+    });
+  });
+
+  it('should refuse files written by a newer schema', () => {
+    fs.writeFileSync(filePath, `${JSON.stringify({ op: 'schema', version: SCHEMA_VERSION + 1, nextId: 1 })}\n`);
+
+    expect(() => new FileUserRepository(filePath)).toThrow('newer than');
+  });
+});
@@ -0,0 +1,157 @@
+import { JobType, Queue } from 'bullmq';
+import RedisMock from 'ioredis-mock';
+import type Redis from 'ioredis';
+import type { IntervalHistogram } from 'perf_hooks';
+import request from 'supertest';
+import app from '../app';
+import { UserDatabase } from '../database/userDatabase';
+import { userRepository } from '../database/userRepository';
+import { BullMqQueueService } from '../services/bullmqQueueService';
+import {
+  createEventLoopLagCheck,
+  createHealthChecks,
+  HealthCheckRegistry,
+  healthChecks,
+} from '../services/healthChecks';
+import { queueService } from '../services/queueService';
+
+// Only the queue itself is exercised; the worker and event stream would block on Redis
+jest.mock('bullmq', () => {
+  class Idle {
+    on() {
+      return this;
+    }
+    async close() {}
+  }
+  return { ...jest.requireActual('bullmq'), Worker: Idle, QueueEvents: Idle };
+});
+
+describe('Health checks', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('HealthCheckRegistry', () => {
+    it('should fail readiness when any check fails, throws or times out', async () => {
+      const registry = new HealthCheckRegistry(20);
+      registry.register('store', () => ({ status: 'pass', details: { backend: 'memory' } }));
+
+      await expect(registry.checkReadiness()).resolves.toMatchObject({
+        status: 'pass',
+        checks: { store: { status: 'pass', details: { backend: 'memory' }, latencyMs: expect.any(Number) } },
+      });
+
+      registry.register('broken', async () => {
+        throw new Error('connection refused');
+      });
+      registry.register('hanging', () => new Promise(() => undefined));
+
+      const report = await registry.checkReadiness();
+      expect(report.status).toBe('fail');
+      expect(report.checks['broken']).toMatchObject({ status: 'fail', message: 'connection refused' });
+      expect(report.checks['hanging']).toMatchObject({ status: 'fail', message: 'Timed out after 20ms' });
+
+      registry.unregister('broken');
+      registry.unregister('hanging');
+      registry.beginShutdown();
+      await expect(registry.checkReadiness()).resolves.toMatchObject({ status: 'fail', shuttingDown: true });
+    });
+
+    it('should fail the event loop check when the p99 delay exceeds the limit', () => {
+      let delayNs = 5e6;
+      const histogram = {
+        enable: jest.fn(),
+        reset: jest.fn(),
+        percentile: () => delayNs,
+        get max() {
+          return delayNs * 2;
+        },
+      } as unknown as IntervalHistogram;
+      const check = createEventLoopLagCheck(100, histogram);
+
+      expect(check()).toEqual({ status: 'pass', details: { p99Ms: 5, maxMs: 10 } });
+
+      delayNs = 250e6;
+      expect(check()).toMatchObject({ status: 'fail', details: { p99Ms: 250 } });
+      expect(histogram.reset).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('createHealthChecks', () => {
+    it('should count prioritized BullMQ jobs toward the queue depth limit without querying users', async () => {
+      const counts: Partial<Record<JobType, number>> = { waiting: 0, prioritized: 7, 'waiting-children': 1, active: 2 };
+      jest
+        .spyOn(Queue.prototype, 'getJobCounts')
+        .mockImplementation(async (...types: JobType[]) =>
+          Object.fromEntries(types.map(type => [type, counts[type] ?? 0]))
+        );
+      jest.spyOn(Queue.prototype, 'count').mockResolvedValue(0);
+      jest.spyOn(Queue.prototype, 'getJobs').mockResolvedValue([]);
+      const getUsersByIds = jest.spyOn(UserDatabase.prototype, 'getUsersByIds');
+
+      const bullmq = new BullMqQueueService(new RedisMock() as unknown as Redis);
+      jest.spyOn(queueService, 'getQueueStatus').mockImplementation(() => bullmq.getQueueStatus());
+      const registry = createHealthChecks({ queueMaxDepth: 5, queueMaxAgeMs: 10_000, eventLoopMaxLagMs: 200 });
+
+      try {
+        const report = await registry.checkReadiness();
+
+        expect(report.checks['queue']).toMatchObject({
+          status: 'fail',
+          message: '8 jobs queued (limit 5)',
+          details: { waiting: 8, active: 2 },
+        });
+        expect(report.checks['userStore']).toMatchObject({ status: 'pass' });
+        expect(getUsersByIds).not.toHaveBeenCalled();
+      } finally {
+        await bullmq.close();
+      }
+    });
+  });
+
+  describe('userStore check', () => {
+    it('should fail readiness when the user store ping rejects', async () => {
+      // The in-memory store used under test has nothing to ping; give it a failing check
+      userRepository.ping = () => Promise.reject(new Error('EACCES: permission denied, access \'data\''));
+      const registry = createHealthChecks();
+
+      try {
+        const report = await registry.checkReadiness();
+
+        expect(report.status).toBe('fail');
+        expect(report.checks['userStore']).toMatchObject({
+          status: 'fail',
+          message: "EACCES: permission denied, access 'data'",
+        });
+      } finally {
+        delete userRepository.ping;
+      }
+    });
+  });
+
+  describe('GET /health/live and /health/ready', () => {
+    it('should report liveness without checking dependencies', async () => {
+      const response = await request(app).get('/health/live').expect(200);
+
+      expect(response.body.data).toMatchObject({ status: 'pass', uptime: expect.any(Number) });
+    });
+
+    it('should report every dependency check and fail once shutdown begins', async () => {
+      const ready = await request(app).get('/health/ready').expect(200);
+
+      expect(ready.body.data).toMatchObject({ status: 'pass', shuttingDown: false });
+      expect(Object.keys(ready.body.data.checks).sort()).toEqual(['cache', 'eventLoop', 'queue', 'userStore', 'warmup']);
+      expect(ready.body.data.checks.queue).toMatchObject({
+        status: 'pass',
+        latencyMs: expect.any(Number),
+        details: { waiting: 0, oldestJobAgeMs: null },
+      });
+
+      healthChecks.beginShutdown();
+      const draining = await request(app).get('/health/ready').expect(503);
+
+      expect(draining.body.error).toMatchObject({ title: 'Not ready', detail: 'Failing: shutting down.' });
+      await request(app).get('/health/live').expect(200);
+    });
+  });
+});
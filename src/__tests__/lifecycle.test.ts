@@ -0,0 +1,155 @@
+import { EventEmitter } from 'events';
+import express from 'express';
+import request from 'supertest';
+import { UserDatabase } from '../database/userDatabase';
+import { RequestDrain } from '../middleware/requestDrain';
+import { handleShutdownSignals, LifecycleManager } from '../services/lifecycle';
+import { QueueShutdownError } from '../services/queueErrors';
+import { QueueService } from '../services/queueService';
+import { UserBatchLoader } from '../services/userBatchLoader';
+import { User } from '../types';
+
+describe('Lifecycle', () => {
+  const user = (id: number): User => ({ id, name: `User ${id}`, email: `user${id}@example.com` });
+
+  const captureError = (error: unknown) => error;
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('LifecycleManager', () => {
+    it('should start in order and stop in reverse, past failing and hanging steps', async () => {
+      const calls: string[] = [];
+      const lifecycle = new LifecycleManager(20);
+
+      lifecycle.register({
+        name: 'cache',
+        start: () => void calls.push('start cache'),
+        stop: () => void calls.push('stop cache'),
+      });
+      lifecycle.register({
+        name: 'queue',
+        start: () => void calls.push('start queue'),
+        stop: () => new Promise(() => calls.push('stop queue')),
+      });
+      lifecycle.register({
+        name: 'http',
+        start: () => void calls.push('start http'),
+        stop: async () => {
+          calls.push('stop http');
+          throw new Error('already closed');
+        },
+      });
+
+      await lifecycle.start();
+      expect(lifecycle.getState()).toBe('running');
+      expect(() => lifecycle.register({ name: 'late' })).toThrow('once the lifecycle has started');
+
+      const stopping = lifecycle.stop();
+      expect(lifecycle.stop()).toBe(stopping);
+      await expect(stopping).resolves.toBe(false);
+
+      expect(calls).toEqual(['start cache', 'start queue', 'start http', 'stop http', 'stop queue', 'stop cache']);
+      expect(lifecycle.getState()).toBe('stopped');
+    });
+
+    it('should stop the services already started when a start step fails', async () => {
+      const stopped: string[] = [];
+      const lifecycle = new LifecycleManager();
+      lifecycle.register({ name: 'cache', stop: () => void stopped.push('cache') });
+      lifecycle.register({
+        name: 'http',
+        start: () => {
+          throw new Error('port in use');
+        },
+        stop: () => void stopped.push('http'),
+      });
+
+      await expect(lifecycle.start()).rejects.toThrow('port in use');
+      expect(stopped).toEqual(['cache']);
+    });
+  });
+
+  describe('handleShutdownSignals', () => {
+    it('should stop once, exit with 0 when clean, and exit at once on a second signal', async () => {
+      const source = new EventEmitter();
+      const exit = jest.fn();
+      let finishStop!: () => void;
+      const lifecycle = new LifecycleManager();
+      lifecycle.register({ name: 'http', stop: () => new Promise<void>(resolve => (finishStop = resolve)) });
+      await lifecycle.start();
+
+      const remove = handleShutdownSignals(lifecycle, { source, exit });
+      source.emit('SIGTERM', 'SIGTERM');
+      await new Promise(setImmediate);
+      expect(exit).not.toHaveBeenCalled();
+
+      source.emit('SIGINT', 'SIGINT');
+      expect(exit).toHaveBeenCalledWith(1);
+
+      finishStop();
+      await lifecycle.stop();
+      await new Promise(setImmediate);
+      expect(exit).toHaveBeenLastCalledWith(0);
+
+      remove();
+      expect(source.listenerCount('SIGTERM')).toBe(0);
+    });
+  });
+
+  describe('RequestDrain', () => {
+    it('should answer requests still running at the deadline and refuse new ones with 503', async () => {
+      const drain = new RequestDrain();
+      const app = express();
+      let arrived!: () => void;
+      const inFlight = new Promise<void>(resolve => (arrived = resolve));
+
+      app.use(drain.track);
+      app.get('/fast', (_req, res) => {
+        res.json({ ok: true });
+      });
+      app.get('/slow', () => arrived());
+
+      await request(app).get('/fast').expect(200);
+
+      const slow = request(app).get('/slow').then(response => response);
+      await inFlight;
+      expect(drain.size).toBe(1);
+      await expect(drain.drain(20)).resolves.toBe(1);
+
+      const response = await slow;
+      expect(response.status).toBe(503);
+      expect(response.body.error).toMatchObject({ title: 'Service Unavailable' });
+
+      const refused = await request(app).get('/fast').expect(503);
+      expect(refused.headers['connection']).toBe('close');
+    });
+  });
+
+  describe('QueueService.close', () => {
+    it('should let queued jobs finish until the drain deadline, then reject the rest with 503', async () => {
+      const releases = new Map<number, () => void>();
+      jest.spyOn(UserDatabase.prototype, 'getUsersByIds').mockImplementation(ids =>
+        Promise.all(ids.map(id => new Promise<User>(resolve => releases.set(id, () => resolve(user(id))))))
+      );
+      const queue = new QueueService({ concurrency: 1, loader: new UserBatchLoader({ maxBatchSize: 1 }) });
+
+      const running = queue.addUserFetchJob(1);
+      void queue.addUserFetchJob(2); // Starts once user 1 is done and never finishes
+      const queued = queue.addUserFetchJob(3).catch(captureError);
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const closing = queue.close(50);
+      releases.get(1)?.();
+
+      await expect(running).resolves.toEqual(user(1));
+      await closing;
+
+      const error = await queued;
+      expect(error).toBeInstanceOf(QueueShutdownError);
+      expect(error).toMatchObject({ statusCode: 503 });
+      await expect(queue.addUserFetchJob(4)).rejects.toBeInstanceOf(QueueShutdownError);
+    });
+  });
+});
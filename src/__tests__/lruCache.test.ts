@@ -0,0 +1,134 @@
+import { LRUCache } from '../services/cacheService';
+
+describe('LRUCache', () => {
+  const user = (id: number) => ({ id, name: `User ${id}`, email: `user${id}@example.com` });
+
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should keep namespaces apart while sharing the entry limit', async () => {
+    const root = new LRUCache<unknown>(3, 60);
+    const users = root.namespace<{ id: number }>('users');
+    const lists = root.namespace<string[]>('lists');
+
+    await users.set('a', user(1));
+    await lists.set('a', ['page']);
+    expect(root.namespace('users')).toBe(users);
+    await expect(users.get('a')).resolves.toEqual(user(1));
+    await expect(lists.get('a')).resolves.toEqual(['page']);
+
+    await lists.clear();
+    await expect(users.get('a')).resolves.toEqual(user(1));
+    await expect(lists.get('a')).resolves.toBeNull();
+
+    await lists.set('b', ['b']);
+    await lists.set('c', ['c']);
+    await lists.set('d', ['d']); // evicts users:a, the least recently used entry
+
+    await expect(users.get('a')).resolves.toBeNull();
+    await expect(users.getStats()).resolves.toMatchObject({ size: 0, evictions: 1, hits: 2 });
+    await expect(lists.getStats()).resolves.toMatchObject({ size: 3, evictions: 0 });
+  });
+
+  it('should apply per-entry TTL overrides without a stale window', async () => {
+    // 60s TTL, 120s soft TTL, 600s hard TTL
+    const cache = new LRUCache(10, 60, 120, 600);
+    await cache.set('short', user(1), now, { ttlSeconds: 5 });
+    await cache.set('long', user(2), now, { ttlSeconds: 300 });
+    await cache.set('default', user(3));
+
+    now += 30_000;
+
+    await expect(cache.lookup('short')).resolves.toBeNull();
+    await expect(cache.lookup('long')).resolves.toMatchObject({ state: 'fresh', options: { ttlSeconds: 300 } });
+    await expect(cache.lookup('default')).resolves.toMatchObject({ state: 'fresh' });
+
+    now += 60_000;
+    await expect(cache.lookup('default')).resolves.toMatchObject({ state: 'stale' });
+  });
+
+  it('should evict by estimated size when a byte budget is set', async () => {
+    const root = new LRUCache<unknown>(100, 60, 60, 60, { maxBytes: 600 });
+    const cache = root.namespace<{ id: number; padding: string }>('items');
+
+    for (let id = 1; id <= 4; id++) {
+      await cache.set(`item:${id}`, { id, padding: 'x'.repeat(100) });
+    }
+
+    const usage = root.getUsage();
+    expect(usage.bytes).toBeLessThanOrEqual(600);
+    expect(usage.entries).toBeLessThan(4);
+    await expect(cache.get('item:4')).resolves.toMatchObject({ id: 4 });
+    await expect(cache.get('item:1')).resolves.toBeNull();
+
+    // Larger than the whole budget: not stored, nothing else evicted
+    await cache.set('huge', { id: 0, padding: 'x'.repeat(1000) });
+    await expect(cache.get('huge')).resolves.toBeNull();
+    expect(root.getUsage().entries).toBe(usage.entries);
+  });
+
+  it('should delete by key pattern and by tag within one namespace', async () => {
+    const root = new LRUCache<unknown>(10, 60);
+    const users = root.namespace<{ id: number }>('users');
+    const lists = root.namespace<string[]>('lists');
+
+    await users.set('user:1', user(1), now, { tags: ['email-domain:example.com'] });
+    await users.set('user:12', user(12), now, { tags: ['email-domain:example.com'] });
+    await users.set('user:2', user(2), now, { tags: ['email-domain:example.org'] });
+    await lists.set('user:1', ['page'], now, { tags: ['email-domain:example.com'] });
+
+    await expect(users.deleteMatching('user:1*')).resolves.toBe(2);
+    await expect(users.get('user:2')).resolves.toEqual(user(2));
+    await expect(lists.get('user:1')).resolves.toEqual(['page']);
+
+    await expect(users.deleteMatching('user:?')).resolves.toBe(1);
+    await expect(lists.deleteTagged('email-domain:example.com')).resolves.toBe(1);
+    expect(root.getUsage().entries).toBe(0);
+  });
+
+  it('should describe entries without touching LRU order or stats', async () => {
+    // 60s TTL, 120s soft TTL, 600s hard TTL
+    const cache = new LRUCache(3, 60, 120, 600);
+    await cache.set('user:1', user(1), now, { tags: ['email-domain:example.com'] });
+    await cache.set('user:2', user(2));
+    await cache.set('user:3', user(3));
+    await cache.get('user:3');
+    await cache.get('user:3');
+    await cache.get('user:2');
+
+    now += 90_000;
+
+    await expect(cache.peek('user:1')).resolves.toMatchObject({ state: 'stale' });
+    expect(cache.inspect('user:1')).toMatchObject({
+      data: user(1),
+      state: 'stale',
+      accessCount: 0,
+      ttlRemainingMs: 0,
+      staleTtlRemainingMs: 30_000,
+      hardTtlRemainingMs: 510_000,
+      lruRank: 3,
+      tags: ['email-domain:example.com'],
+    });
+    expect(cache.listEntries('user:', null, 2)).toMatchObject({
+      entries: [{ key: 'user:1' }, { key: 'user:2', lruRank: 1 }],
+      next: 'user:2',
+    });
+    expect(cache.listEntries('user:', 'user:2', 2)).toMatchObject({ entries: [{ key: 'user:3' }], next: null });
+
+    const ranked = cache.rankEntries(1);
+    expect(ranked.hottest.map(entry => entry.key)).toEqual(['user:3']);
+    expect(ranked.coldest.map(entry => entry.key)).toEqual(['user:1']);
+
+    await expect(cache.getStats()).resolves.toMatchObject({ hits: 3, misses: 0 });
+    await cache.set('user:4', user(4)); // user:1 is still the least recently used entry
+    await expect(cache.peek('user:1')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+import request from 'supertest';
+import app from '../app';
+import { MetricsRegistry } from '../services/metrics';
+import { RateLimiter } from '../services/rateLimiter';
+
+describe('Metrics', () => {
+  describe('MetricsRegistry', () => {
+    it('should render counters, collected gauges and cumulative histograms', async () => {
+      const registry = new MetricsRegistry();
+      const counter = registry.counter('jobs_total', 'Jobs by outcome', ['outcome']);
+      registry.gauge('depth', 'Queue depth', ['lane'], gauge => gauge.set({ lane: 'in"ter\\active' }, 3));
+      const histogram = registry.histogram('wait_seconds', 'Wait time', [], [0.1, 1]);
+
+      counter.inc({ outcome: 'processed' });
+      counter.inc({ outcome: 'processed' }, 2);
+      histogram.observe({}, 0.05);
+      histogram.observe({}, 0.5);
+      histogram.observe({}, 5);
+
+      const text = await registry.render();
+
+      expect(registry.counter('jobs_total', 'ignored')).toBe(counter);
+      expect(text).toContain('# TYPE jobs_total counter\njobs_total{outcome="processed"} 3');
+      expect(text).toContain('depth{lane="in\\"ter\\\\active"} 3');
+      expect(text).toContain('wait_seconds_bucket{le="0.1"} 1');
+      expect(text).toContain('wait_seconds_bucket{le="1"} 2');
+      expect(text).toContain('wait_seconds_bucket{le="+Inf"} 3');
+      expect(text).toContain('wait_seconds_sum 5.55');
+      expect(text).toContain('wait_seconds_count 3');
+    });
+  });
+
+  describe('GET /metrics', () => {
+    it('should label HTTP requests by route template', async () => {
+      await request(app).get('/users/1').expect(200);
+      await request(app).get('/users/2').expect(200);
+      await request(app).get('/users/abc').expect(400);
+      await request(app).get('/no-such-route').expect(404);
+
+      const response = await request(app).get('/metrics').expect(200);
+
+      expect(response.headers['content-type']).toMatch(/^text\/plain;.*version=0\.0\.4/);
+      expect(response.text).toMatch(/http_requests_total\{method="GET",route="\/users\/:id",status="200"\} [2-9]/);
+      expect(response.text).toContain('http_requests_total{method="GET",route="/users/:id",status="400"}');
+      expect(response.text).toContain('http_requests_total{method="GET",route="unmatched",status="404"}');
+      expect(response.text).toContain('http_request_duration_seconds_bucket{method="GET",route="/users/:id"');
+      expect(response.text).not.toContain('/users/1"');
+    });
+
+    it('should expose cache, queue and rate limiter metrics', async () => {
+      await request(app).get('/users/3').expect(200);
+      await request(app).get('/users/3').expect(200);
+
+      const limiter = new RateLimiter(10, 60_000, 1, 10_000);
+      await limiter.checkLimit('metrics-test');
+      await limiter.checkLimit('metrics-test');
+      await limiter.close();
+
+      const { text } = await request(app).get('/metrics').expect(200);
+
+      expect(text).toMatch(/cache_hits_total\{namespace="users"\} [1-9]/);
+      expect(text).toMatch(/cache_entries\{namespace="users"\} [1-9]/);
+      expect(text).toContain('queue_depth{lane="interactive"} 0');
+      expect(text).toMatch(/queue_wait_seconds_count\{lane="interactive"\} [1-9]/);
+      expect(text).toMatch(/queue_processing_seconds_count [1-9]/);
+      expect(text).toMatch(/rate_limit_decisions_total\{decision="allowed",reason="none"\} [1-9]/);
+      expect(text).toMatch(/rate_limit_decisions_total\{decision="rejected",reason="burst"\} [1-9]/);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import express from 'express';
+import request from 'supertest';
+import { UserDatabase } from '../database/userDatabase';
+import { errorHandler } from '../middleware/errorHandler';
+import { QueueJobExpiredError, QueueOverloadError } from '../services/queueErrors';
+import { QueueService, QueueServiceOptions } from '../services/queueService';
+import { UserBatchLoader } from '../services/userBatchLoader';
+import { User } from '../types';
+
+describe('QueueService', () => {
+  let releases: Map<number, () => void>;
+  let started: number[];
+
+  const user = (id: number): User => ({ id, name: `User ${id}`, email: `user${id}@example.com` });
+
+  const captureError = (error: unknown) => error;
+
+  // One ID per database call, so each job can be released on its own
+  const createQueue = (options: QueueServiceOptions = {}) =>
+    new QueueService({ loader: new UserBatchLoader({ maxBatchSize: 1 }), ...options });
+
+  // Resolves the pending database call for a user and lets the queue move on
+  const release = async (id: number) => {
+    releases.get(id)?.();
+    await new Promise(setImmediate);
+  };
+
+  beforeEach(() => {
+    releases = new Map();
+    started = [];
+    jest.spyOn(UserDatabase.prototype, 'getUsersByIds').mockImplementation(ids =>
+      Promise.all(
+        ids.map(
+          id =>
+            new Promise<User>(resolve => {
+              started.push(id);
+              releases.set(id, () => resolve(user(id)));
+            })
+        )
+      )
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should coalesce concurrent requests for the same user', async () => {
+    const queue = createQueue();
+    const first = queue.addUserFetchJob(1);
+    const second = queue.addUserFetchJob(1);
+
+    await release(1);
+
+    await expect(Promise.all([first, second])).resolves.toEqual([user(1), user(1)]);
+    expect(started).toEqual([1]);
+  });
+
+  it('should start a new fetch for callers arriving after the user is invalidated', async () => {
+    const queue = createQueue();
+    const before = queue.addUserFetchJob(1);
+    const releaseBefore = releases.get(1);
+
+    queue.invalidateUser(1);
+    const after = queue.addUserFetchJob(1);
+    expect(started).toEqual([1, 1]);
+
+    releaseBefore?.();
+    await release(1);
+    await Promise.all([before, after]);
+    expect((await queue.getQueueStatus()).pendingRequests).toBe(0);
+  });
+
+  it('should run at most `concurrency` jobs at a time', async () => {
+    const queue = createQueue({ concurrency: 2 });
+    const jobs = [1, 2, 3, 4].map(id => queue.addUserFetchJob(id));
+
+    expect(started).toEqual([1, 2]);
+    expect((await queue.getQueueStatus()).active).toBe(2);
+
+    await release(1);
+    expect(started).toEqual([1, 2, 3]);
+
+    await release(2);
+    await release(3);
+    await release(4);
+    await expect(Promise.all(jobs)).resolves.toHaveLength(4);
+  });
+
+  it('should run interactive jobs ahead of background jobs', async () => {
+    const queue = createQueue({ concurrency: 1 });
+    const jobs = [
+      queue.addUserFetchJob(1),
+      queue.addUserFetchJob(2, { priority: 'background' }),
+      queue.addUserFetchJob(3, { priority: 'interactive' }),
+    ];
+
+    const status = await queue.getQueueStatus();
+    expect(status.lanes?.interactive.depth).toBe(1);
+    expect(status.lanes?.background.depth).toBe(1);
+    expect(status.oldestJobAgeMs).toEqual(expect.any(Number));
+
+    await release(1);
+    await release(3);
+    await release(2);
+    await Promise.all(jobs);
+
+    expect(started).toEqual([1, 3, 2]);
+    expect((await queue.getQueueStatus()).oldestJobAgeMs).toBeNull();
+  });
+
+  it('should reject new jobs with an overload error once the queue is full', async () => {
+    const queue = createQueue({ concurrency: 1, maxDepth: 1 });
+    const running = queue.addUserFetchJob(1);
+    const queued = queue.addUserFetchJob(2);
+
+    const overflow = queue.addUserFetchJob(3);
+    await expect(overflow).rejects.toBeInstanceOf(QueueOverloadError);
+    await expect(overflow).rejects.toMatchObject({ statusCode: 503 });
+    expect((await queue.getQueueStatus()).stats.rejected).toBe(1);
+
+    // Coalesced callers do not add depth
+    const coalesced = queue.addUserFetchJob(2);
+
+    await release(1);
+    await release(2);
+    await expect(Promise.all([running, queued, coalesced])).resolves.toHaveLength(3);
+  });
+
+  it('should drop queued jobs whose deadline has passed', async () => {
+    const queue = createQueue({ concurrency: 1 });
+    const running = queue.addUserFetchJob(1);
+    const expired = queue.addUserFetchJob(2, { deadline: Date.now() - 1 }).catch(captureError);
+
+    await release(1);
+
+    await running;
+    expect(await expired).toBeInstanceOf(QueueJobExpiredError);
+    expect(started).toEqual([1]);
+    expect((await queue.getQueueStatus()).stats.dropped).toBe(1);
+  });
+
+  it('should drop queued jobs once every caller has aborted', async () => {
+    const queue = createQueue({ concurrency: 1 });
+    const running = queue.addUserFetchJob(1);
+
+    const first = new AbortController();
+    const second = new AbortController();
+    const abandoned = queue.addUserFetchJob(2, { signal: first.signal }).catch(captureError);
+    const coalesced = queue.addUserFetchJob(2, { signal: second.signal }).catch(captureError);
+    first.abort();
+    second.abort();
+
+    await release(1);
+
+    await running;
+    expect(await abandoned).toBeInstanceOf(QueueJobExpiredError);
+    expect(await coalesced).toBeInstanceOf(QueueJobExpiredError);
+    expect(started).toEqual([1]);
+  });
+
+  it('should merge jobs from the same window into one database call', async () => {
+    const queue = new QueueService({ loader: new UserBatchLoader({ windowMs: 5 }) });
+    const jobs = [1, 2, 3].map(id => queue.addUserFetchJob(id));
+
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(UserDatabase.prototype.getUsersByIds).toHaveBeenCalledTimes(1);
+    expect(UserDatabase.prototype.getUsersByIds).toHaveBeenCalledWith([1, 2, 3]);
+
+    await release(1);
+    await release(2);
+    await release(3);
+    await expect(Promise.all(jobs)).resolves.toEqual([user(1), user(2), user(3)]);
+
+    const { batching } = await queue.getQueueStatus();
+    expect(batching).toMatchObject({ batches: 1, totalIds: 3, largestBatch: 3 });
+    expect(batching?.histogram['5']).toBe(1);
+  });
+
+  it('should map overload errors to 503 with Retry-After', async () => {
+    const app = express();
+    app.get('/', () => {
+      throw new QueueOverloadError(3);
+    });
+    app.use(errorHandler);
+
+    const response = await request(app).get('/').expect(503);
+
+    expect(response.headers['retry-after']).toBe('3');
+  });
+});
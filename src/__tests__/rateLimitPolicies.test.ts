@@ -0,0 +1,98 @@
+import request from 'supertest';
+import app from '../app';
+import { apiKeyService } from '../services/apiKeyService';
+import {
+  DEFAULT_RULES,
+  loadRateLimitPolicies,
+  PolicyConfigError,
+  RateLimitPolicyEngine,
+  validatePolicyConfig,
+} from '../services/rateLimitPolicies';
+import { RateLimitPolicyConfig } from '../types';
+
+describe('Rate limit policies', () => {
+  const strict = { maxRequests: 3, windowMs: 60000, maxBurstRequests: 2, burstWindowMs: 10000 };
+  const relaxed = { maxRequests: 100, windowMs: 60000, maxBurstRequests: 20, burstWindowMs: 10000 };
+
+  const config: RateLimitPolicyConfig = {
+    policies: [
+      { name: 'health', match: { path: '/health*' }, exempt: true },
+      {
+        name: 'create-user',
+        match: { path: '/users', methods: ['POST'] },
+        tiers: { anonymous: strict, pro: relaxed, internal: 'exempt' },
+      },
+      { name: 'user-by-id', match: { path: '/users/:id' }, tiers: { anonymous: relaxed } },
+    ],
+  };
+
+  describe('RateLimitPolicyEngine', () => {
+    const engine = new RateLimitPolicyEngine(config);
+
+    it('should exempt matching routes', () => {
+      expect(engine.resolve('GET', '/health', 'anonymous')).toMatchObject({ policy: 'health', rules: null });
+      expect(engine.resolve('GET', '/health/ready', 'pro').rules).toBeNull();
+    });
+
+    it('should match on method and pick the tier limits', () => {
+      expect(engine.resolve('POST', '/users', 'anonymous')).toMatchObject({
+        policy: 'create-user',
+        rules: strict,
+      });
+      expect(engine.resolve('POST', '/users', 'pro').rules).toEqual(relaxed);
+      expect(engine.resolve('POST', '/users', 'internal').rules).toBeNull();
+    });
+
+    it('should fall back to the anonymous limits for tiers without their own', () => {
+      expect(engine.resolve('POST', '/users', 'free').rules).toEqual(strict);
+    });
+
+    it('should match path parameters and use defaults when nothing matches', () => {
+      expect(engine.resolve('GET', '/users/42', 'anonymous').policy).toBe('user-by-id');
+      expect(engine.resolve('GET', '/users', 'anonymous')).toMatchObject({
+        policy: 'default',
+        rules: DEFAULT_RULES,
+      });
+    });
+  });
+
+  describe('validation', () => {
+    it('should report every issue in an invalid config', () => {
+      const issues = validatePolicyConfig({
+        policies: [
+          { name: 'a', match: { path: 'users', methods: ['FETCH'] }, tiers: { gold: strict } },
+          { name: 'a', match: { path: '/x' }, tiers: { anonymous: { ...strict, windowMs: -1 } } },
+        ],
+      });
+
+      expect(issues).toEqual([
+        'policies[0] (a): "match.path" must start with "/" or be "*"',
+        'policies[0] (a): unknown HTTP method "FETCH"',
+        'policies[0] (a): "tiers.anonymous" is required as the fallback tier',
+        'policies[0] (a): unknown tier "gold"',
+        'policies[1] (a): duplicate policy name',
+        'policies[1] (a): "tiers.anonymous.windowMs" must be a positive integer',
+      ]);
+    });
+
+    it('should refuse to build an engine from an invalid config', () => {
+      expect(() => new RateLimitPolicyEngine({ policies: [{ name: '', match: { path: '/' } }] })).toThrow(
+        PolicyConfigError
+      );
+    });
+
+    it('should accept the shipped policy file', () => {
+      expect(() => loadRateLimitPolicies('config/rate-limit-policies.json')).not.toThrow();
+    });
+  });
+
+  describe('GET /admin/rate-limits', () => {
+    it('should list the active policies', async () => {
+      const { key } = await apiKeyService.issue({ name: 'ops', tier: 'internal', scopes: ['admin'] });
+      const response = await request(app).get('/admin/rate-limits').set('X-API-Key', key).expect(200);
+
+      expect(Array.isArray(response.body.data.policies)).toBe(true);
+      expect(response.body.data.limiter).toHaveProperty('backend', 'memory');
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import RedisMock from 'ioredis-mock';
+import type Redis from 'ioredis';
+import { RateLimiter } from '../services/rateLimiter';
+import { RedisRateLimitStore } from '../services/redisRateLimitStore';
+import { RateLimitStore } from '../types';
+
+describe('RateLimiter', () => {
+  const failingStore: RateLimitStore = {
+    backend: 'redis',
+    consume: () => Promise.reject(new Error('Connection refused')),
+    getTrackedClients: () => null,
+    close: () => Promise.resolve(),
+  };
+
+  const exhaustBurst = async (limiter: RateLimiter, clientId: string) => {
+    for (let i = 0; i < 5; i++) {
+      expect((await limiter.checkLimit(clientId)).allowed).toBe(true);
+    }
+  };
+
+  describe.each([
+    ['memory', () => new RateLimiter()],
+    [
+      'redis',
+      () => new RateLimiter(10, 60000, 5, 10000, {
+        store: new RedisRateLimitStore(new RedisMock() as unknown as Redis, `test:${Date.now()}:`),
+      }),
+    ],
+  ])('with the %s store', (_backend, createLimiter) => {
+    let limiter: RateLimiter;
+
+    beforeEach(() => {
+      limiter = createLimiter();
+    });
+
+    afterEach(async () => {
+      await limiter.close();
+      jest.restoreAllMocks();
+    });
+
+    it('should reject the sixth request within the burst window', async () => {
+      await exhaustBurst(limiter, 'client-a');
+
+      const result = await limiter.checkLimit('client-a');
+      expect(result).toMatchObject({ allowed: false, remaining: 0, reason: 'burst' });
+      expect(result.resetTime).toBeGreaterThan(Date.now());
+    });
+
+    it('should enforce the regular window once bursts have drained', async () => {
+      let now = Date.now();
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+      await exhaustBurst(limiter, 'client-b');
+      now += 11000;
+      await exhaustBurst(limiter, 'client-b');
+      now += 11000;
+
+      const result = await limiter.checkLimit('client-b');
+      expect(result).toMatchObject({ allowed: false, reason: 'regular' });
+    });
+
+    it('should track clients independently', async () => {
+      await exhaustBurst(limiter, 'client-c');
+
+      expect((await limiter.checkLimit('client-d')).allowed).toBe(true);
+    });
+
+    it('should charge weighted requests as several and reject them unless all fit', async () => {
+      const rules = { maxRequests: 10, windowMs: 60000, maxBurstRequests: 5, burstWindowMs: 10000 };
+
+      expect(await limiter.checkLimit('client-w', rules, 3)).toMatchObject({
+        allowed: true,
+        remaining: 2,
+      });
+      expect(await limiter.checkLimit('client-w', rules, 3)).toMatchObject({
+        allowed: false,
+        reason: 'burst',
+      });
+      expect((await limiter.checkLimit('client-w', rules, 2)).allowed).toBe(true);
+    });
+
+    it('should reset a full window from now when a charge exceeds the limit on an empty window', async () => {
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      expect(await limiter.checkLimit('client-x', undefined, 6)).toEqual({
+        allowed: false,
+        remaining: 0,
+        resetTime: now + 10000,
+        reason: 'burst',
+      });
+
+      const rules = { maxRequests: 3, windowMs: 60000, maxBurstRequests: 5, burstWindowMs: 10000 };
+      expect(await limiter.checkLimit('client-y', rules, 4)).toMatchObject({
+        allowed: false,
+        resetTime: now + 60000,
+        reason: 'regular',
+      });
+    });
+  });
+
+  describe('when the store is unreachable', () => {
+    it('should fall back to local limiting by default', async () => {
+      const limiter = new RateLimiter(10, 60000, 5, 10000, { store: failingStore });
+
+      await exhaustBurst(limiter, 'client-e');
+      expect((await limiter.checkLimit('client-e')).allowed).toBe(false);
+      expect(limiter.getStats().storeErrors).toBe(6);
+    });
+
+    it('should allow every request when failing open', async () => {
+      const limiter = new RateLimiter(10, 60000, 5, 10000, { store: failingStore, failurePolicy: 'open' });
+
+      await exhaustBurst(limiter, 'client-f');
+      expect((await limiter.checkLimit('client-f')).allowed).toBe(true);
+    });
+
+    it('should reject every request when failing closed', async () => {
+      const limiter = new RateLimiter(10, 60000, 5, 10000, { store: failingStore, failurePolicy: 'closed' });
+
+      expect((await limiter.checkLimit('client-g')).allowed).toBe(false);
+    });
+
+    it('should treat slow stores as unreachable', async () => {
+      const slowStore: RateLimitStore = { ...failingStore, consume: () => new Promise(() => undefined) };
+      const limiter = new RateLimiter(10, 60000, 5, 10000, { store: slowStore, storeTimeoutMs: 10 });
+
+      expect((await limiter.checkLimit('client-h')).allowed).toBe(true);
+      expect(limiter.getStats().fallbackDecisions).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import RedisMock from 'ioredis-mock';
+import type Redis from 'ioredis';
+import { RedisCacheStore } from '../services/redisCacheStore';
+
+describe('RedisCacheStore', () => {
+  let client: Redis;
+  let store: RedisCacheStore;
+
+  const user = { id: 1, name: 'John Doe', email: 'john@example.com' };
+
+  beforeEach(async () => {
+    client = new RedisMock() as unknown as Redis;
+    await client.flushall();
+    store = new RedisCacheStore(client, { ttlSeconds: 60, keyPrefix: 'test:' });
+  });
+
+  afterEach(async () => {
+    await store.destroy();
+  });
+
+  it('should return null and count a miss for unknown keys', async () => {
+    expect(await store.get('user:1')).toBeNull();
+
+    const stats = await store.getStats();
+    expect(stats.misses).toBe(1);
+    expect(stats.hits).toBe(0);
+  });
+
+  it('should store and retrieve users under the key prefix', async () => {
+    await store.set('user:1', user);
+
+    expect(await store.get('user:1')).toEqual(user);
+    expect(JSON.parse((await client.get('test:user:1')) ?? '{}')).toMatchObject({ data: user });
+
+    const stats = await store.getStats();
+    expect(stats).toMatchObject({ backend: 'redis', hits: 1, size: 1 });
+  });
+
+  it('should apply the configured TTL to stored entries', async () => {
+    await store.set('user:1', user);
+
+    const ttl = await client.pttl('test:user:1');
+    expect(ttl).toBeGreaterThan(59000);
+    expect(ttl).toBeLessThanOrEqual(60000);
+  });
+
+  it('should apply per-entry TTL overrides', async () => {
+    await store.set('user:1', user, Date.now(), { ttlSeconds: 5 });
+
+    expect(await client.pttl('test:user:1')).toBeLessThanOrEqual(5000);
+    expect(await store.lookup('user:1')).toMatchObject({ state: 'fresh', options: { ttlSeconds: 5 } });
+  });
+
+  it('should delete single keys and clear only prefixed keys', async () => {
+    await store.set('user:1', user);
+    await store.set('user:2', { ...user, id: 2 });
+    await client.set('other:key', 'untouched');
+
+    expect(await store.delete('user:1')).toBe(true);
+    expect(await store.delete('user:1')).toBe(false);
+
+    await store.clear();
+    expect((await store.getStats()).size).toBe(0);
+    expect(await client.get('other:key')).toBe('untouched');
+  });
+
+  it('should delete prefixed keys by pattern and tagged keys by tag', async () => {
+    const tagged = { tags: ['email-domain:example.com'] };
+    await store.set('user:1', user, Date.now(), tagged);
+    await store.set('user:12', { ...user, id: 12 });
+    await store.set('user:2', { ...user, id: 2 }, Date.now(), tagged);
+    await client.set('other:user:1', 'untouched');
+
+    expect(await store.deleteMatching('user:1*')).toBe(2);
+    expect(await store.deleteTagged('email-domain:example.com')).toBe(1);
+    expect(await client.exists('test:#tag:email-domain:example.com')).toBe(0);
+
+    expect((await store.getStats()).size).toBe(0);
+    expect(await client.get('other:user:1')).toBe('untouched');
+  });
+
+  it('should stop counting the size at the scan limit', async () => {
+    store = new RedisCacheStore(client, { keyPrefix: 'test:', sizeScanLimit: 2 });
+    await Promise.all([1, 2, 3].map(id => store.set(`user:${id}`, { ...user, id })));
+
+    expect((await store.getStats()).size).toBe(2);
+  });
+
+  it('should treat invalidations as no-ops when Redis is unavailable', async () => {
+    await store.set('user:1', user, Date.now(), { tags: ['team:1'] });
+    const outage = new Error('Connection is closed.');
+    jest.spyOn(client, 'del').mockRejectedValue(outage);
+    jest.spyOn(client, 'scan').mockRejectedValue(outage);
+
+    await expect(store.delete('user:1')).resolves.toBe(false);
+    await expect(store.deleteMatching('user:*')).resolves.toBe(0);
+    await expect(store.deleteTagged('team:1')).resolves.toBe(0);
+    await expect(store.clear()).resolves.toBeUndefined();
+    await expect(store.getStats()).resolves.toMatchObject({ backend: 'redis', size: 0 });
+
+    jest.restoreAllMocks();
+    expect(await store.get('user:1')).toEqual(user);
+  });
+});
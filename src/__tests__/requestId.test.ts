@@ -0,0 +1,82 @@
+import { Writable } from 'stream';
+import request from 'supertest';
+import winston from 'winston';
+import app from '../app';
+import { UserDatabase } from '../database/userDatabase';
+import { QueueService } from '../services/queueService';
+import { UserBatchLoader } from '../services/userBatchLoader';
+import { User } from '../types';
+import { createLogger, currentRequestId, logger, requestContext } from '../utils/logger';
+
+describe('Request IDs', () => {
+  const user = (id: number): User => ({ id, name: `User ${id}`, email: `user${id}@example.com` });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('requestId middleware', () => {
+    it('should echo a well-formed incoming request ID', async () => {
+      const response = await request(app).get('/health').set('X-Request-Id', 'trace-abc.123').expect(200);
+
+      expect(response.headers['x-request-id']).toBe('trace-abc.123');
+    });
+
+    it('should replace a missing or malformed request ID with a generated one', async () => {
+      const generated = await request(app).get('/health').expect(200);
+      const replaced = await request(app).get('/health').set('X-Request-Id', 'bad id {"inject": true}').expect(200);
+
+      expect(generated.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+      expect(replaced.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+      expect(replaced.headers['x-request-id']).not.toBe(generated.headers['x-request-id']);
+    });
+  });
+
+  describe('createLogger', () => {
+    it('should write JSON entries tagged with the current request ID', () => {
+      const lines: string[] = [];
+      const output = createLogger('production');
+      output.clear().add(new winston.transports.Stream({
+        stream: new Writable({
+          write(chunk, _encoding, callback) {
+            lines.push(String(chunk));
+            callback();
+          },
+        }),
+      }));
+
+      requestContext.run({ requestId: 'req-1' }, () => output.info('Inside', { userId: 1 }));
+      output.info('Outside');
+      output.debug('Below the production level');
+
+      const entries = lines.map(line => JSON.parse(line) as Record<string, unknown>);
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toMatchObject({ level: 'info', message: 'Inside', requestId: 'req-1', userId: 1 });
+      expect(entries[1]).not.toHaveProperty('requestId');
+      expect(entries[1]).toHaveProperty('timestamp');
+    });
+  });
+
+  describe('QueueService', () => {
+    it('should run and log a shared job under the request IDs waiting on it', async () => {
+      const loadedFor: Array<string | undefined> = [];
+      jest.spyOn(UserDatabase.prototype, 'getUsersByIds').mockImplementation(async ids => {
+        loadedFor.push(currentRequestId());
+        return ids.map(user);
+      });
+      const log = jest.spyOn(logger, 'log');
+      const queue = new QueueService({ loader: new UserBatchLoader() });
+
+      await Promise.all([
+        requestContext.run({ requestId: 'req-1' }, () => queue.addUserFetchJob(1)),
+        requestContext.run({ requestId: 'req-2' }, () => queue.addUserFetchJob(1)),
+      ]);
+
+      expect(loadedFor).toEqual(['req-1']);
+      expect(log).toHaveBeenCalledWith('debug', 'User fetch job completed', expect.objectContaining({
+        userId: 1,
+        requestIds: ['req-1', 'req-2'],
+      }));
+    });
+  });
+});
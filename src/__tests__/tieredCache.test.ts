@@ -0,0 +1,84 @@
+import { EventEmitter } from 'events';
+import RedisMock from 'ioredis-mock';
+import type Redis from 'ioredis';
+import { LRUCache } from '../services/cacheService';
+import { RedisCacheStore } from '../services/redisCacheStore';
+import { LocalInvalidationBus } from '../services/invalidationBus';
+import { TieredCache } from '../services/tieredCache';
+
+describe('TieredCache', () => {
+  let instanceA: TieredCache;
+  let instanceB: TieredCache;
+
+  const user = { id: 1, name: 'John Doe', email: 'john@example.com' };
+  const updated = { ...user, email: 'john.doe@example.com' };
+
+  const createInstance = (channel: EventEmitter) =>
+    new TieredCache(
+      new LRUCache(10, 60),
+      new RedisCacheStore(new RedisMock() as unknown as Redis, { keyPrefix: 'tiered:' }),
+      new LocalInvalidationBus(channel)
+    );
+
+  beforeEach(async () => {
+    const channel = new EventEmitter();
+    instanceA = createInstance(channel);
+    instanceB = createInstance(channel);
+    await instanceA.clear();
+  });
+
+  afterEach(async () => {
+    await instanceA.destroy();
+    await instanceB.destroy();
+  });
+
+  it('should promote L2 hits into L1', async () => {
+    await instanceA.set('user:1', user);
+
+    expect(await instanceB.get('user:1')).toEqual(user);
+    expect(await instanceB.get('user:1')).toEqual(user);
+
+    const stats = await instanceB.getStats();
+    expect(stats.tiers).toMatchObject({
+      l1: { hits: 1, misses: 1, size: 1 },
+      l2: { hits: 1, misses: 0 },
+      promotions: 1,
+    });
+  });
+
+  it('should evict L1 copies on other instances when a key is rewritten', async () => {
+    await instanceA.set('user:1', user);
+    await instanceB.get('user:1');
+
+    await instanceA.set('user:1', updated);
+
+    expect(await instanceB.get('user:1')).toEqual(updated);
+    expect((await instanceB.getStats()).tiers?.invalidationsReceived).toBeGreaterThan(0);
+  });
+
+  it('should evict L1 copies on other instances on delete and clear', async () => {
+    await instanceA.set('user:1', user);
+    await instanceA.set('user:2', { ...user, id: 2 });
+    await instanceB.get('user:1');
+    await instanceB.get('user:2');
+
+    await instanceA.delete('user:1');
+    expect(await instanceB.get('user:1')).toBeNull();
+
+    await instanceA.clear();
+    expect(await instanceB.get('user:2')).toBeNull();
+  });
+
+  it('should evict L1 copies on other instances by pattern and by tag', async () => {
+    await instanceA.set('user:1', user, Date.now(), { tags: ['email-domain:example.com'] });
+    await instanceA.set('user:2', { ...user, id: 2 });
+    await instanceB.get('user:1');
+    await instanceB.get('user:2');
+
+    expect(await instanceA.deleteTagged('email-domain:example.com')).toBe(1);
+    expect(await instanceB.get('user:1')).toBeNull();
+
+    expect(await instanceA.deleteMatching('user:*')).toBe(1);
+    expect((await instanceB.getStats()).tiers?.l1.size).toBe(0);
+  });
+});
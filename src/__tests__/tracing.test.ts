@@ -0,0 +1,151 @@
+import { Writable } from 'stream';
+import request from 'supertest';
+import app from '../app';
+import { UserDatabase } from '../database/userDatabase';
+import { QueueService } from '../services/queueService';
+import {
+  ConsoleSpanExporter,
+  formatTraceparent,
+  OtlpHttpSpanExporter,
+  parseTraceparent,
+  Span,
+  Tracer,
+  tracer,
+} from '../services/tracing';
+import { UserBatchLoader } from '../services/userBatchLoader';
+import { User } from '../types';
+
+describe('Tracing', () => {
+  const user = (id: number): User => ({ id, name: `User ${id}`, email: `user${id}@example.com` });
+
+  const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+  const PARENT_ID = '00f067aa0ba902b7';
+
+  // Spans started through the shared tracer, in start order
+  const recordSpans = (): Span[] => {
+    const spans: Span[] = [];
+    const startSpan = tracer.startSpan.bind(tracer);
+    jest.spyOn(tracer, 'startSpan').mockImplementation((name, options) => {
+      const span = startSpan(name, options);
+      spans.push(span);
+      return span;
+    });
+    return spans;
+  };
+
+  const named = (spans: Span[], name: string): Span => {
+    const span = spans.find(candidate => candidate.name === name);
+    if (!span) throw new Error(`No span named ${name}`);
+    return span;
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should parse and format W3C traceparent headers', () => {
+    expect(parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-01`)).toEqual({
+      traceId: TRACE_ID,
+      spanId: PARENT_ID,
+      sampled: true,
+    });
+    expect(formatTraceparent({ traceId: TRACE_ID, spanId: PARENT_ID, sampled: false })).toBe(
+      `00-${TRACE_ID}-${PARENT_ID}-00`
+    );
+
+    expect(parseTraceparent(undefined)).toBeNull();
+    expect(parseTraceparent(`ff-${TRACE_ID}-${PARENT_ID}-01`)).toBeNull();
+    expect(parseTraceparent(`00-${'0'.repeat(32)}-${PARENT_ID}-01`)).toBeNull();
+    expect(parseTraceparent('00-not-a-trace-01')).toBeNull();
+  });
+
+  it('should continue an incoming trace through cache, queue and database spans', async () => {
+    const spans = recordSpans();
+
+    await request(app)
+      .get('/users/3')
+      .set('traceparent', `00-${TRACE_ID}-${PARENT_ID}-01`)
+      .expect(200);
+
+    const server = named(spans, 'GET /users/:id');
+    const execute = named(spans, 'queue.execute');
+    const database = named(spans, 'db.getUsersByIds');
+
+    expect(server).toMatchObject({ kind: 'server', parentSpanId: PARENT_ID });
+    expect(server.attributes).toMatchObject({ 'http.route': '/users/:id', 'http.response.status_code': 200 });
+    expect(spans.every(span => span.context.traceId === TRACE_ID)).toBe(true);
+    expect(spans.every(span => span.endTime !== undefined)).toBe(true);
+
+    expect(named(spans, 'cache.lookup').parentSpanId).toBe(server.context.spanId);
+    expect(named(spans, 'queue.wait').parentSpanId).toBe(execute.parentSpanId);
+    expect(database.parentSpanId).toBe(execute.context.spanId);
+  });
+
+  it('should link coalesced callers with the span that fetched the user', async () => {
+    jest.spyOn(UserDatabase.prototype, 'getUsersByIds').mockImplementation(async ids => ids.map(user));
+    const spans = recordSpans();
+    const queue = new QueueService({ loader: new UserBatchLoader() });
+
+    await Promise.all([
+      tracer.trace('first caller', {}, () => queue.addUserFetchJob(1)),
+      tracer.trace('second caller', {}, () => queue.addUserFetchJob(1)),
+    ]);
+
+    const first = named(spans, 'first caller');
+    const join = named(spans, 'queue.join');
+    const execute = named(spans, 'queue.execute');
+
+    expect(execute.parentSpanId).toBe(first.context.spanId);
+    expect(join.parentSpanId).toBe(named(spans, 'second caller').context.spanId);
+    expect(join.links).toEqual([execute.context]);
+    expect(execute.links).toEqual([join.context]);
+  });
+
+  it('should export sampled spans as JSON lines and OTLP', async () => {
+    const lines: string[] = [];
+    const stream = new Writable({
+      write(chunk, _encoding, callback) {
+        lines.push(String(chunk));
+        callback();
+      },
+    });
+    const local = new Tracer(new ConsoleSpanExporter(stream));
+
+    await expect(local.trace('failing', { attributes: { 'user.id': 7 } }, async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+    local.trace('unsampled', { parent: parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-00`) }, () => undefined);
+    await local.flush();
+
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0]!)).toMatchObject({
+      name: 'failing',
+      attributes: { 'user.id': 7 },
+      status: { code: 'error', message: 'boom' },
+      events: [{ name: 'exception' }],
+    });
+
+    const fetch = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+    const span = local.startSpan('exported', { parent: null, attributes: { ratio: 0.5, ok: true } });
+    span.end(span.startTime + 2);
+    await new OtlpHttpSpanExporter('http://collector:4318/', 'test-service').export([span]);
+
+    expect(fetch).toHaveBeenCalledWith('http://collector:4318/v1/traces', expect.objectContaining({ method: 'POST' }));
+    const body = JSON.parse(String(fetch.mock.calls[0]![1]!.body));
+    expect(body.resourceSpans[0].resource.attributes).toEqual([
+      { key: 'service.name', value: { stringValue: 'test-service' } },
+    ]);
+    expect(body.resourceSpans[0].scopeSpans[0].spans[0]).toMatchObject({
+      traceId: span.context.traceId,
+      name: 'exported',
+      kind: 1,
+      attributes: [
+        { key: 'ratio', value: { doubleValue: 0.5 } },
+        { key: 'ok', value: { boolValue: true } },
+      ],
+      status: { code: 0 },
+    });
+    const { startTimeUnixNano, endTimeUnixNano } = body.resourceSpans[0].scopeSpans[0].spans[0];
+    expect(BigInt(endTimeUnixNano) - BigInt(startTimeUnixNano)).toBe(2_000_000n);
+  });
+});
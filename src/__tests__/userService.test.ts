@@ -0,0 +1,124 @@
+import { UserDatabase } from '../database/userDatabase';
+import { LRUCache } from '../services/cacheService';
+import { QueueService } from '../services/queueService';
+import { UserService } from '../services/userService';
+import { UserPage } from '../types';
+import { logger } from '../utils/logger';
+
+describe('UserService', () => {
+  const user = { id: 1, name: 'John Doe', email: 'john@example.com' };
+  const refreshed = { ...user, name: 'John Refreshed' };
+
+  let now: number;
+  let cache: LRUCache;
+  let queue: QueueService;
+  let fetchUser: jest.SpyInstance;
+  let service: UserService;
+
+  beforeEach(async () => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    // 60s TTL, 120s soft TTL, 600s hard TTL
+    cache = new LRUCache(10, 60, 120, 600);
+    queue = new QueueService();
+    fetchUser = jest.spyOn(queue, 'addUserFetchJob');
+    service = new UserService(cache, queue, new LRUCache<UserPage>());
+
+    await cache.set('user:1', user);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should serve fresh entries without fetching', async () => {
+    now += 30_000;
+
+    await expect(service.getUser(1)).resolves.toEqual({ user, cached: true });
+    expect(fetchUser).not.toHaveBeenCalled();
+  });
+
+  it('should serve stale entries immediately and refresh them in the background', async () => {
+    fetchUser.mockResolvedValue(refreshed);
+    now += 90_000;
+
+    await expect(service.getUser(1)).resolves.toEqual({ user, cached: 'stale' });
+    expect(fetchUser).toHaveBeenCalledWith(1, { priority: 'background' });
+
+    // Let the background refresh settle
+    await new Promise(setImmediate);
+
+    await expect(service.getUser(1)).resolves.toEqual({ user: refreshed, cached: true });
+    expect(service.getStats()).toMatchObject({ staleServes: 1, backgroundRefreshes: 1 });
+  });
+
+  it('should fetch synchronously once past the soft TTL', async () => {
+    fetchUser.mockResolvedValue(refreshed);
+    now += 200_000;
+
+    await expect(service.getUser(1)).resolves.toEqual({ user: refreshed, cached: false });
+  });
+
+  it('should serve stale data when the fetch fails within the hard TTL', async () => {
+    const warn = jest.spyOn(logger, 'warn');
+    fetchUser.mockRejectedValue(new Error('Database unavailable'));
+    now += 200_000;
+
+    await expect(service.getUser(1)).resolves.toEqual({ user, cached: 'stale' });
+    expect(service.getStats().staleIfErrorServes).toBe(1);
+    expect(warn).toHaveBeenCalledWith('Serving stale user 1 after fetch failure:', expect.any(Error));
+  });
+
+  it('should propagate fetch failures once past the hard TTL', async () => {
+    fetchUser.mockRejectedValue(new Error('Database unavailable'));
+    now += 700_000;
+
+    await expect(service.getUser(1)).rejects.toThrow('Database unavailable');
+  });
+
+  it('should not cache a fetch that started before a write', async () => {
+    const updated = { ...user, email: 'john.doe@example.com' };
+    let finishFetch: (value: typeof user) => void = () => undefined;
+    fetchUser.mockReturnValue(new Promise(resolve => (finishFetch = resolve)));
+    jest.spyOn(UserDatabase.prototype, 'updateUser').mockResolvedValue(updated);
+    await cache.clear();
+
+    const read = service.getUser(1);
+    await new Promise(setImmediate);
+    expect(fetchUser).toHaveBeenCalled();
+
+    await expect(service.updateUser(1, { email: updated.email })).resolves.toEqual(updated);
+
+    finishFetch(user);
+    await expect(read).resolves.toEqual({ user, cached: false });
+    await expect(cache.get('user:1')).resolves.toEqual(updated);
+  });
+
+  it('should remember missing users until their ID is created', async () => {
+    fetchUser.mockResolvedValue(null);
+    const created = { id: 42, name: 'New User', email: 'new@example.com' };
+    jest.spyOn(UserDatabase.prototype, 'createUser').mockResolvedValue(created);
+
+    await expect(service.getUser(42)).resolves.toEqual({ user: null, cached: false });
+    await expect(service.getUser(42)).resolves.toEqual({ user: null, cached: true });
+    expect(fetchUser).toHaveBeenCalledTimes(1);
+    expect(service.getStats()).toMatchObject({ negativeHits: 1, negativeStores: 1 });
+
+    await service.createUser({ name: created.name, email: created.email });
+    await cache.clear();
+    fetchUser.mockResolvedValue(created);
+
+    await expect(service.getUser(42)).resolves.toEqual({ user: created, cached: false });
+  });
+
+  it('should expire not-found markers after their own TTL', async () => {
+    fetchUser.mockResolvedValue(null);
+
+    await service.getUser(7);
+    now += 31_000;
+    await service.getUser(7);
+
+    expect(fetchUser).toHaveBeenCalledTimes(2);
+  });
+});
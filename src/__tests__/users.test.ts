@@ -1,11 +1,21 @@
+import express from 'express';
 import request from 'supertest';
 import app from '../app';
+import { errorHandler } from '../middleware/errorHandler';
+import userRoutes from '../routes/users';
+import { apiKeyService } from '../services/apiKeyService';
 import { cacheService } from '../services/cacheService';
+import { hotKeyTracker } from '../services/hotKeyTracker';
+import { queueService } from '../services/queueService';
 
 describe('User Routes', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     // Clear cache before each test
-    cacheService.clear();
+    await cacheService.clear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
   });
 
   describe('GET /users/:id', () => {
@@ -19,7 +29,7 @@ describe('User Routes', () => {
         name: 'John Doe',
         email: 'john@example.com',
       });
-      expect(response.body).toHaveProperty('cached');
+      expect(response.body.meta).toHaveProperty('cached');
       expect(response.body).toHaveProperty('timestamp');
     });
 
@@ -29,7 +39,7 @@ describe('User Routes', () => {
         .expect(404);
 
       expect(response.body).toHaveProperty('error');
-      expect(response.body.error).toBe('User not found');
+      expect(response.body.error).toMatchObject({ status: 404, title: 'User not found' });
     });
 
     it('should return 400 for invalid user ID', async () => {
@@ -46,18 +56,161 @@ describe('User Routes', () => {
         .get('/users/2')
         .expect(200);
 
-      expect(response1.body.cached).toBe(false);
+      expect(response1.body.meta.cached).toBe(false);
 
       // Second request should be cached
       const response2 = await request(app)
         .get('/users/2')
         .expect(200);
 
-      expect(response2.body.cached).toBe(true);
+      expect(response2.body.meta.cached).toBe(true);
       expect(response2.body.data).toEqual(response1.body.data);
     });
   });
 
+  describe('GET /users', () => {
+    beforeAll(async () => {
+      for (const name of ['Carol List', 'Alan List', 'Bea List']) {
+        const email = `${name.split(' ')[0]?.toLowerCase()}@list.example`;
+        await request(app).post('/users').send({ name, email }).expect(201);
+      }
+    });
+
+    it('should page through a filtered listing with next and prev cursors', async () => {
+      const first = await request(app)
+        .get('/users?emailDomain=list.example&sort=name&limit=2')
+        .expect(200);
+
+      expect(first.body.data.map((user: { name: string }) => user.name)).toEqual(['Alan List', 'Bea List']);
+      expect(first.body.meta.paging).toMatchObject({ limit: 2, prev: null });
+
+      const second = await request(app)
+        .get(`/users?emailDomain=list.example&sort=name&limit=2&cursor=${first.body.meta.paging.next}`)
+        .expect(200);
+
+      expect(second.body.data.map((user: { name: string }) => user.name)).toEqual(['Carol List']);
+      expect(second.body.meta.paging.next).toBeNull();
+
+      const back = await request(app)
+        .get(`/users?emailDomain=list.example&sort=name&limit=2&cursor=${second.body.meta.paging.prev}`)
+        .expect(200);
+      expect(back.body.data).toEqual(first.body.data);
+    });
+
+    it('should filter by name prefix and sort descending', async () => {
+      const response = await request(app)
+        .get('/users?namePrefix=b&emailDomain=list.example&sort=email&order=desc')
+        .expect(200);
+
+      expect(response.body.data).toEqual([expect.objectContaining({ name: 'Bea List' })]);
+    });
+
+    it('should cache pages until a user is created', async () => {
+      const url = '/users?emailDomain=cached.example';
+      expect((await request(app).get(url).expect(200)).body.meta.cached).toBe(false);
+      expect((await request(app).get(url).expect(200)).body.meta.cached).toBe(true);
+
+      await request(app).post('/users').send({ name: 'New', email: 'new@cached.example' }).expect(201);
+
+      const response = await request(app).get(url).expect(200);
+      expect(response.body.meta.cached).toBe(false);
+      expect(response.body.data).toHaveLength(1);
+    });
+
+    it('should reject invalid limits and cursors', async () => {
+      await request(app).get('/users?limit=0').expect(400);
+      await request(app).get('/users?limit=1000').expect(400);
+      await request(app).get('/users?cursor=not-a-cursor').expect(400);
+
+      const { body } = await request(app).get('/users?limit=1').expect(200);
+      await request(app).get(`/users?limit=1&sort=name&cursor=${body.meta.paging.next}`).expect(400);
+    });
+  });
+
+  describe('GET /users?ids=', () => {
+    it('should resolve each ID and report cache hits and missing users', async () => {
+      await request(app).get('/users/1').expect(200);
+
+      const response = await request(app)
+        .get('/users?ids=1,2,998,2')
+        .expect(200);
+
+      expect(response.body.data['1']).toMatchObject({ found: true, cached: true, user: { id: 1 } });
+      expect(response.body.data['2']).toMatchObject({ found: true, cached: false, user: { id: 2 } });
+      expect(response.body.data['998']).toEqual({ found: false, cached: false, user: null });
+      expect(response.body.meta).toEqual({ requested: 3, cached: 1, fetched: 2, notFound: [998] });
+    });
+
+    it('should return 400 for missing or invalid IDs', async () => {
+      await request(app).get('/users?ids=').expect(400);
+      await request(app).get('/users?ids=1,abc').expect(400);
+    });
+
+    describe('with a rate limit', () => {
+      let limited: express.Express;
+
+      beforeEach(() => {
+        // The app skips rate limiting under test, so apply a fresh budget the way the middleware does
+        const key = `test:bulk:${Math.random()}`;
+        limited = express();
+        limited.use((req, _res, next) => {
+          req.rateLimit = {
+            policy: 'test',
+            key,
+            rules: { maxRequests: 10, windowMs: 60000, maxBurstRequests: 5, burstWindowMs: 10000 },
+          };
+          next();
+        });
+        limited.use('/users', userRoutes);
+        limited.use(errorHandler);
+      });
+
+      it('should reject misses beyond the remaining budget with 429 before fetching or recording hot keys', async () => {
+        await request(limited).get('/users?ids=2,3,4').expect(200);
+        await cacheService.set('user:1', { id: 1, name: 'John Doe', email: 'john@example.com' });
+        const record = jest.spyOn(hotKeyTracker, 'record');
+        const addUserFetchJob = jest.spyOn(queueService, 'addUserFetchJob');
+
+        const response = await request(limited).get('/users?ids=1,5,6,7,8,9').expect(429);
+
+        expect(response.body.error.title).toBe('Too Many Requests');
+        expect(Number(response.headers['retry-after'])).toBe(10);
+        expect(record).not.toHaveBeenCalled();
+        expect(addUserFetchJob).not.toHaveBeenCalled();
+      });
+
+      it('should answer 413 when the misses could never fit in the rate limit', async () => {
+        await cacheService.set('user:1', { id: 1, name: 'John Doe', email: 'john@example.com' });
+        const addUserFetchJob = jest.spyOn(queueService, 'addUserFetchJob');
+
+        const response = await request(limited).get('/users?ids=1,2,3,4,5,6,7,8').expect(413);
+
+        expect(response.body.error).toMatchObject({ title: 'Too many uncached IDs', status: 413 });
+        expect(response.body.error.detail).toContain('at most 5 uncached IDs per request');
+        expect(response.headers['retry-after']).toBeUndefined();
+        expect(addUserFetchJob).not.toHaveBeenCalled();
+
+        await request(limited).get('/users?ids=1,2,3,4,5,6').expect(200);
+      });
+    });
+  });
+
+  describe('POST /users/batch', () => {
+    it('should resolve the IDs in the request body', async () => {
+      const response = await request(app)
+        .post('/users/batch')
+        .send({ ids: [3, 4] })
+        .expect(200);
+
+      expect(Object.keys(response.body.data)).toEqual(['3', '4']);
+      expect(response.body.meta.fetched).toBe(2);
+    });
+
+    it('should return 400 when the body has no ID array', async () => {
+      await request(app).post('/users/batch').send({ ids: '1,2' }).expect(400);
+    });
+  });
+
   describe('POST /users', () => {
     it('should create a new user', async () => {
       const newUser = {
@@ -84,6 +237,15 @@ describe('User Routes', () => {
       expect(response.body).toHaveProperty('error');
     });
 
+    it('should return 409 when the email is already taken', async () => {
+      const response = await request(app)
+        .post('/users')
+        .send({ name: 'Second John', email: 'John@Example.com' })
+        .expect(409);
+
+      expect(response.body.error.detail).toContain('john@example.com');
+    });
+
     it('should return 400 for invalid email format', async () => {
       const response = await request(app)
         .post('/users')
@@ -93,7 +255,111 @@ describe('User Routes', () => {
         })
         .expect(400);
 
-      expect(response.body.error).toBe('Invalid email format');
+      expect(response.body.error.errors).toEqual([
+        { location: 'body', field: 'email', message: 'must be a valid email address' },
+      ]);
+    });
+
+    it('should list every invalid and unknown field in one problem', async () => {
+      const response = await request(app)
+        .post('/users')
+        .send({ name: 'x'.repeat(101), email: 'not-an-email', role: 'admin' })
+        .expect(400);
+
+      expect(response.body).toMatchObject({
+        success: false,
+        error: { type: 'urn:user-data-api:problem:validation', title: 'Validation failed', status: 400 },
+      });
+      expect(response.body.error.errors).toEqual(expect.arrayContaining([
+        { location: 'body', field: 'role', message: 'is not allowed' },
+        { location: 'body', field: 'name', message: 'must be at most 100 characters' },
+        { location: 'body', field: 'email', message: 'must be a valid email address' },
+      ]));
+      expect(response.body.error.errors).toHaveLength(3);
+    });
+
+    it('should trim names and lower-case emails', async () => {
+      const response = await request(app)
+        .post('/users')
+        .send({ name: '  Spaced Out  ', email: ' Spaced.Out@Example.COM ' })
+        .expect(201);
+
+      expect(response.body.data).toMatchObject({ name: 'Spaced Out', email: 'spaced.out@example.com' });
+    });
+
+    it('should reject unknown query parameters', async () => {
+      const response = await request(app).get('/users/1?debug=true').expect(400);
+
+      expect(response.body.error.errors).toEqual([
+        { location: 'query', field: 'debug', message: 'is not allowed' },
+      ]);
+    });
+  });
+
+  describe('PUT, PATCH and DELETE /users/:id', () => {
+    let key: string;
+    let userId: number;
+
+    beforeAll(async () => {
+      ({ key } = await apiKeyService.issue({ name: 'editor', tier: 'free', scopes: ['write'] }));
+    });
+
+    beforeEach(async () => {
+      const response = await request(app)
+        .post('/users')
+        .send({ name: 'Editable User', email: `editable${Date.now()}@example.com` })
+        .expect(201);
+      userId = response.body.data.id;
+    });
+
+    it('should require an API key with the write scope', async () => {
+      await request(app).patch(`/users/${userId}`).send({ name: 'Nope' }).expect(401);
+    });
+
+    it('should replace a user and never serve the old record afterwards', async () => {
+      await request(app).get(`/users/${userId}`).expect(200);
+
+      const updated = { name: 'Replaced User', email: 'replaced@example.com' };
+      const response = await request(app)
+        .put(`/users/${userId}`)
+        .set('X-API-Key', key)
+        .send(updated)
+        .expect(200);
+      expect(response.body.data).toEqual({ id: userId, ...updated });
+
+      const read = await request(app).get(`/users/${userId}`).expect(200);
+      expect(read.body.data).toEqual({ id: userId, ...updated });
+    });
+
+    it('should patch individual fields and validate them', async () => {
+      const response = await request(app)
+        .patch(`/users/${userId}`)
+        .set('X-API-Key', key)
+        .send({ email: 'corrected@example.com' })
+        .expect(200);
+      expect(response.body.data).toMatchObject({ name: 'Editable User', email: 'corrected@example.com' });
+
+      await request(app)
+        .patch(`/users/${userId}`)
+        .set('X-API-Key', key)
+        .send({ email: 'john@example.com' })
+        .expect(409);
+
+      await request(app)
+        .patch(`/users/${userId}`)
+        .set('X-API-Key', key)
+        .send({ email: 'not-an-email' })
+        .expect(400);
+      await request(app).put(`/users/${userId}`).set('X-API-Key', key).send({ name: 'Only' }).expect(400);
+    });
+
+    it('should delete a user and evict it from the cache', async () => {
+      await request(app).get(`/users/${userId}`).expect(200);
+
+      await request(app).delete(`/users/${userId}`).set('X-API-Key', key).expect(204);
+
+      await request(app).get(`/users/${userId}`).expect(404);
+      await request(app).delete(`/users/${userId}`).set('X-API-Key', key).expect(404);
     });
   });
 });
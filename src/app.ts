@@ -12,9 +12,20 @@ import helmet from 'helmet';
 import dotenv from 'dotenv';
 
 import { rateLimitMiddleware } from './middleware/rateLimitMiddleware';
-import { errorHandler, notFoundHandler } from './middleware/errorHandler';
+import { clientIdentity, parseTrustProxy } from './middleware/auth';
+import { requestSignal } from './middleware/requestSignal';
+import { asyncHandler, errorHandler, notFoundHandler } from './middleware/errorHandler';
+import { httpMetrics } from './middleware/httpMetrics';
+import { requestId } from './middleware/requestId';
+import { traceRequest } from './middleware/tracing';
+import { requestDrain } from './middleware/requestDrain';
+import { sendData, sendProblem } from './utils/apiResponse';
+import { cacheWarmer } from './services/cacheWarmer';
+import { healthChecks } from './services/healthChecks';
+import { metrics, PROMETHEUS_CONTENT_TYPE } from './services/metrics';
 import userRoutes from './routes/users';
 import cacheRoutes from './routes/cache';
+import adminRoutes from './routes/admin';
 
 // Load environment variables
 dotenv.config();
@@ -25,6 +36,21 @@ dotenv.config();
  */
 const app: Application = express();
 
+// Proxy trust decides whether req.ip comes from X-Forwarded-For
+app.set('trust proxy', parseTrustProxy(process.env['TRUST_PROXY']));
+
+// Request count and latency per route, including requests rejected further down
+app.use(httpMetrics);
+
+// Request ID echoed in X-Request-Id and attached to every log entry written for the request
+app.use(requestId);
+
+// Server span per request, continuing the caller's trace from a traceparent header
+app.use(traceRequest);
+
+// In-flight request tracking, so shutdown can drain them (and refuse new ones with 503)
+app.use(requestDrain.track);
+
 // Security middleware
 app.use(helmet());
 app.use(cors({
@@ -36,24 +62,72 @@ app.use(cors({
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
 
+// Abort signal for dropping queued work when clients disconnect
+app.use(requestSignal);
+
+// Client identification (API key or IP) used by rate limiting and admin routes
+app.use(clientIdentity);
+
+// Prometheus scrape endpoint, registered ahead of rate limiting
+app.get('/metrics', asyncHandler(async (_req, res) => {
+  res.type(PROMETHEUS_CONTENT_TYPE).send(await metrics.render());
+}));
+
 // Rate limiting middleware (skip in test environment)
 if (process.env['NODE_ENV'] !== 'test') {
   app.use(rateLimitMiddleware);
 }
 
 // Health check endpoint
+// Reports 503 until the startup cache warmup has finished or timed out
 app.get('/health', (_req, res) => {
-  res.json({
+  const warmup = cacheWarmer.getStatus();
+
+  if (!cacheWarmer.isReady()) {
+    sendProblem(
+      res,
+      503,
+      'Warming up',
+      `Cache warmup in progress: ${warmup.warmed}/${warmup.requested} users loaded.`
+    );
+    return;
+  }
+
+  sendData(res, {
     status: 'OK',
-    timestamp: new Date().toISOString(),
     uptime: process.uptime(),
     memory: process.memoryUsage(),
+    warmup,
   });
 });
 
+// Liveness: the process is up and serving HTTP; dependencies are deliberately not checked, so a
+// failing Redis or database does not get the instance restarted
+app.get('/health/live', (_req, res) => {
+  sendData(res, { status: 'pass', uptime: process.uptime() });
+});
+
+// Readiness: every dependency check passes and the instance is not shutting down
+app.get('/health/ready', asyncHandler(async (_req, res) => {
+  const report = await healthChecks.checkReadiness();
+
+  if (report.status === 'fail') {
+    const failing = Object.entries(report.checks)
+      .filter(([, check]) => check.status === 'fail')
+      .map(([name, check]) => (check.message ? `${name} (${check.message})` : name));
+    if (report.shuttingDown) failing.unshift('shutting down');
+
+    sendProblem(res, 503, 'Not ready', `Failing: ${failing.join(', ')}.`);
+    return;
+  }
+
+  sendData(res, report);
+}));
+
 // API routes
 app.use('/users', userRoutes);
 app.use('/cache', cacheRoutes);
+app.use('/admin', adminRoutes);
 
 // Error handling middleware (must be last)
 app.use(notFoundHandler);
@@ -0,0 +1,25 @@
+/**
+ * @fileoverview User repository error types
+ * @description Typed errors raised by the user repositories, mapped to HTTP responses
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { ApiError } from '../middleware/errorHandler';
+
+/**
+ * @class DuplicateEmailError
+ * @description Raised when a create or update would give two users the same email; surfaces as
+ * HTTP 409
+ * @author Bilal S.
+ */
+export class DuplicateEmailError extends Error implements ApiError {
+  readonly statusCode = 409;
+  readonly isOperational = true;
+
+  constructor(email: string) {
+    super(`A user with email ${email} already exists.`);
+    this.name = 'DuplicateEmailError';
+  }
+}
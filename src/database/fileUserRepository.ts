@@ -0,0 +1,286 @@
+/**
+ * @fileoverview File-backed user repository
+ * @description Durable user storage in an append-only JSON Lines file with schema migrations
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { User, UserListPage, UserListQuery, UserRepository } from '../types';
+import { DuplicateEmailError } from './errors';
+import { mockUsers } from './userDatabase';
+import { normalizeEmail, selectUserPage } from './userQueries';
+import { logger } from '../utils/logger';
+
+/**
+ * @type LogRecord
+ * @description One line of the store file. The first line is always the schema header.
+ */
+type LogRecord =
+  | { op: 'schema'; version: number; nextId: number }
+  | { op: 'put'; user: User }
+  | { op: 'delete'; id: number };
+
+/**
+ * @interface StoreState
+ * @description Replayed contents of the store file
+ */
+interface StoreState {
+  users: Map<number, User>;
+  nextId: number;
+}
+
+/**
+ * @interface Migration
+ * @description Upgrades the replayed state to `version`; the file is then rewritten
+ */
+interface Migration {
+  version: number;
+  description: string;
+  up(state: StoreState): void;
+}
+
+/**
+ * @constant MIGRATIONS
+ * @description Schema history, applied in order to files older than the last version
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Seed the demo users',
+    up: state => {
+      Object.values(mockUsers).forEach(user => state.users.set(user.id, { ...user }));
+      state.nextId = Math.max(state.nextId, ...Object.values(mockUsers).map(user => user.id + 1));
+    },
+  },
+  {
+    version: 2,
+    description: 'Normalize emails for the unique email constraint',
+    up: state => {
+      const seen = new Set<string>();
+      state.users.forEach(user => {
+        user.email = normalizeEmail(user.email);
+        if (seen.has(user.email)) {
+          throw new Error(`Cannot migrate user store: duplicate email ${user.email}`);
+        }
+        seen.add(user.email);
+      });
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1]?.version ?? 0;
+
+/**
+ * @class FileUserRepository
+ * @description Keeps users in memory and appends every change to a JSON Lines file, which is
+ * replayed on start. Older files are migrated and compacted before use. Writes are serialized so
+ * the unique email check and the append happen as one step.
+ * @author Bilal S.
+ */
+export class FileUserRepository implements UserRepository {
+  private readonly filePath: string;
+  private users = new Map<number, User>();
+  private nextId = 1;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @constructor
+   * @description Loads the store file, creating or migrating it as needed
+   * @param {string} filePath - Location of the JSON Lines store file
+   * @author Bilal S.
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.load();
+  }
+
+  async getUserById(id: number): Promise<User | null> {
+    return this.users.get(id) ?? null;
+  }
+
+  async getUsersByIds(ids: number[]): Promise<(User | null)[]> {
+    return ids.map(id => this.users.get(id) ?? null);
+  }
+
+  async listUsers(query: UserListQuery): Promise<UserListPage> {
+    return selectUserPage(this.users.values(), query);
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return [...this.users.values()];
+  }
+
+  /**
+   * @method ping
+   * @description Checks that the store file can still be appended to and its directory written
+   * (compaction replaces the file), so a lost mount or changed permissions fail readiness
+   * @returns {Promise<void>} Rejects when either is missing or not writable
+   * @author Bilal S.
+   */
+  async ping(): Promise<void> {
+    await Promise.all([
+      fs.promises.access(this.filePath, fs.constants.W_OK),
+      fs.promises.access(path.dirname(this.filePath), fs.constants.W_OK),
+    ]);
+  }
+
+  /**
+   * @method createUser
+   * @description Creates a user and appends it to the store file
+   * @param {Omit<User, 'id'>} userData - User data without ID
+   * @returns {Promise<User>} The created user with assigned ID
+   * @throws {DuplicateEmailError} When another user has the same email
+   * @author Bilal S.
+   */
+  createUser(userData: Omit<User, 'id'>): Promise<User> {
+    return this.exclusive(async () => {
+      const email = normalizeEmail(userData.email);
+      this.assertEmailAvailable(email);
+
+      const user: User = { id: this.nextId, ...userData, email };
+      await this.append({ op: 'put', user });
+
+      this.nextId++;
+      this.users.set(user.id, user);
+      return user;
+    });
+  }
+
+  /**
+   * @method updateUser
+   * @description Applies changes to a user and appends the new record to the store file
+   * @param {number} id - The ID of the user to update
+   * @param {Partial<Omit<User, 'id'>>} changes - Fields to overwrite
+   * @returns {Promise<User | null>} The updated user, or null if not found
+   * @throws {DuplicateEmailError} When another user has the new email
+   * @author Bilal S.
+   */
+  updateUser(id: number, changes: Partial<Omit<User, 'id'>>): Promise<User | null> {
+    return this.exclusive(async () => {
+      const user = this.users.get(id);
+      if (!user) return null;
+
+      const updatedUser: User = { ...user, ...changes, id };
+      if (changes.email !== undefined) {
+        updatedUser.email = normalizeEmail(changes.email);
+        this.assertEmailAvailable(updatedUser.email, id);
+      }
+
+      await this.append({ op: 'put', user: updatedUser });
+      this.users.set(id, updatedUser);
+      return updatedUser;
+    });
+  }
+
+  /**
+   * @method deleteUser
+   * @description Deletes a user and appends a tombstone to the store file
+   * @param {number} id - The ID of the user to delete
+   * @returns {Promise<boolean>} True if the user existed
+   * @author Bilal S.
+   */
+  deleteUser(id: number): Promise<boolean> {
+    return this.exclusive(async () => {
+      if (!this.users.has(id)) return false;
+
+      await this.append({ op: 'delete', id });
+      this.users.delete(id);
+      return true;
+    });
+  }
+
+  /**
+   * @method load
+   * @description Replays the store file. Files on an older schema (or new files) are migrated
+   * and rewritten compactly; a torn last line from a crash mid-append is ignored.
+   * @returns {void}
+   * @author Bilal S.
+   */
+  private load(): void {
+    const state: StoreState = { users: new Map(), nextId: 1 };
+    let version = 0;
+    let records = 0;
+    let torn = false;
+
+    if (fs.existsSync(this.filePath)) {
+      const lines = fs.readFileSync(this.filePath, 'utf8').split('\n').filter(Boolean);
+
+      lines.forEach((line, index) => {
+        let record: LogRecord;
+        try {
+          record = JSON.parse(line) as LogRecord;
+        } catch {
+          torn = index === lines.length - 1;
+          if (torn) return;
+          throw new Error(`Corrupt user store ${this.filePath} at line ${index + 1}`);
+        }
+
+        records++;
+        if (record.op === 'schema') {
+          version = record.version;
+          state.nextId = Math.max(state.nextId, record.nextId);
+        } else if (record.op === 'put') {
+          state.users.set(record.user.id, record.user);
+          state.nextId = Math.max(state.nextId, record.user.id + 1);
+        } else {
+          state.users.delete(record.id);
+        }
+      });
+    }
+
+    if (version > SCHEMA_VERSION) {
+      throw new Error(
+        `User store ${this.filePath} has schema version ${version}, newer than ${SCHEMA_VERSION}`
+      );
+    }
+
+    const pending = MIGRATIONS.filter(migration => migration.version > version);
+    pending.forEach(migration => {
+      logger.info('Migrating user store', { version: migration.version, description: migration.description });
+      migration.up(state);
+    });
+
+    this.users = state.users;
+    this.nextId = state.nextId;
+
+    // Rewrite after migrations, after a torn write (so appends start on a fresh line) or once
+    // deletes and updates dominate the log
+    if (pending.length > 0 || torn || records > this.users.size * 2 + 100) {
+      this.compact();
+    }
+  }
+
+  private compact(): void {
+    const records: LogRecord[] = [
+      { op: 'schema', version: SCHEMA_VERSION, nextId: this.nextId },
+      ...[...this.users.values()].map(user => ({ op: 'put' as const, user })),
+    ];
+    const tempPath = `${this.filePath}.tmp`;
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(tempPath, records.map(record => `${JSON.stringify(record)}\n`).join(''));
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  private async append(record: LogRecord): Promise<void> {
+    await fs.promises.appendFile(this.filePath, `${JSON.stringify(record)}\n`);
+  }
+
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(operation);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  // Unique email constraint
+  private assertEmailAvailable(email: string, exceptId?: number): void {
+    for (const user of this.users.values()) {
+      if (user.email === email && user.id !== exceptId) {
+        throw new DuplicateEmailError(email);
+      }
+    }
+  }
+}
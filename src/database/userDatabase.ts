@@ -6,7 +6,9 @@
  * @since 2025-07-01
  */
 
-import { User } from '../types';
+import { User, UserListPage, UserListQuery, UserRepository } from '../types';
+import { DuplicateEmailError } from './errors';
+import { normalizeEmail, selectUserPage } from './userQueries';
 
 /**
  * @function delay
@@ -31,10 +33,11 @@ export const mockUsers: Record<number, User> = {
 
 /**
  * @class UserDatabase
- * @description Singleton mock database for user management with simulated delays
+ * @description Singleton mock database for user management with simulated delays. Data lives in
+ * memory only and is reseeded from `mockUsers` on every start.
  * @author Bilal S.
  */
-export class UserDatabase {
+export class UserDatabase implements UserRepository {
   private static instance: UserDatabase;
   private users: Record<number, User> = { ...mockUsers };
   private nextId = 4;
@@ -66,6 +69,20 @@ export class UserDatabase {
     return this.users[id] || null;
   }
 
+  /**
+   * @method getUsersByIds
+   * @description Retrieves several users in one simulated database round trip
+   * @param {number[]} ids - The user IDs to retrieve
+   * @returns {Promise<(User | null)[]>} Users in the same order as `ids`, null where not found
+   * @author Bilal S.
+   */
+  async getUsersByIds(ids: number[]): Promise<(User | null)[]> {
+    // Simulate database delay (once for the whole batch)
+    await delay(parseInt(process.env['DB_DELAY_MS'] || '200', 10));
+
+    return ids.map(id => this.users[id] || null);
+  }
+
   /**
    * @method createUser
    * @description Creates a new user with simulated database delay
@@ -77,16 +94,93 @@ export class UserDatabase {
     // Simulate database delay
     await delay(parseInt(process.env['DB_DELAY_MS'] || '200', 10));
 
+    const email = normalizeEmail(userData.email);
+    this.assertEmailAvailable(email);
+
     const newUser: User = {
       id: this.nextId++,
       ...userData,
+      email,
     };
 
     this.users[newUser.id] = newUser;
     return newUser;
   }
 
-  getAllUsers(): User[] {
+  /**
+   * @method updateUser
+   * @description Applies changes to an existing user with simulated database delay
+   * @param {number} id - The ID of the user to update
+   * @param {Partial<Omit<User, 'id'>>} changes - Fields to overwrite
+   * @returns {Promise<User | null>} The updated user, or null if not found
+   * @author Bilal S.
+   */
+  async updateUser(id: number, changes: Partial<Omit<User, 'id'>>): Promise<User | null> {
+    // Simulate database delay
+    await delay(parseInt(process.env['DB_DELAY_MS'] || '200', 10));
+
+    const user = this.users[id];
+    if (!user) return null;
+
+    const updatedUser: User = { ...user, ...changes, id };
+    if (changes.email !== undefined) {
+      updatedUser.email = normalizeEmail(changes.email);
+      this.assertEmailAvailable(updatedUser.email, id);
+    }
+
+    this.users[id] = updatedUser;
+    return updatedUser;
+  }
+
+  /**
+   * @method deleteUser
+   * @description Deletes a user with simulated database delay
+   * @param {number} id - The ID of the user to delete
+   * @returns {Promise<boolean>} True if the user existed
+   * @author Bilal S.
+   */
+  async deleteUser(id: number): Promise<boolean> {
+    // Simulate database delay
+    await delay(parseInt(process.env['DB_DELAY_MS'] || '200', 10));
+
+    if (!this.users[id]) return false;
+
+    delete this.users[id];
+    return true;
+  }
+
+  /**
+   * @method listUsers
+   * @description Returns one page of users with simulated database delay
+   * @param {UserListQuery} query - Filters, ordering, page size and cursor
+   * @returns {Promise<UserListPage>} The page and whether rows exist before and after it
+   * @author Bilal S.
+   */
+  async listUsers(query: UserListQuery): Promise<UserListPage> {
+    // Simulate database delay
+    await delay(parseInt(process.env['DB_DELAY_MS'] || '200', 10));
+
+    return selectUserPage(Object.values(this.users), query);
+  }
+
+  /**
+   * @method getAllUsers
+   * @description Returns every user with simulated database delay
+   * @returns {Promise<User[]>} All users
+   * @author Bilal S.
+   */
+  async getAllUsers(): Promise<User[]> {
+    // Simulate database delay
+    await delay(parseInt(process.env['DB_DELAY_MS'] || '200', 10));
+
     return Object.values(this.users);
   }
+
+  // Unique email constraint
+  private assertEmailAvailable(email: string, exceptId?: number): void {
+    const owner = Object.values(this.users).find(user => user.email === email);
+    if (owner && owner.id !== exceptId) {
+      throw new DuplicateEmailError(email);
+    }
+  }
 }
@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Shared user query helpers
+ * @description Listing, pagination and email rules implemented the same way by every repository
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { User, UserListPage, UserListQuery } from '../types';
+
+/**
+ * @function normalizeEmail
+ * @description Canonical form of an email address; uniqueness is checked on this form
+ * @param {string} email - Email address as submitted
+ * @returns {string} Trimmed, lower-cased address
+ * @author Bilal S.
+ */
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+/**
+ * @function selectUserPage
+ * @description Filters and sorts users, then cuts one page out of the result. Rows are ordered by
+ * the sort field with the ID as tie-breaker, and the cursor is applied as a keyset condition.
+ * @param {Iterable<User>} users - Every stored user
+ * @param {UserListQuery} query - Filters, ordering, page size and cursor
+ * @returns {UserListPage} The page and whether rows exist before and after it
+ * @author Bilal S.
+ */
+export const selectUserPage = (users: Iterable<User>, query: UserListQuery): UserListPage => {
+  const { limit, sort, order, emailDomain, namePrefix, cursor } = query;
+  const direction = order === 'desc' ? -1 : 1;
+  const compare = (value: string | number, id: number, user: User): number => {
+    const other = user[sort];
+    if (value !== other) return (value < other ? -1 : 1) * direction;
+    return (id - user.id) * direction;
+  };
+
+  const matching = [...users]
+    .filter(user => !emailDomain || user.email.toLowerCase().endsWith(`@${emailDomain.toLowerCase()}`))
+    .filter(user => !namePrefix || user.name.toLowerCase().startsWith(namePrefix.toLowerCase()))
+    .sort((a, b) => compare(a[sort], a.id, b));
+
+  let start = 0;
+  if (cursor?.direction === 'next') {
+    start = matching.filter(user => compare(cursor.value, cursor.id, user) >= 0).length;
+  } else if (cursor?.direction === 'prev') {
+    start = Math.max(matching.filter(user => compare(cursor.value, cursor.id, user) > 0).length - limit, 0);
+  }
+
+  return {
+    users: matching.slice(start, start + limit),
+    hasNext: start + limit < matching.length,
+    hasPrev: start > 0,
+  };
+};
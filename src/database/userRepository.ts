@@ -0,0 +1,33 @@
+/**
+ * @fileoverview User repository selection
+ * @description Picks the user storage backend from configuration
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { UserRepository, UserStoreBackend } from '../types';
+import { FileUserRepository } from './fileUserRepository';
+import { UserDatabase } from './userDatabase';
+
+/**
+ * @function createUserRepository
+ * @description Builds the user repository selected through USER_STORE
+ * @param {UserStoreBackend} backend - Backend to use (default: USER_STORE or 'memory')
+ * @returns {UserRepository} The configured repository
+ * @author Bilal S.
+ */
+export const createUserRepository = (
+  backend = (process.env['USER_STORE'] || 'memory') as UserStoreBackend
+): UserRepository => {
+  switch (backend) {
+    case 'memory':
+      return UserDatabase.getInstance();
+    case 'file':
+      return new FileUserRepository(process.env['USER_STORE_FILE'] || 'data/users.jsonl');
+    default:
+      throw new Error(`Unsupported USER_STORE "${backend}". Expected "memory" or "file".`);
+  }
+};
+
+export const userRepository = createUserRepository();
@@ -6,7 +6,19 @@
  * @since 2025-07-01
  */
 
+import type { Server } from 'http';
 import app from './app';
+import { requestDrain } from './middleware/requestDrain';
+import { cacheAuditLog } from './services/cacheAuditLog';
+import { cacheNamespaces } from './services/cacheService';
+import { cacheWarmer } from './services/cacheWarmer';
+import { cacheSnapshots, CacheSnapshotError } from './services/cacheSnapshot';
+import { healthChecks } from './services/healthChecks';
+import { handleShutdownSignals, LifecycleManager } from './services/lifecycle';
+import { queueService } from './services/queueService';
+import { rateLimiter } from './services/rateLimiter';
+import { tracer } from './services/tracing';
+import { logger } from './utils/logger';
 
 /**
  * @description Server port configuration from environment variables
@@ -14,32 +26,115 @@ import app from './app';
  */
 const PORT = parseInt(process.env['PORT'] || '8000', 10);
 
-const server = app.listen(PORT, () => {
-  console.log(`🚀 Server running on port ${PORT}`);
-  console.log(`📖 API Health Report: http://localhost:${PORT}/health`);
-  console.log(`🔧 Environment: ${process.env['NODE_ENV'] || 'development'}`);
-});
+// Time between failing readiness and closing the server, so load balancers stop routing here
+const READINESS_DRAIN_MS = parseInt(process.env['SHUTDOWN_READINESS_DELAY_MS'] || '5000', 10);
+
+// Time in-flight requests and queued fetches get to finish before they are answered with 503
+const DRAIN_TIMEOUT_MS = parseInt(process.env['SHUTDOWN_DRAIN_TIMEOUT_MS'] || '10000', 10);
+
+// Save the local cache on shutdown and reload it on the next start
+const SNAPSHOT_ON_RESTART = process.env['CACHE_SNAPSHOT_ON_RESTART'] !== 'false';
 
-// Graceful shutdown
 /**
- * @description Handles graceful server shutdown when receiving termination signals
- * @param {string} signal - The signal received (SIGTERM, SIGINT, etc.)
- * @returns {void}
+ * @description Services in start order; they stop in reverse, so the server stops taking
+ * requests before the queue drains and the caches are saved last
  * @author Bilal S.
  */
-const gracefulShutdown = (signal: string) => {
-  console.log(`Received ${signal}. Starting graceful shutdown...`);
-  
-  server.close((err) => {
-    if (err) {
-      console.error('Error during server shutdown:', err);
-      process.exit(1);
+const lifecycle = new LifecycleManager(
+  parseInt(process.env['SHUTDOWN_STEP_TIMEOUT_MS'] || String(READINESS_DRAIN_MS + DRAIN_TIMEOUT_MS + 5000), 10)
+);
+
+lifecycle.register({
+  name: 'tracing',
+  stop: () => tracer.flush(),
+});
+
+lifecycle.register({
+  name: 'cache',
+  start: async () => {
+    if (!SNAPSHOT_ON_RESTART) return;
+    await cacheSnapshots.restore().then(
+      ({ entries, discarded }) => {
+        logger.info('Restored cache snapshot', { entries, discarded });
+      },
+      error => {
+        // No snapshot yet, or a backend without a local tier
+        if (error instanceof CacheSnapshotError && error.statusCode !== 422) return;
+        logger.warn('Ignoring cache snapshot:', error);
+      }
+    );
+  },
+  stop: async () => {
+    if (SNAPSHOT_ON_RESTART) {
+      await cacheSnapshots.save().then(
+        ({ entries }) => logger.info('Saved cache snapshot', { entries }),
+        error => {
+          if (error instanceof CacheSnapshotError && error.statusCode === 409) return;
+          logger.error('Failed to save cache snapshot:', error);
+        }
+      );
     }
-    
-    console.log('Server closed successfully');
-    process.exit(0);
-  });
-};
-
-process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
-process.on('SIGINT', () => gracefulShutdown('SIGINT'));
+    await cacheAuditLog.flush();
+    await Promise.all(Object.values(cacheNamespaces).map(cache => cache.destroy()));
+  },
+});
+
+lifecycle.register({
+  name: 'rateLimiter',
+  stop: () => rateLimiter.close(),
+});
+
+lifecycle.register({
+  name: 'queue',
+  stop: () => queueService.close(DRAIN_TIMEOUT_MS),
+});
+
+lifecycle.register({
+  name: 'cacheWarmer',
+  // Not awaited: the server listens right away and /health/ready reports 503 until the cache is warm
+  start: () => {
+    void cacheWarmer.start();
+  },
+  // Keep this run's hot keys for the next warmup
+  stop: () => cacheWarmer.stop(),
+});
+
+let server: Server | undefined;
+
+lifecycle.register({
+  name: 'http',
+  start: () =>
+    new Promise<void>(resolve => {
+      server = app.listen(PORT, () => {
+        logger.info('Server running', {
+          port: PORT,
+          health: `http://localhost:${PORT}/health/ready`,
+          environment: process.env['NODE_ENV'] || 'development',
+        });
+        resolve();
+      });
+    }),
+  stop: async () => {
+    // /health/ready answers 503 from here on, while requests are still served
+    healthChecks.beginShutdown();
+    await new Promise(resolve => setTimeout(resolve, READINESS_DRAIN_MS));
+
+    const closed = new Promise<void>((resolve, reject) => {
+      server?.close(error => (error ? reject(error) : resolve()));
+    });
+    server?.closeIdleConnections();
+
+    const rejected = await requestDrain.drain(DRAIN_TIMEOUT_MS);
+    if (rejected > 0) logger.warn('Answered in-flight requests with 503 at the drain deadline', { rejected });
+
+    server?.closeAllConnections();
+    await closed;
+  },
+});
+
+handleShutdownSignals(lifecycle);
+
+lifecycle.start().catch(error => {
+  logger.error('Failed to start the server:', error);
+  process.exit(1);
+});
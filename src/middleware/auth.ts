@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Client identification and authorization middleware
+ * @description Resolves API keys into `req.client` and guards scoped routes
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { apiKeyService } from '../services/apiKeyService';
+import { ApiKeyScope } from '../types';
+import { sendProblem } from '../utils/apiResponse';
+
+/**
+ * @function readApiKey
+ * @description Extracts an API key from the X-API-Key header or a Bearer token
+ * @param {Request} req - Express request object
+ * @returns {string | null} The presented key, if any
+ * @author Bilal S.
+ */
+const readApiKey = (req: Request): string | null => {
+  const header = req.get('X-API-Key');
+  if (header) return header.trim();
+
+  const authorization = req.get('Authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+
+  return null;
+};
+
+/**
+ * @function parseTrustProxy
+ * @description Converts TRUST_PROXY into an Express `trust proxy` setting. Accepts
+ * true/false, a hop count, or a comma-separated list of trusted addresses/subnets.
+ * @param {string | undefined} value - Raw TRUST_PROXY value
+ * @returns {boolean | number | string[]} Value for `app.set('trust proxy', ...)`
+ * @author Bilal S.
+ */
+export const parseTrustProxy = (value: string | undefined): boolean | number | string[] => {
+  if (!value || value === 'false') return false;
+  if (value === 'true') return true;
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  return value.split(',').map(entry => entry.trim()).filter(Boolean);
+};
+
+/**
+ * @function clientIdentity
+ * @description Attaches `req.client`: the API key identity when a valid key is presented,
+ * otherwise an anonymous identity keyed on the client IP (honouring `trust proxy`).
+ * Requests presenting an unknown or revoked key are rejected with 401.
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ * @returns {void}
+ * @author Bilal S.
+ */
+export const clientIdentity = (req: Request, res: Response, next: NextFunction): void => {
+  const key = readApiKey(req);
+
+  if (!key) {
+    req.client = {
+      id: `ip:${req.ip || req.socket.remoteAddress || 'unknown'}`,
+      type: 'ip',
+      tier: 'anonymous',
+      scopes: [],
+    };
+    next();
+    return;
+  }
+
+  const record = apiKeyService.verify(key);
+  if (!record) {
+    sendProblem(res, 401, 'Unauthorized', 'The API key provided is invalid or has been revoked.');
+    return;
+  }
+
+  req.client = {
+    id: `key:${record.id}`,
+    type: 'apiKey',
+    tier: record.tier,
+    scopes: record.scopes,
+    keyId: record.id,
+  };
+  next();
+};
+
+/**
+ * @function requireScope
+ * @description Builds middleware that only lets through API keys holding the given scope
+ * @param {ApiKeyScope} scope - Required scope
+ * @returns {Function} Express middleware function
+ * @author Bilal S.
+ */
+export const requireScope = (scope: ApiKeyScope) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (req.client?.type !== 'apiKey') {
+      sendProblem(res, 401, 'Unauthorized', 'An API key is required. Provide it in the X-API-Key header.');
+      return;
+    }
+
+    if (!req.client.scopes.includes(scope)) {
+      sendProblem(res, 403, 'Forbidden', `This API key lacks the "${scope}" scope.`);
+      return;
+    }
+
+    next();
+  };
+};
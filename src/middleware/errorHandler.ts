@@ -7,6 +7,9 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
+import { ProblemOptions, sendProblem, statusTitle } from '../utils/apiResponse';
+import { routeTemplate } from './httpMetrics';
+import { logger } from '../utils/logger';
 
 /**
  * @interface ApiError
@@ -15,6 +18,7 @@ import { Request, Response, NextFunction } from 'express';
 export interface ApiError extends Error {
   statusCode?: number;
   isOperational?: boolean;
+  retryAfter?: number;
 }
 
 /**
@@ -29,25 +33,35 @@ export interface ApiError extends Error {
  */
 export const errorHandler = (
   err: ApiError,
-  _req: Request,
+  req: Request,
   res: Response,
   _next: NextFunction
 ): void => {
-  const { statusCode = 500, message, stack } = err;
+  const { statusCode = 500, message, stack, retryAfter } = err;
+  const context = { statusCode, method: req.method, path: req.originalUrl };
 
-  const response = {
-    error: {
-      message,
-      ...(process.env['NODE_ENV'] === 'development' && { stack }),
-    },
-  };
+  // The response already went out, e.g. the 503 sent to requests still running at shutdown
+  if (res.headersSent) {
+    logger.debug(`Error after the response was sent: ${message}`, context);
+    return;
+  }
+
+  if (retryAfter !== undefined) {
+    res.set('Retry-After', retryAfter.toString());
+  }
+
+  const options: ProblemOptions = {};
+  if (retryAfter !== undefined) options.retryAfter = retryAfter;
+  if (process.env['NODE_ENV'] === 'development' && stack) options.stack = stack;
 
-  console.error(`Error ${statusCode}: ${message}`);
-  if (process.env['NODE_ENV'] === 'development') {
-    console.error(stack);
+  // Client errors are expected traffic; server errors keep their stack
+  if (statusCode >= 500) {
+    logger.error(message, { ...context, stack });
+  } else {
+    logger.warn(message, context);
   }
 
-  res.status(statusCode).json(response);
+  sendProblem(res, statusCode, statusTitle(statusCode), message, options);
 };
 
 /**
@@ -59,22 +73,22 @@ export const errorHandler = (
  * @author Bilal S.
  */
 export const notFoundHandler = (req: Request, res: Response): void => {
-  res.status(404).json({
-    error: {
-      message: `Route ${req.originalUrl} not found`,
-    },
-  });
+  sendProblem(res, 404, 'Not Found', `Route ${req.originalUrl} not found`);
 };
 
 /**
  * @function asyncHandler
- * @description Wrapper for async route handlers to catch errors
+ * @description Wrapper for async route handlers to catch errors. Forwarding an error leaves
+ * the router, which resets `req.baseUrl`, so the route template is kept for the metrics first.
  * @param {Function} fn - Async route handler function
  * @returns {Function} Express middleware function
  * @author Bilal S.
  */
 export const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<void>) => {
   return (req: Request, res: Response, next: NextFunction) => {
-    Promise.resolve(fn(req, res, next)).catch(next);
+    Promise.resolve(fn(req, res, next)).catch(error => {
+      res.locals['routeTemplate'] = routeTemplate(req, res);
+      next(error);
+    });
   };
 };
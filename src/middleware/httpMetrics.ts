@@ -0,0 +1,58 @@
+/**
+ * @fileoverview HTTP request metrics middleware
+ * @description Counts requests and records their latency by method, route template and status
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { metrics } from '../services/metrics';
+
+const LABELS = ['method', 'route', 'status'] as const;
+
+const requestsTotal = metrics.counter('http_requests_total', 'HTTP requests by route template and status', LABELS);
+const requestDuration = metrics.histogram(
+  'http_request_duration_seconds',
+  'HTTP request latency from arrival until the response was sent',
+  LABELS
+);
+
+/**
+ * @function routeTemplate
+ * @description Route label for a request: the matched route template (e.g. `/users/:id`), so
+ * raw IDs never become label values. Requests no route matched share `unmatched`.
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @returns {string} Route template
+ * @author Bilal S.
+ */
+export const routeTemplate = (req: Request, res: Response): string => {
+  if (typeof res.locals['routeTemplate'] === 'string') return res.locals['routeTemplate'];
+  if (!req.route) return 'unmatched';
+
+  const path = String(req.route.path);
+  return req.baseUrl && path === '/' ? req.baseUrl : `${req.baseUrl}${path}`;
+};
+
+/**
+ * @function httpMetrics
+ * @description Records every request once its response has been sent. Registered first, so
+ * the latency includes rate limiting, validation and error handling.
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ * @returns {void}
+ * @author Bilal S.
+ */
+export const httpMetrics = (req: Request, res: Response, next: NextFunction): void => {
+  const start = process.hrtime.bigint();
+
+  res.on('finish', () => {
+    const labels = { method: req.method, route: routeTemplate(req, res), status: String(res.statusCode) };
+
+    requestsTotal.inc(labels);
+    requestDuration.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+  });
+  next();
+};
@@ -8,23 +8,88 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { rateLimiter } from '../services/rateLimiter';
+import { rateLimitPolicies } from '../services/rateLimitPolicies';
+import { RateLimitResult } from '../types';
+import { PROBLEM_TYPES, sendProblem } from '../utils/apiResponse';
+import { asyncHandler } from './errorHandler';
 
 /**
  * @function rateLimitMiddleware
- * @description Express middleware for rate limiting with proper headers
+ * @description Express middleware applying the rate limit policy that matches the route,
+ * method and client tier. Each policy keeps its own budget per client.
  * @param {Request} req - Express request object
  * @param {Response} res - Express response object
  * @param {NextFunction} next - Express next function
- * @returns {void}
+ * @returns {Promise<void>}
  * @author Bilal S.
  */
-export const rateLimitMiddleware = (req: Request, res: Response, next: NextFunction): void => {
-  const clientId = req.ip || req.socket.remoteAddress || 'unknown';
-  const result = rateLimiter.checkLimit(clientId);
+export const rateLimitMiddleware = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { policy, rules } = rateLimitPolicies.resolve(
+    req.method,
+    req.path,
+    req.client?.tier ?? 'anonymous'
+  );
+
+  if (!rules) {
+    next();
+    return;
+  }
+
+  const clientId = req.client?.id ?? `ip:${req.ip || req.socket.remoteAddress || 'unknown'}`;
+  req.rateLimit = { policy, key: `${policy}:${clientId}`, rules };
+
+  const result = await rateLimiter.checkLimit(req.rateLimit.key, rules);
+  if (sendRateLimitResult(req, res, result)) {
+    next();
+  }
+});
+
+/**
+ * @function chargeRateLimit
+ * @description Charges additional requests against the budget the middleware already applied,
+ * for routes whose cost is only known once they start working (e.g. bulk lookups)
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {number} cost - Extra requests to charge
+ * @returns {Promise<boolean>} False if the charge was rejected and a 429 has been sent
+ * @author Bilal S.
+ */
+export const chargeRateLimit = async (req: Request, res: Response, cost: number): Promise<boolean> => {
+  // Exempt routes, and tests that skip the middleware, have nothing to charge against
+  if (!req.rateLimit || cost <= 0) return true;
+
+  const result = await rateLimiter.checkLimit(req.rateLimit.key, req.rateLimit.rules, cost);
+  return sendRateLimitResult(req, res, result);
+};
+
+/**
+ * @function maxRateLimitCost
+ * @description Largest number of requests one call can count as under the applied policy, i.e.
+ * the smaller of its window and burst limits. A higher cost is refused even on an empty window.
+ * @param {Request} req - Express request object
+ * @returns {number} The largest cost, or Infinity when no rate limit applies
+ * @author Bilal S.
+ */
+export const maxRateLimitCost = (req: Request): number => {
+  if (!req.rateLimit) return Infinity;
+
+  const { maxRequests, maxBurstRequests } = req.rateLimit.rules;
+  return Math.min(maxRequests, maxBurstRequests);
+};
+
+/**
+ * @function sendRateLimitResult
+ * @description Sets the rate limit headers and sends a 429 if the request was not allowed
+ * @returns {boolean} Whether the request may proceed
+ * @author Bilal S.
+ */
+const sendRateLimitResult = (req: Request, res: Response, result: RateLimitResult): boolean => {
+  const { policy, rules } = req.rateLimit!;
 
   // Set rate limit headers
   res.set({
-    'X-RateLimit-Limit': '10',
+    'X-RateLimit-Policy': policy,
+    'X-RateLimit-Limit': rules.maxRequests.toString(),
     'X-RateLimit-Remaining': result.remaining.toString(),
     'X-RateLimit-Reset': new Date(result.resetTime).toISOString(),
   });
@@ -33,13 +98,12 @@ export const rateLimitMiddleware = (req: Request, res: Response, next: NextFunct
     const retryAfter = Math.ceil((result.resetTime - Date.now()) / 1000);
     res.set('Retry-After', retryAfter.toString());
     
-    res.status(429).json({
-      error: 'Too Many Requests',
-      message: 'Rate limit exceeded. Please try again later.',
+    sendProblem(res, 429, 'Too Many Requests', 'Rate limit exceeded. Please try again later.', {
+      type: PROBLEM_TYPES.rateLimited,
       retryAfter,
     });
-    return;
+    return false;
   }
 
-  next();
+  return true;
 };
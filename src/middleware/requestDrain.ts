@@ -0,0 +1,87 @@
+/**
+ * @fileoverview In-flight request draining
+ * @description Tracks running requests so shutdown can wait for them, and answers the ones
+ * still running at the drain deadline with a 503 instead of cutting their connection
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { sendProblem } from '../utils/apiResponse';
+
+const SHUTDOWN_DETAIL = 'The server is shutting down. Please retry on another instance.';
+
+/**
+ * @class RequestDrain
+ * @description In-flight request registry. Once draining starts, requests that arrive on
+ * kept-alive connections are refused with a 503 and `Connection: close`.
+ * @author Bilal S.
+ */
+export class RequestDrain {
+  private readonly inFlight = new Set<Response>();
+  private draining = false;
+  private idle: (() => void) | null = null;
+
+  /**
+   * @method track
+   * @description Express middleware registering the request until its response is finished
+   * or its connection closes
+   * @param {Request} _req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {void}
+   * @author Bilal S.
+   */
+  track = (_req: Request, res: Response, next: NextFunction): void => {
+    if (this.draining) {
+      res.set('Connection', 'close');
+      sendProblem(res, 503, 'Service Unavailable', SHUTDOWN_DETAIL);
+      return;
+    }
+
+    this.inFlight.add(res);
+    res.once('close', () => {
+      this.inFlight.delete(res);
+      if (this.inFlight.size === 0) this.idle?.();
+    });
+    next();
+  };
+
+  get size(): number {
+    return this.inFlight.size;
+  }
+
+  /**
+   * @method drain
+   * @description Refuses new requests and waits up to `timeoutMs` for the running ones, then
+   * sends a 503 to every request that has not started its response
+   * @param {number} timeoutMs - Longest wait for in-flight requests
+   * @returns {Promise<number>} Number of requests answered with a 503
+   * @author Bilal S.
+   */
+  async drain(timeoutMs: number): Promise<number> {
+    this.draining = true;
+
+    if (this.inFlight.size > 0) {
+      let timer: NodeJS.Timeout | undefined;
+      await new Promise<void>(resolve => {
+        this.idle = resolve;
+        timer = setTimeout(resolve, timeoutMs);
+      });
+      clearTimeout(timer);
+      this.idle = null;
+    }
+
+    let rejected = 0;
+    for (const res of this.inFlight) {
+      if (res.headersSent) continue;
+      res.set('Connection', 'close');
+      sendProblem(res, 503, 'Service Unavailable', SHUTDOWN_DETAIL);
+      rejected++;
+    }
+    return rejected;
+  }
+}
+
+export const requestDrain = new RequestDrain();
@@ -0,0 +1,35 @@
+/**
+ * @fileoverview Request ID middleware
+ * @description Gives every request an ID that is echoed back and attached to its log entries
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { randomUUID } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { requestContext } from '../utils/logger';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Incoming IDs are reused only if they are short and printable, so they are safe to log
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * @function requestId
+ * @description Reuses a well-formed incoming `X-Request-Id` or generates one, sets `req.id`,
+ * echoes it in the response, and runs the rest of the request inside its logging context
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ * @returns {void}
+ * @author Bilal S.
+ */
+export const requestId = (req: Request, res: Response, next: NextFunction): void => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const id = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+
+  req.id = id;
+  res.set(REQUEST_ID_HEADER, id);
+  requestContext.run({ requestId: id }, next);
+};
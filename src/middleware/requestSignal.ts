@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Client disconnect detection middleware
+ * @description Exposes an AbortSignal that fires when the client gives up on the request
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { Request, Response, NextFunction } from 'express';
+
+/**
+ * @function requestSignal
+ * @description Attaches `req.abortSignal`, aborted when the connection closes before the
+ * response was sent, so queued work for that request can be dropped
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ * @returns {void}
+ * @author Bilal S.
+ */
+export const requestSignal = (req: Request, res: Response, next: NextFunction): void => {
+  const controller = new AbortController();
+
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+
+  req.abortSignal = controller.signal;
+  next();
+};
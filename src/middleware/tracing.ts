@@ -0,0 +1,54 @@
+/**
+ * @fileoverview Request tracing middleware
+ * @description Opens the server span of every request, continuing the caller's trace when a
+ * W3C `traceparent` header is present
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { parseTraceparent, tracer } from '../services/tracing';
+import { routeTemplate } from './httpMetrics';
+
+/**
+ * @function traceRequest
+ * @description Starts a server span, runs the rest of the request with it active, and ends it
+ * once the response has been sent or the client has gone away. The span is named after the
+ * route template (`GET /users/:id`), never the raw path.
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ * @returns {void}
+ * @author Bilal S.
+ */
+export const traceRequest = (req: Request, res: Response, next: NextFunction): void => {
+  const span = tracer.startSpan(req.method, {
+    kind: 'server',
+    parent: parseTraceparent(req.get('traceparent')),
+    attributes: { 'http.request.method': req.method, 'url.path': req.path },
+  });
+  if (req.id) span.setAttributes({ 'request.id': req.id });
+
+  const end = () => {
+    if (span.endTime !== undefined) return;
+
+    const route = routeTemplate(req, res);
+    if (route !== 'unmatched') {
+      span.name = `${req.method} ${route}`;
+      span.setAttributes({ 'http.route': route });
+    }
+
+    if (!res.writableFinished) {
+      span.status = { code: 'error', message: 'Client closed the connection' };
+    } else {
+      span.setAttributes({ 'http.response.status_code': res.statusCode });
+      if (res.statusCode >= 500) span.status = { code: 'error' };
+    }
+    span.end();
+  };
+
+  res.once('finish', end);
+  res.once('close', end);
+  tracer.withSpan(span, next);
+};
@@ -0,0 +1,247 @@
+/**
+ * @fileoverview Declarative request validation
+ * @description Validates and normalizes route params, query strings and JSON bodies against
+ * schemas, answering with one problem listing every invalid field
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { FieldError } from '../types';
+import { PROBLEM_TYPES, sendProblem } from '../utils/apiResponse';
+
+/**
+ * @interface StringField
+ * @description String rule. `trim` and `lowercase` normalize the value before it is checked;
+ * `patternMessage` replaces the generic message when `pattern` does not match.
+ */
+export interface StringField {
+  type: 'string';
+  required?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  format?: 'email';
+  pattern?: RegExp;
+  patternMessage?: string;
+  enum?: readonly string[];
+  trim?: boolean;
+  lowercase?: boolean;
+}
+
+/**
+ * @interface IntegerField
+ * @description Integer rule; params and query values are parsed from their string form
+ */
+export interface IntegerField {
+  type: 'integer';
+  required?: boolean;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * @interface ArrayField
+ * @description List rule. In the query string the list is one value split on `separator`.
+ */
+export interface ArrayField {
+  type: 'array';
+  required?: boolean;
+  items: StringField | IntegerField;
+  minItems?: number;
+  maxItems?: number;
+  separator?: string;
+}
+
+export type FieldSchema = StringField | IntegerField | ArrayField;
+
+/**
+ * @interface ObjectSchema
+ * @description Allowed fields of one request part. Fields not listed are rejected.
+ */
+export interface ObjectSchema {
+  fields: Record<string, FieldSchema>;
+  minFields?: number;
+}
+
+/**
+ * @interface RequestSchema
+ * @description Schemas per request part. A missing `query` or `body` schema means the request
+ * may not send any; a missing `params` schema leaves route params unchecked.
+ */
+export interface RequestSchema {
+  params?: ObjectSchema;
+  query?: ObjectSchema;
+  body?: ObjectSchema;
+}
+
+type Location = FieldError['location'];
+
+// WHATWG HTML email grammar (what browsers accept for <input type="email">)
+const EMAIL_PATTERN =
+  /^[a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)+$/;
+
+const EMPTY_SCHEMA: ObjectSchema = { fields: {} };
+
+/**
+ * @function sendValidationProblem
+ * @description Answers 400 with the validation problem for the given field errors
+ * @param {Response} res - Express response object
+ * @param {FieldError[]} errors - Every invalid field
+ * @returns {void}
+ * @author Bilal S.
+ */
+export const sendValidationProblem = (res: Response, errors: FieldError[]): void => {
+  sendProblem(
+    res,
+    400,
+    'Validation failed',
+    `The request has ${errors.length} invalid field${errors.length === 1 ? '' : 's'}.`,
+    { type: PROBLEM_TYPES.validation, errors }
+  );
+};
+
+/**
+ * @function validate
+ * @description Builds middleware that checks the request against a schema. Valid values are
+ * written back normalized (trimmed, lower-cased, numbers parsed in the body).
+ * @param {RequestSchema} schema - Rules for params, query and body
+ * @returns {Function} Express middleware function
+ * @author Bilal S.
+ */
+export const validate = (schema: RequestSchema) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const errors: FieldError[] = [];
+
+    if (schema.params) {
+      req.params = checkObject('params', req.params, schema.params, errors) as Request['params'];
+    }
+    req.query = checkObject('query', req.query, schema.query ?? EMPTY_SCHEMA, errors) as Request['query'];
+    req.body = checkObject('body', req.body ?? {}, schema.body ?? EMPTY_SCHEMA, errors);
+
+    if (errors.length > 0) {
+      sendValidationProblem(res, errors);
+      return;
+    }
+
+    next();
+  };
+};
+
+const checkObject = (
+  location: Location,
+  input: unknown,
+  schema: ObjectSchema,
+  errors: FieldError[]
+): Record<string, unknown> => {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    errors.push({ location, message: 'must be an object' });
+    return {};
+  }
+
+  const values = input as Record<string, unknown>;
+  const output: Record<string, unknown> = {};
+
+  Object.keys(values)
+    .filter(field => !(field in schema.fields))
+    .forEach(field => errors.push({ location, field, message: 'is not allowed' }));
+
+  Object.entries(schema.fields).forEach(([field, rule]) => {
+    const value = values[field];
+
+    if (value === undefined) {
+      if (rule.required) errors.push({ location, field, message: 'is required' });
+      return;
+    }
+
+    const checked = checkValue(location, field, value, rule, errors);
+    if (checked !== undefined) output[field] = checked;
+  });
+
+  const present = Object.keys(schema.fields).filter(field => values[field] !== undefined);
+  if (schema.minFields && present.length < schema.minFields) {
+    errors.push({
+      location,
+      message: `must contain at least ${schema.minFields} of: ${Object.keys(schema.fields).join(', ')}`,
+    });
+  }
+
+  return output;
+};
+
+const checkValue = (
+  location: Location,
+  field: string,
+  value: unknown,
+  rule: FieldSchema,
+  errors: FieldError[]
+): unknown => {
+  const fail = (message: string) => {
+    errors.push({ location, field, message });
+    return undefined;
+  };
+
+  // Repeated query parameters arrive as arrays
+  if (location !== 'body' && rule.type !== 'array' && typeof value !== 'string') {
+    return fail('must be given once');
+  }
+
+  switch (rule.type) {
+    case 'string': {
+      if (typeof value !== 'string') return fail('must be a string');
+
+      let text = rule.trim ? value.trim() : value;
+      if (rule.lowercase) text = text.toLowerCase();
+
+      if (rule.minLength !== undefined && text.length < rule.minLength) {
+        return fail(rule.minLength === 1 ? 'must not be empty' : `must be at least ${rule.minLength} characters`);
+      }
+      if (rule.maxLength !== undefined && text.length > rule.maxLength) {
+        return fail(`must be at most ${rule.maxLength} characters`);
+      }
+      if (rule.format === 'email' && !EMAIL_PATTERN.test(text)) {
+        return fail('must be a valid email address');
+      }
+      if (rule.pattern && !rule.pattern.test(text)) {
+        return fail(rule.patternMessage ?? 'has an invalid format');
+      }
+      if (rule.enum && !rule.enum.includes(text)) {
+        return fail(`must be one of: ${rule.enum.join(', ')}`);
+      }
+      return text;
+    }
+
+    case 'integer': {
+      const number = location === 'body' ? value : /^-?\d+$/.test(String(value)) ? Number(value) : NaN;
+
+      if (typeof number !== 'number' || !Number.isSafeInteger(number)) return fail('must be an integer');
+      if (rule.min !== undefined && number < rule.min) return fail(`must be at least ${rule.min}`);
+      if (rule.max !== undefined && number > rule.max) return fail(`must be at most ${rule.max}`);
+
+      // Params and query keep their string form; only body values change type
+      return location === 'body' ? number : String(number);
+    }
+
+    case 'array': {
+      const items = location === 'body' || typeof value !== 'string'
+        ? value
+        : value.split(rule.separator ?? ',');
+
+      if (!Array.isArray(items)) return fail('must be an array');
+      if (rule.minItems !== undefined && items.length < rule.minItems) {
+        return fail(`must contain at least ${rule.minItems} item${rule.minItems === 1 ? '' : 's'}`);
+      }
+      if (rule.maxItems !== undefined && items.length > rule.maxItems) {
+        return fail(`must contain at most ${rule.maxItems} items`);
+      }
+
+      const before = errors.length;
+      const checked = items.map((item, index) =>
+        checkValue(location, `${field}[${index}]`, item, rule.items, errors)
+      );
+
+      if (errors.length > before) return undefined;
+      return location === 'body' ? checked : checked.join(rule.separator ?? ',');
+    }
+  }
+};
@@ -0,0 +1,235 @@
+/**
+ * @fileoverview Administrative routes
+ * @description Provides REST API endpoints for API key management, cache snapshots, cache
+ * invalidation and runtime configuration.
+ * Every route requires an API key with the admin scope.
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { Router, Request, Response } from 'express';
+import { rateLimiter } from '../services/rateLimiter';
+import { rateLimitPolicies } from '../services/rateLimitPolicies';
+import { apiKeyService, toPublicRecord } from '../services/apiKeyService';
+import { cacheSnapshots } from '../services/cacheSnapshot';
+import { CACHE_NAMESPACES, cacheNamespaces } from '../services/cacheService';
+import { cacheAuditLog } from '../services/cacheAuditLog';
+import { CACHE_PATTERN } from '../services/cachePatterns';
+import { asyncHandler } from '../middleware/errorHandler';
+import { requireScope } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { sendData, sendProblem } from '../utils/apiResponse';
+import { ApiKeyScope, CacheAuditAction, CacheNamespace, ClientTier } from '../types';
+
+const router: Router = Router();
+
+// Keys cannot be issued for the anonymous tier
+const ISSUABLE_TIERS: ClientTier[] = ['free', 'pro', 'internal'];
+const API_KEY_SCOPES: ApiKeyScope[] = ['read', 'write', 'admin'];
+
+// Invalidations target the users namespace unless `?namespace=` says otherwise
+const namespaceQuery = { namespace: { type: 'string', enum: CACHE_NAMESPACES } } as const;
+
+const namespaceOf = (req: Request): CacheNamespace =>
+  (req.query['namespace'] as CacheNamespace | undefined) ?? 'users';
+
+/**
+ * @function sendInvalidation
+ * @description Records an admin invalidation in the audit log and returns the audit record
+ * @author Bilal S.
+ */
+const sendInvalidation = (
+  req: Request,
+  res: Response,
+  action: CacheAuditAction,
+  target: string,
+  evicted: number
+): void => {
+  const entry = cacheAuditLog.record({
+    actor: req.client?.id ?? 'unknown',
+    action,
+    namespace: namespaceOf(req),
+    target,
+    evicted,
+  });
+
+  sendData(res, entry, { message: `${evicted} cache ${evicted === 1 ? 'entry' : 'entries'} evicted` });
+};
+
+router.use(requireScope('admin'));
+
+/**
+ * @route GET /admin/rate-limits
+ * @description List the active rate limit policies and limiter statistics
+ * @returns {Object} Policies in match order and rate limiter status
+ * @author Bilal S.
+ */
+router.get('/rate-limits', validate({}), asyncHandler(async (_req: Request, res: Response) => {
+  sendData(res, {
+    policies: rateLimitPolicies.listPolicies(),
+    limiter: rateLimiter.getStats(),
+  });
+}));
+
+/**
+ * @route GET /admin/api-keys
+ * @description List issued API keys (hashes are never returned)
+ * @returns {Object} API key records
+ * @author Bilal S.
+ */
+router.get('/api-keys', validate({}), asyncHandler(async (_req: Request, res: Response) => {
+  sendData(res, apiKeyService.list());
+}));
+
+/**
+ * @route POST /admin/api-keys
+ * @description Issue a new API key. The plaintext key is only returned in this response.
+ * @param {string} name - Label for the key owner
+ * @param {ClientTier} tier - Rate limit tier (default: free)
+ * @param {ApiKeyScope[]} scopes - Granted scopes (default: ['read'])
+ * @returns {Object} The plaintext key and its record
+ * @author Bilal S.
+ */
+router.post('/api-keys', validate({
+  body: {
+    fields: {
+      name: { type: 'string', required: true, trim: true, minLength: 1, maxLength: 100 },
+      tier: { type: 'string', enum: ISSUABLE_TIERS },
+      scopes: { type: 'array', items: { type: 'string', enum: API_KEY_SCOPES }, minItems: 1 },
+    },
+  },
+}), asyncHandler(async (req: Request, res: Response) => {
+  const { name, tier = 'free', scopes = ['read'] } = req.body;
+
+  const { key, record } = await apiKeyService.issue({ name, tier, scopes });
+
+  sendData(res, { ...toPublicRecord(record), key }, {
+    status: 201,
+    message: 'API key issued. Store it now; it cannot be retrieved again.',
+  });
+}));
+
+/**
+ * @route DELETE /admin/api-keys/:id
+ * @description Revoke an API key
+ * @param {string} id - API key ID
+ * @returns {Object} The revoked key record
+ * @author Bilal S.
+ */
+router.delete('/api-keys/:id', validate({
+  params: { fields: { id: { type: 'string', required: true, minLength: 1, maxLength: 64 } } },
+}), asyncHandler(async (req: Request, res: Response) => {
+  const id = req.params['id'] ?? '';
+  const record = await apiKeyService.revoke(id);
+
+  if (!record) {
+    sendProblem(res, 404, 'API key not found', `API key ${id} does not exist.`);
+    return;
+  }
+
+  sendData(res, toPublicRecord(record), { message: 'API key revoked' });
+}));
+
+/**
+ * @route POST /admin/cache/snapshot
+ * @description Write the local cache tier to the snapshot file
+ * @returns {Object} Snapshot file, format version and number of entries written
+ * @author Bilal S.
+ */
+router.post('/cache/snapshot', validate({}), asyncHandler(async (_req: Request, res: Response) => {
+  sendData(res, await cacheSnapshots.save(), { message: 'Cache snapshot saved' });
+}));
+
+/**
+ * @route POST /admin/cache/restore
+ * @description Load the snapshot file into the local cache tier. Entries past the hard TTL or
+ * older than the cached copy are discarded.
+ * @returns {Object} Number of entries restored and discarded
+ * @author Bilal S.
+ */
+router.post('/cache/restore', validate({}), asyncHandler(async (_req: Request, res: Response) => {
+  sendData(res, await cacheSnapshots.restore(), { message: 'Cache snapshot restored' });
+}));
+
+/**
+ * @route GET /admin/cache/audit
+ * @description List recent cache invalidations, newest first
+ * @param {number} limit - Maximum number of records (default: all kept in memory)
+ * @returns {Object} Audit records
+ * @author Bilal S.
+ */
+router.get('/cache/audit', validate({
+  query: { fields: { limit: { type: 'integer', min: 1, max: 1000 } } },
+}), asyncHandler(async (req: Request, res: Response) => {
+  const limit = req.query['limit'] === undefined ? undefined : Number(req.query['limit']);
+
+  sendData(res, cacheAuditLog.list(limit));
+}));
+
+/**
+ * @route DELETE /admin/cache/keys/:key
+ * @description Evict a single cache key
+ * @param {string} key - Cache key, e.g. `user:1`
+ * @param {CacheNamespace} namespace - Namespace of the key (default: users)
+ * @returns {Object} Audit record with the number of entries evicted
+ * @author Bilal S.
+ */
+router.delete('/cache/keys/:key', validate({
+  params: { fields: { key: { type: 'string', required: true, minLength: 1, maxLength: 256 } } },
+  query: { fields: namespaceQuery },
+}), asyncHandler(async (req: Request, res: Response) => {
+  const key = req.params['key'] ?? '';
+  const removed = await cacheNamespaces[namespaceOf(req)].delete(key);
+
+  sendInvalidation(req, res, 'delete-key', key, removed ? 1 : 0);
+}));
+
+/**
+ * @route DELETE /admin/cache/keys
+ * @description Evict every key matching a glob pattern (`*` any run, `?` one character)
+ * @param {string} pattern - Key pattern, e.g. `user:1*`
+ * @param {CacheNamespace} namespace - Namespace to search (default: users)
+ * @returns {Object} Audit record with the number of entries evicted
+ * @author Bilal S.
+ */
+router.delete('/cache/keys', validate({
+  query: {
+    fields: {
+      ...namespaceQuery,
+      pattern: {
+        type: 'string',
+        required: true,
+        minLength: 1,
+        maxLength: 256,
+        pattern: CACHE_PATTERN,
+        patternMessage: 'must not contain [, ] or \\',
+      },
+    },
+  },
+}), asyncHandler(async (req: Request, res: Response) => {
+  const pattern = String(req.query['pattern']);
+  const evicted = await cacheNamespaces[namespaceOf(req)].deleteMatching(pattern);
+
+  sendInvalidation(req, res, 'delete-pattern', pattern, evicted);
+}));
+
+/**
+ * @route DELETE /admin/cache/tags/:tag
+ * @description Evict every entry stored with a tag, e.g. `email-domain:example.com`
+ * @param {string} tag - Tag given when the entries were cached
+ * @param {CacheNamespace} namespace - Namespace to search (default: users)
+ * @returns {Object} Audit record with the number of entries evicted
+ * @author Bilal S.
+ */
+router.delete('/cache/tags/:tag', validate({
+  params: { fields: { tag: { type: 'string', required: true, minLength: 1, maxLength: 256 } } },
+  query: { fields: namespaceQuery },
+}), asyncHandler(async (req: Request, res: Response) => {
+  const tag = req.params['tag'] ?? '';
+  const evicted = await cacheNamespaces[namespaceOf(req)].deleteTagged(tag);
+
+  sendInvalidation(req, res, 'delete-tag', tag, evicted);
+}));
+
+export default router;
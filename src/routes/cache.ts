@@ -7,38 +7,165 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { cacheService } from '../services/cacheService';
+import {
+  CACHE_NAMESPACES,
+  cacheNamespaces,
+  getCacheStatus,
+  getLocalTier,
+  LRUCache,
+} from '../services/cacheService';
+import { cacheAuditLog } from '../services/cacheAuditLog';
 import { queueService } from '../services/queueService';
+import { userService } from '../services/userService';
+import { cacheWarmer } from '../services/cacheWarmer';
 import { asyncHandler } from '../middleware/errorHandler';
+import { requireScope } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { sendData, sendProblem } from '../utils/apiResponse';
+import { CacheNamespace } from '../types';
 
 const router: Router = Router();
 
+// Introspection reads the users namespace unless `?namespace=` says otherwise
+const namespaceQuery = { namespace: { type: 'string', enum: CACHE_NAMESPACES } } as const;
+
+/**
+ * @function localTierOf
+ * @description Resolves the in-process cache of the requested namespace (default: users),
+ * answering 409 when the backend keeps entries only in Redis
+ * @author Bilal S.
+ */
+const localTierOf = (req: Request, res: Response): LRUCache<unknown> | null => {
+  const namespace = (req.query['namespace'] as CacheNamespace | undefined) ?? 'users';
+  const local = getLocalTier(cacheNamespaces[namespace]);
+
+  if (!local) {
+    sendProblem(
+      res,
+      409,
+      'No local cache tier',
+      'The cache backend keeps no in-process entries to inspect.'
+    );
+  }
+  return local;
+};
+
 /**
  * @route GET /cache/status
- * @description Get cache and queue statistics
+ * @description Get cache, warmup and queue statistics
  * @returns {Object} Cache and queue status information
  * @author Bilal S.
  */
 // GET /cache-status - Get cache statistics
-router.get('/status', asyncHandler(async (_req: Request, res: Response) => {
-  const cacheStats = cacheService.getStats();
-  const queueStatus = queueService.getQueueStatus();
+router.get('/status', validate({}), asyncHandler(async (_req: Request, res: Response) => {
+  const cacheStatus = await getCacheStatus();
+  const queueStatus = await queueService.getQueueStatus();
   
-  res.json({
-    cache: cacheStats,
+  sendData(res, {
+    cache: cacheStatus,
+    revalidation: userService.getStats(),
+    warmup: cacheWarmer.getStatus(),
     queue: queueStatus,
-    timestamp: new Date().toISOString(),
   });
 }));
 
-// DELETE /cache - Clear entire cache
-router.delete('/', asyncHandler(async (_req: Request, res: Response) => {
-  cacheService.clear();
-  
-  res.json({
-    message: 'Cache cleared successfully',
-    timestamp: new Date().toISOString(),
+/**
+ * @route GET /cache/keys
+ * @description List in-process cache entries by key without touching LRU order or stats
+ * (admin API key required)
+ * @param {string} prefix - Only keys starting with this prefix
+ * @param {number} limit - Page size (default: 50)
+ * @param {string} cursor - `meta.paging.next` of the previous page
+ * @param {CacheNamespace} namespace - Namespace to list (default: users)
+ * @returns {Object} Entry descriptions with remaining TTLs and LRU rank
+ * @author Bilal S.
+ */
+router.get('/keys', requireScope('admin'), validate({
+  query: {
+    fields: {
+      ...namespaceQuery,
+      prefix: { type: 'string', maxLength: 256 },
+      limit: { type: 'integer', min: 1, max: 500 },
+      cursor: { type: 'string', maxLength: 512 },
+    },
+  },
+}), asyncHandler(async (req: Request, res: Response) => {
+  const local = localTierOf(req, res);
+  if (!local) return;
+
+  const { prefix = '', limit = '50', cursor } = req.query as Record<string, string | undefined>;
+  const after = cursor ? Buffer.from(cursor, 'base64url').toString('utf8') : null;
+  const page = local.listEntries(prefix, after, Number(limit));
+
+  sendData(res, page.entries, {
+    meta: {
+      paging: {
+        limit: Number(limit),
+        next: page.next === null ? null : Buffer.from(page.next).toString('base64url'),
+      },
+      usage: local.getUsage(),
+    },
+  });
+}));
+
+/**
+ * @route GET /cache/keys/:key
+ * @description Show one in-process cache entry with its timestamps, remaining TTLs and LRU
+ * rank, without touching LRU order or stats (admin API key required)
+ * @param {string} key - Cache key, e.g. `user:1`
+ * @param {CacheNamespace} namespace - Namespace of the key (default: users)
+ * @returns {Object} The entry description and cached data
+ * @author Bilal S.
+ */
+router.get('/keys/:key', requireScope('admin'), validate({
+  params: { fields: { key: { type: 'string', required: true, minLength: 1, maxLength: 256 } } },
+  query: { fields: namespaceQuery },
+}), asyncHandler(async (req: Request, res: Response) => {
+  const local = localTierOf(req, res);
+  if (!local) return;
+
+  const key = req.params['key'] ?? '';
+  const entry = local.inspect(key);
+  if (!entry) {
+    sendProblem(res, 404, 'Cache entry not found', `No servable cache entry for ${key}.`);
+    return;
+  }
+
+  sendData(res, entry);
+}));
+
+/**
+ * @route GET /cache/hot-keys
+ * @description Hottest and coldest in-process cache entries by lookup count (admin API key
+ * required)
+ * @param {number} limit - Entries per list (default: 10)
+ * @param {CacheNamespace} namespace - Namespace to rank (default: users)
+ * @returns {Object} `hottest` and `coldest` entry descriptions
+ * @author Bilal S.
+ */
+router.get('/hot-keys', requireScope('admin'), validate({
+  query: { fields: { ...namespaceQuery, limit: { type: 'integer', min: 1, max: 100 } } },
+}), asyncHandler(async (req: Request, res: Response) => {
+  const local = localTierOf(req, res);
+  if (!local) return;
+
+  sendData(res, local.rankEntries(Number(req.query['limit'] ?? 10)));
+}));
+
+// DELETE /cache - Clear entire cache (admin API key required, recorded in the audit log)
+router.delete('/', requireScope('admin'), validate({}), asyncHandler(async (req: Request, res: Response) => {
+  const stores = Object.values(cacheNamespaces);
+  const sizes = await Promise.all(stores.map(async store => (await store.getStats()).size));
+  await Promise.all(stores.map(store => store.clear()));
+
+  cacheAuditLog.record({
+    actor: req.client?.id ?? 'unknown',
+    action: 'clear',
+    namespace: 'all',
+    target: null,
+    evicted: sizes.reduce((total, size) => total + size, 0),
   });
+  sendData(res, undefined, { message: 'Cache cleared successfully' });
 }));
 
 export default router;
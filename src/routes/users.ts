@@ -7,109 +7,251 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { cacheService } from '../services/cacheService';
-import { queueService } from '../services/queueService';
-import { UserDatabase } from '../database/userDatabase';
+import { decodeUserListCursor, userService } from '../services/userService';
 import { asyncHandler } from '../middleware/errorHandler';
-import { User } from '../types';
+import { chargeRateLimit, maxRateLimitCost } from '../middleware/rateLimitMiddleware';
+import { requireScope } from '../middleware/auth';
+import { ObjectSchema, sendValidationProblem, StringField, validate } from '../middleware/validate';
+import { sendData, sendProblem } from '../utils/apiResponse';
+import { User, UserListQuery, UserSortField } from '../types';
 
 const router: Router = Router();
 
+const BULK_MAX_IDS = parseInt(process.env['USERS_BULK_MAX_IDS'] || '100', 10);
+const LIST_DEFAULT_LIMIT = parseInt(process.env['USERS_LIST_DEFAULT_LIMIT'] || '20', 10);
+const LIST_MAX_LIMIT = parseInt(process.env['USERS_LIST_MAX_LIMIT'] || '100', 10);
+
+const nameField: StringField = { type: 'string', trim: true, minLength: 1, maxLength: 100 };
+const emailField: StringField = {
+  type: 'string',
+  trim: true,
+  lowercase: true,
+  maxLength: 254,
+  format: 'email',
+};
+
+const userIdParams: ObjectSchema = {
+  fields: { id: { type: 'integer', required: true, min: 1 } },
+};
+
+const userBody: ObjectSchema = {
+  fields: { name: { ...nameField, required: true }, email: { ...emailField, required: true } },
+};
+
+const userIdsField = {
+  type: 'array',
+  items: { type: 'integer', min: 1 },
+  minItems: 1,
+  maxItems: BULK_MAX_IDS,
+} as const;
+
 /**
- * @route GET /users/:id
- * @description Get user by ID with caching support
- * @param {string} id - User ID parameter
- * @returns {Object} User data with cache status
+ * @function sendUserNotFound
+ * @description Answers 404 for a user ID that does not exist
  * @author Bilal S.
  */
-// GET /users/:id - Get user by ID with caching
-router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
-  const userId = parseInt(req.params['id'] || '0', 10);
-  
-  if (isNaN(userId) || userId <= 0) {
-    res.status(400).json({
-      error: 'Invalid user ID. Please provide a valid positive integer.',
-    });
+const sendUserNotFound = (res: Response, userId: number): void => {
+  sendProblem(res, 404, 'User not found', `User with ID ${userId} does not exist.`);
+};
+
+/**
+ * @function sendUsers
+ * @description Resolves a bulk request: cache hits first, then one queued fetch for the misses.
+ * The rate limit is charged one request per miss (the request itself covers the first), before
+ * the lookup's hot-key and refresh bookkeeping runs. More misses than the policy could ever allow
+ * are answered with 413 rather than a 429 that retrying would not clear.
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {number[]} ids - Validated user IDs, possibly repeated
+ * @returns {Promise<void>}
+ * @author Bilal S.
+ */
+const sendUsers = async (req: Request, res: Response, ids: number[]): Promise<void> => {
+  const userIds = [...new Set(ids)];
+
+  const lookup = await userService.lookupCached(userIds);
+  const maxMisses = maxRateLimitCost(req);
+  if (lookup.misses.length > maxMisses) {
+    sendProblem(
+      res,
+      413,
+      'Too many uncached IDs',
+      `${lookup.misses.length} of the requested users are not cached, but the rate limit allows at most ` +
+        `${maxMisses} uncached IDs per request. Split the IDs into smaller requests.`
+    );
     return;
   }
+  if (!(await chargeRateLimit(req, res, lookup.misses.length - 1))) return;
 
-  const cacheKey = `user:${userId}`;
-  
-  // Try to get from cache first
-  let user = cacheService.get(cacheKey);
-  
-  if (user) {
-    res.json({
-      data: user,
-      cached: true,
-      timestamp: new Date().toISOString(),
-    });
+  const results = await userService.fetchMisses(lookup, req.abortSignal);
+  const data: Record<string, { found: boolean; cached: boolean | 'stale'; user: User | null }> = {};
+  const notFound: number[] = [];
+
+  userIds.forEach(userId => {
+    const { user, cached } = results.get(userId) ?? { user: null, cached: false };
+    data[userId] = { found: user !== null, cached, user };
+    if (!user) notFound.push(userId);
+  });
+
+  sendData(res, data, {
+    meta: {
+      requested: userIds.length,
+      cached: userIds.length - lookup.misses.length,
+      fetched: lookup.misses.length,
+      notFound,
+    },
+  });
+};
+
+/**
+ * @route GET /users
+ * @description List users with cursor pagination (`limit`, `cursor`), sorting (`sort`, `order`)
+ * and filters (`emailDomain`, `namePrefix`). With `?ids=1,2,3` it fetches those users instead;
+ * only cache misses reach the database.
+ * @returns {Object} A page of users with next/prev cursors, or per-ID results for `ids`
+ * @author Bilal S.
+ */
+router.get('/', validate({
+  query: {
+    fields: {
+      ids: userIdsField,
+      limit: { type: 'integer', min: 1, max: LIST_MAX_LIMIT },
+      sort: { type: 'string', enum: ['id', 'name', 'email'] },
+      order: { type: 'string', enum: ['asc', 'desc'] },
+      emailDomain: { type: 'string', trim: true, lowercase: true, minLength: 1, maxLength: 253 },
+      namePrefix: { type: 'string', trim: true, lowercase: true, minLength: 1, maxLength: 100 },
+      cursor: { type: 'string', maxLength: 512 },
+    },
+  },
+}), asyncHandler(async (req: Request, res: Response) => {
+  const { ids, limit, sort = 'id', order = 'asc', emailDomain, namePrefix, cursor } =
+    req.query as Record<string, string | undefined>;
+
+  if (ids !== undefined) {
+    await sendUsers(req, res, ids.split(',').map(Number));
     return;
   }
 
-  // If not in cache, use queue service to fetch
-  user = await queueService.addUserFetchJob(userId);
+  const query: UserListQuery = {
+    limit: limit ? Number(limit) : LIST_DEFAULT_LIMIT,
+    sort: sort as UserSortField,
+    order: order as UserListQuery['order'],
+  };
+  if (emailDomain) query.emailDomain = emailDomain;
+  if (namePrefix) query.namePrefix = namePrefix;
+
+  if (cursor) {
+    const decoded = decodeUserListCursor(cursor, query);
+    if (!decoded) {
+      sendValidationProblem(res, [
+        {
+          location: 'query',
+          field: 'cursor',
+          message: 'is malformed or was issued for a different sort order',
+        },
+      ]);
+      return;
+    }
+    query.cursor = decoded;
+  }
+
+  const { page, cached } = await userService.listUsers(query);
+
+  sendData(res, page.data, {
+    meta: { paging: { limit: query.limit, next: page.next, prev: page.prev }, cached },
+  });
+}));
+
+/**
+ * @route POST /users/batch
+ * @description Same as `GET /users?ids=`, for ID lists too long for a query string
+ * @param {number[]} ids - User IDs in the request body
+ * @returns {Object} Per-ID results with cache status
+ * @author Bilal S.
+ */
+router.post('/batch', validate({
+  body: { fields: { ids: { ...userIdsField, required: true } } },
+}), asyncHandler(async (req: Request, res: Response) => {
+  await sendUsers(req, res, req.body.ids);
+}));
+
+/**
+ * @route GET /users/:id
+ * @description Get user by ID with caching support; stale entries are served with `cached: "stale"`
+ * @param {string} id - User ID parameter
+ * @returns {Object} User data with cache status
+ * @author Bilal S.
+ */
+// GET /users/:id - Get user by ID with caching
+router.get('/:id', validate({ params: userIdParams }), asyncHandler(async (req: Request, res: Response) => {
+  const userId = Number(req.params['id']);
+  const { user, cached } = await userService.getUser(userId, req.abortSignal);
   
   if (!user) {
-    res.status(404).json({
-      error: 'User not found',
-      message: `User with ID ${userId} does not exist.`,
-    });
+    sendUserNotFound(res, userId);
     return;
   }
 
-  // Cache the result
-  cacheService.set(cacheKey, user);
-  
-  res.json({
-    data: user,
-    cached: false,
-    timestamp: new Date().toISOString(),
-  });
+  sendData(res, user, { meta: { cached } });
 }));
 
 // POST /users - Create new user
-router.post('/', asyncHandler(async (req: Request, res: Response) => {
-  const { name, email } = req.body;
+router.post('/', validate({ body: userBody }), asyncHandler(async (req: Request, res: Response) => {
+  // Caches the new user and drops the cached listing pages
+  const newUser: User = await userService.createUser(req.body);
   
-  if (!name || !email) {
-    res.status(400).json({
-      error: 'Missing required fields',
-      message: 'Both name and email are required.',
-    });
-    return;
-  }
+  sendData(res, newUser, { status: 201, message: 'User created successfully' });
+}));
+
+/**
+ * @function updateUser
+ * @description Shared handler for PUT (all fields required) and PATCH (any subset)
+ * @returns {Function} Express route handler
+ * @author Bilal S.
+ */
+const updateUser = asyncHandler(async (req: Request, res: Response) => {
+  const userId = Number(req.params['id']);
+  const user = await userService.updateUser(userId, req.body);
 
-  if (typeof name !== 'string' || typeof email !== 'string') {
-    res.status(400).json({
-      error: 'Invalid field types',
-      message: 'Name and email must be strings.',
-    });
+  if (!user) {
+    sendUserNotFound(res, userId);
     return;
   }
 
-  // Basic email validation
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  if (!emailRegex.test(email)) {
-    res.status(400).json({
-      error: 'Invalid email format',
-      message: 'Please provide a valid email address.',
-    });
+  sendData(res, user, { message: 'User updated successfully' });
+});
+
+/**
+ * @route PUT /users/:id
+ * @description Replace a user's name and email; the cached copy is updated in the same step
+ * @author Bilal S.
+ */
+router.put('/:id', requireScope('write'), validate({ params: userIdParams, body: userBody }), updateUser);
+
+/**
+ * @route PATCH /users/:id
+ * @description Update some of a user's fields; the cached copy is updated in the same step
+ * @author Bilal S.
+ */
+router.patch('/:id', requireScope('write'), validate({
+  params: userIdParams,
+  body: { fields: { name: nameField, email: emailField }, minFields: 1 },
+}), updateUser);
+
+/**
+ * @route DELETE /users/:id
+ * @description Delete a user and evict it from the cache
+ * @author Bilal S.
+ */
+router.delete('/:id', requireScope('write'), validate({ params: userIdParams }), asyncHandler(async (req: Request, res: Response) => {
+  const userId = Number(req.params['id']);
+
+  if (!(await userService.deleteUser(userId))) {
+    sendUserNotFound(res, userId);
     return;
   }
 
-  const userDb = UserDatabase.getInstance();
-  const newUser: User = await userDb.createUser({ name, email });
-  
-  // Cache the new user
-  const cacheKey = `user:${newUser.id}`;
-  cacheService.set(cacheKey, newUser);
-  
-  res.status(201).json({
-    data: newUser,
-    message: 'User created successfully',
-    timestamp: new Date().toISOString(),
-  });
+  res.status(204).end();
 }));
 
 export default router;
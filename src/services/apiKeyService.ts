@@ -0,0 +1,175 @@
+/**
+ * @fileoverview API key management service
+ * @description Issues, verifies and revokes API keys, storing only their hashes
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import fs from 'fs';
+import { ApiKeyRecord, ApiKeyScope, ClientTier } from '../types';
+
+/**
+ * @interface IssueApiKeyInput
+ * @description Parameters for issuing a new API key
+ */
+export interface IssueApiKeyInput {
+  name: string;
+  tier: ClientTier;
+  scopes: ApiKeyScope[];
+}
+
+/**
+ * @function hashApiKey
+ * @description Hashes a plaintext API key for storage and lookup
+ * @param {string} key - Plaintext API key
+ * @returns {string} Hex encoded SHA-256 digest
+ * @author Bilal S.
+ */
+export const hashApiKey = (key: string): string => createHash('sha256').update(key).digest('hex');
+
+/**
+ * @function toPublicRecord
+ * @description Strips the key hash from a record before it is returned to a client
+ * @param {ApiKeyRecord} record - Stored API key record
+ * @returns {Omit<ApiKeyRecord, 'hash'>} Record without the hash
+ * @author Bilal S.
+ */
+export const toPublicRecord = ({ hash: _hash, ...record }: ApiKeyRecord): Omit<ApiKeyRecord, 'hash'> =>
+  record;
+
+/**
+ * @class ApiKeyService
+ * @description Keeps API key records keyed by hash. Plaintext keys are only returned once, when
+ * issued. Records are optionally persisted to a JSON file so keys survive restarts; externally
+ * provisioned keys are kept apart and never written there, so rotating them takes effect on restart.
+ * @author Bilal S.
+ */
+export class ApiKeyService {
+  private keys = new Map<string, ApiKeyRecord>();
+  private registered = new Map<string, ApiKeyRecord>();
+  private readonly filePath: string | null;
+
+  /**
+   * @constructor
+   * @description Loads persisted key records, if a file is configured
+   * @param {string | null} filePath - JSON file holding hashed key records (default: none)
+   * @author Bilal S.
+   */
+  constructor(filePath: string | null = null) {
+    this.filePath = filePath;
+
+    if (filePath && fs.existsSync(filePath)) {
+      const records = JSON.parse(fs.readFileSync(filePath, 'utf8')) as ApiKeyRecord[];
+      records.forEach(record => this.keys.set(record.hash, record));
+    }
+  }
+
+  /**
+   * @method issue
+   * @description Creates a new API key
+   * @param {IssueApiKeyInput} input - Name, tier and scopes of the key
+   * @returns {Promise<{ key: string; record: ApiKeyRecord }>} Plaintext key and its stored record
+   * @author Bilal S.
+   */
+  async issue(input: IssueApiKeyInput): Promise<{ key: string; record: ApiKeyRecord }> {
+    const id = randomBytes(6).toString('hex');
+    const key = `uda_${id}_${randomBytes(24).toString('base64url')}`;
+
+    const record: ApiKeyRecord = {
+      id,
+      ...input,
+      hash: hashApiKey(key),
+      createdAt: new Date().toISOString(),
+    };
+
+    this.keys.set(record.hash, record);
+    await this.persist();
+    return { key, record };
+  }
+
+  /**
+   * @method register
+   * @description Registers an externally provisioned key (e.g. ADMIN_API_KEY). It lives only in
+   * memory, so it must be registered again on every start and is gone once the source drops it.
+   * @param {string} key - Plaintext API key
+   * @param {IssueApiKeyInput} input - Name, tier and scopes of the key
+   * @returns {ApiKeyRecord} The stored record
+   * @author Bilal S.
+   */
+  register(key: string, input: IssueApiKeyInput): ApiKeyRecord {
+    const hash = hashApiKey(key);
+    const record: ApiKeyRecord = {
+      id: hash.slice(0, 12),
+      ...input,
+      hash,
+      createdAt: new Date().toISOString(),
+    };
+
+    this.registered.set(hash, record);
+    return record;
+  }
+
+  /**
+   * @method verify
+   * @description Resolves a presented key to its record
+   * @param {string} key - Plaintext API key from the request
+   * @returns {ApiKeyRecord | null} The active record, or null if unknown or revoked
+   * @author Bilal S.
+   */
+  verify(key: string): ApiKeyRecord | null {
+    const hash = hashApiKey(key);
+    const record = this.registered.get(hash) ?? this.keys.get(hash);
+    if (!record || record.revokedAt) {
+      return null;
+    }
+
+    record.lastUsedAt = new Date().toISOString();
+    return record;
+  }
+
+  /**
+   * @method revoke
+   * @description Revokes a key by ID. Revoking a registered key lasts until the next restart.
+   * @param {string} id - API key ID
+   * @returns {Promise<ApiKeyRecord | null>} The revoked record, or null if no such key exists
+   * @author Bilal S.
+   */
+  async revoke(id: string): Promise<ApiKeyRecord | null> {
+    const record = this.records().find(candidate => candidate.id === id);
+    if (!record) {
+      return null;
+    }
+
+    record.revokedAt ??= new Date().toISOString();
+    await this.persist();
+    return record;
+  }
+
+  list(): Omit<ApiKeyRecord, 'hash'>[] {
+    return this.records().map(toPublicRecord);
+  }
+
+  private records(): ApiKeyRecord[] {
+    return [...this.registered.values(), ...this.keys.values()];
+  }
+
+  // Only issued keys; registered keys come from configuration
+  private async persist(): Promise<void> {
+    if (!this.filePath) return;
+
+    await fs.promises.writeFile(this.filePath, JSON.stringify([...this.keys.values()], null, 2));
+  }
+}
+
+export const apiKeyService = new ApiKeyService(process.env['API_KEYS_FILE'] || null);
+
+// Bootstrap administrator key so the admin routes are reachable on a fresh install
+if (process.env['ADMIN_API_KEY']) {
+  apiKeyService.register(process.env['ADMIN_API_KEY'], {
+    name: 'bootstrap-admin',
+    tier: 'internal',
+    scopes: ['read', 'write', 'admin'],
+  });
+}
@@ -0,0 +1,305 @@
+/**
+ * @fileoverview BullMQ-backed user fetch queue
+ * @description Durable job queue with worker concurrency, retries and a dead-letter queue
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { Job, Queue, QueueEvents, UnrecoverableError, Worker } from 'bullmq';
+import type Redis from 'ioredis';
+import { JobPriority, QueueStatus, User, UserFetchOptions, UserFetchQueue } from '../types';
+import { UserBatchLoader } from './userBatchLoader';
+import { QueueShutdownError } from './queueErrors';
+import { formatTraceparent, parseTraceparent, SpanAttributes, tracer } from './tracing';
+import { currentRequestId, logger, runWithRequestId } from '../utils/logger';
+
+/**
+ * @interface BullMqQueueOptions
+ * @description Worker and retry configuration for the BullMQ queue
+ */
+export interface BullMqQueueOptions {
+  queueName?: string;
+  concurrency?: number;
+  attempts?: number;
+  backoffMs?: number;
+  jobTimeoutMs?: number;
+  loader?: UserBatchLoader;
+}
+
+/**
+ * @interface UserFetchJobData
+ * @description Payload stored with each fetch job
+ */
+interface UserFetchJobData {
+  userId: number;
+  deadline?: number;
+  requestId?: string; // Request that enqueued the job, for log correlation
+  traceparent?: string; // Span that enqueued the job, continued by the worker
+}
+
+// BullMQ runs lower priority numbers first
+const JOB_PRIORITIES: Record<JobPriority, number> = { interactive: 1, background: 10 };
+
+/**
+ * @interface DeadLetterJobData
+ * @description Payload recorded for jobs that exhausted their retries
+ */
+interface DeadLetterJobData extends UserFetchJobData {
+  originalJobId: string | undefined;
+  failedReason: string;
+  attemptsMade: number;
+  failedAt: string;
+}
+
+/**
+ * @class BullMqQueueService
+ * @description Runs user fetches through BullMQ. Jobs survive restarts, are processed by a
+ * worker pool with configurable concurrency, retried with exponential backoff, aborted after
+ * a timeout and moved to a dead-letter queue once retries are exhausted. Jobs whose deadline
+ * has passed when a worker picks them up fail without retrying. HTTP callers still get a
+ * promise per user, shared between concurrent requests for the same ID.
+ * @author Bilal S.
+ */
+export class BullMqQueueService implements UserFetchQueue {
+  private readonly queue: Queue<UserFetchJobData, User | null>;
+  private readonly deadLetterQueue: Queue<DeadLetterJobData>;
+  private readonly queueEvents: QueueEvents;
+  private readonly worker: Worker<UserFetchJobData, User | null>;
+  private readonly connections: Redis[];
+  private readonly attempts: number;
+  private readonly backoffMs: number;
+  private readonly jobTimeoutMs: number;
+  private readonly loader: UserBatchLoader;
+  private pendingRequests = new Map<number, Promise<User | null>>();
+  private closed = false;
+  private stats = {
+    processed: 0,
+    failed: 0,
+    pending: 0,
+  };
+
+  /**
+   * @constructor
+   * @description Creates the queue, its worker, event listener and dead-letter queue
+   * @param {Redis} connection - ioredis client created with maxRetriesPerRequest: null
+   * @param {BullMqQueueOptions} options - Queue name, concurrency, retry and timeout settings
+   * @author Bilal S.
+   */
+  constructor(
+    connection: Redis,
+    {
+      queueName = 'user-fetch',
+      concurrency = 5,
+      attempts = 3,
+      backoffMs = 100,
+      jobTimeoutMs = 5000,
+      loader = new UserBatchLoader(),
+    }: BullMqQueueOptions = {}
+  ) {
+    this.loader = loader;
+    this.attempts = attempts;
+    this.backoffMs = backoffMs;
+    this.jobTimeoutMs = jobTimeoutMs;
+
+    // Blocking commands need their own connections
+    const workerConnection = connection.duplicate();
+    const eventsConnection = connection.duplicate();
+    this.connections = [connection, workerConnection, eventsConnection];
+
+    this.queue = new Queue(queueName, { connection });
+    this.deadLetterQueue = new Queue(`${queueName}-dead-letter`, { connection });
+    this.queueEvents = new QueueEvents(queueName, { connection: eventsConnection });
+    this.worker = new Worker(queueName, job => this.runJob(job), {
+      connection: workerConnection,
+      concurrency,
+    });
+
+    this.worker.on('failed', (job, error) => {
+      if (job && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+        void this.moveToDeadLetter(job, error);
+      }
+    });
+    this.worker.on('error', error => {
+      logger.error('User fetch worker error:', error);
+    });
+  }
+
+  /**
+   * @method addUserFetchJob
+   * @description Adds a user fetch job to the queue with deduplication
+   * @param {number} userId - The ID of the user to fetch
+   * @param {UserFetchOptions} options - Priority lane and deadline (abort signals are not
+   * propagated to the shared queue)
+   * @returns {Promise<User | null>} Promise resolving to user data or null
+   * @author Bilal S.
+   */
+  async addUserFetchJob(userId: number, options: UserFetchOptions = {}): Promise<User | null> {
+    // Check if there's already a pending request for this user
+    if (this.pendingRequests.has(userId)) {
+      return this.pendingRequests.get(userId)!;
+    }
+    if (this.closed) {
+      throw new QueueShutdownError();
+    }
+
+    const promise = this.enqueueAndWait(userId, options).finally(() => {
+      // The entry may already belong to a newer fetch if the user was invalidated meanwhile
+      if (this.pendingRequests.get(userId) === promise) {
+        this.pendingRequests.delete(userId);
+      }
+    });
+
+    this.pendingRequests.set(userId, promise);
+    return promise;
+  }
+
+  /**
+   * @method invalidateUser
+   * @description Detaches the in-flight fetch for a user that has just been written, so new
+   * calls enqueue a fresh job instead of joining it
+   * @param {number} userId - The ID of the written user
+   * @returns {void}
+   * @author Bilal S.
+   */
+  invalidateUser(userId: number): void {
+    this.pendingRequests.delete(userId);
+  }
+
+  async getQueueStatus(): Promise<QueueStatus> {
+    // Jobs added with a priority wait in `prioritized`, not `waiting`
+    const [counts, deadLettered, oldest] = await Promise.all([
+      this.queue.getJobCounts('waiting', 'prioritized', 'waiting-children', 'active', 'delayed'),
+      this.deadLetterQueue.count(),
+      this.queue.getJobs(['waiting', 'prioritized'], 0, 0, true),
+    ]);
+    const oldestTimestamp = Math.min(...oldest.map(job => job.timestamp));
+
+    return {
+      backend: 'bullmq',
+      waiting: (counts['waiting'] ?? 0) + (counts['prioritized'] ?? 0) + (counts['waiting-children'] ?? 0),
+      active: counts['active'] ?? 0,
+      delayed: counts['delayed'] ?? 0,
+      oldestJobAgeMs: oldestTimestamp === Infinity ? null : Date.now() - oldestTimestamp,
+      deadLettered,
+      batching: this.loader.getStats(),
+      pendingRequests: this.pendingRequests.size,
+      stats: { ...this.stats },
+    };
+  }
+
+  /**
+   * @method close
+   * @description Waits up to `drainTimeoutMs` for this instance's callers to get their results,
+   * then closes the worker (letting its running jobs finish) and the Redis connections. Jobs
+   * still queued stay in Redis for the other instances.
+   * @param {number} drainTimeoutMs - Longest wait for pending fetches (default: 0)
+   * @returns {Promise<void>}
+   * @author Bilal S.
+   */
+  async close(drainTimeoutMs = 0): Promise<void> {
+    this.closed = true;
+
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      Promise.allSettled(this.pendingRequests.values()),
+      new Promise(resolve => {
+        timer = setTimeout(resolve, drainTimeoutMs);
+      }),
+    ]);
+    clearTimeout(timer);
+
+    await this.worker.close();
+    await Promise.all([this.queueEvents.close(), this.queue.close(), this.deadLetterQueue.close()]);
+    await Promise.all(this.connections.map(connection => connection.quit()));
+    this.pendingRequests.clear();
+  }
+
+  private async enqueueAndWait(
+    userId: number,
+    { priority = 'interactive', deadline }: UserFetchOptions
+  ): Promise<User | null> {
+    this.stats.pending++;
+
+    try {
+      const data: UserFetchJobData = { userId };
+      if (deadline !== undefined) data.deadline = deadline;
+      const requestId = currentRequestId();
+      if (requestId) data.requestId = requestId;
+      const span = tracer.activeSpan();
+      if (span) data.traceparent = formatTraceparent(span.context);
+
+      const job = await this.queue.add(
+        'fetch-user',
+        data,
+        {
+          jobId: `user-${userId}-${Date.now()}`,
+          priority: JOB_PRIORITIES[priority],
+          attempts: this.attempts,
+          backoff: { type: 'exponential', delay: this.backoffMs },
+          removeOnComplete: true,
+          removeOnFail: true,
+        }
+      );
+
+      // Worst case: every attempt times out and waits for its backoff
+      const maxWaitMs =
+        this.attempts * this.jobTimeoutMs + this.backoffMs * (2 ** this.attempts - 1);
+      const user = await job.waitUntilFinished(this.queueEvents, maxWaitMs);
+
+      this.stats.processed++;
+      return user ?? null;
+    } catch (error) {
+      this.stats.failed++;
+      throw error instanceof Error ? error : new Error('Unknown error');
+    } finally {
+      this.stats.pending--;
+    }
+  }
+
+  // Runs a job under the request ID and trace of the caller that enqueued it
+  private runJob(job: Job<UserFetchJobData, User | null>): Promise<User | null> {
+    const attributes: SpanAttributes = { 'user.id': job.data.userId, 'queue.attempt': job.attemptsMade + 1 };
+    if (job.id) attributes['queue.job_id'] = job.id;
+    const parent = parseTraceparent(job.data.traceparent);
+
+    return runWithRequestId(job.data.requestId, () =>
+      tracer.trace('queue.execute', { kind: 'consumer', parent, attributes }, () => this.processJob(job))
+    );
+  }
+
+  private async processJob(job: Job<UserFetchJobData, User | null>): Promise<User | null> {
+    if (job.data.deadline !== undefined && Date.now() > job.data.deadline) {
+      throw new UnrecoverableError(`Queued job dropped: deadline exceeded for user ${job.data.userId}`);
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`User fetch job ${job.id} timed out after ${this.jobTimeoutMs}ms`)),
+        this.jobTimeoutMs
+      );
+    });
+
+    try {
+      // Jobs running concurrently on this worker share batched database calls
+      return await Promise.race([this.loader.load(job.data.userId), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async moveToDeadLetter(job: Job<UserFetchJobData, User | null>, error: Error): Promise<void> {
+    try {
+      await this.deadLetterQueue.add('dead-letter', {
+        userId: job.data.userId,
+        originalJobId: job.id,
+        failedReason: error.message,
+        attemptsMade: job.attemptsMade,
+        failedAt: new Date().toISOString(),
+      });
+    } catch (deadLetterError) {
+      logger.error(`Failed to dead-letter job ${job.id}:`, deadLetterError);
+    }
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Cache invalidation audit log
+ * @description Records who invalidated what through the admin cache endpoints, keeping the
+ * latest records in memory and optionally appending every record to a JSON Lines file
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { CacheAuditEntry } from '../types';
+import { currentRequestId, logger } from '../utils/logger';
+
+/**
+ * @class CacheAuditLog
+ * @description Bounded in-memory audit trail of cache invalidations. File writes happen in the
+ * background and a failing write is logged, never surfaced to the admin request.
+ * @author Bilal S.
+ */
+export class CacheAuditLog {
+  private readonly entries: CacheAuditEntry[] = [];
+  private readonly maxEntries: number;
+  private readonly filePath: string | null;
+  private nextId = 1;
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * @constructor
+   * @param {number} maxEntries - Records kept in memory (default: 1000)
+   * @param {string | null} filePath - JSON Lines file to append to, or null to keep records in
+   * memory only
+   * @author Bilal S.
+   */
+  constructor(maxEntries = 1000, filePath: string | null = null) {
+    this.maxEntries = maxEntries;
+    this.filePath = filePath;
+  }
+
+  /**
+   * @method record
+   * @description Adds an audit record stamped with an ID and the current time
+   * @param {Omit<CacheAuditEntry, 'id' | 'at'>} entry - Actor, action, target and result
+   * @returns {CacheAuditEntry} The stored record
+   * @author Bilal S.
+   */
+  record(entry: Omit<CacheAuditEntry, 'id' | 'at'>): CacheAuditEntry {
+    const stored: CacheAuditEntry = { id: this.nextId++, at: new Date().toISOString(), ...entry };
+    const requestId = currentRequestId();
+    if (requestId) stored.requestId = requestId;
+
+    this.entries.push(stored);
+    if (this.entries.length > this.maxEntries) this.entries.shift();
+
+    logger.info('Cache invalidated', { audit: stored });
+    if (this.filePath) this.append(stored, this.filePath);
+    return stored;
+  }
+
+  /**
+   * @method list
+   * @description Returns the most recent records, newest first
+   * @param {number} limit - Maximum number of records (default: all kept)
+   * @returns {CacheAuditEntry[]} Audit records
+   * @author Bilal S.
+   */
+  list(limit = this.maxEntries): CacheAuditEntry[] {
+    return this.entries.slice(-limit).reverse();
+  }
+
+  /**
+   * @method flush
+   * @description Waits for pending file writes
+   * @returns {Promise<void>}
+   * @author Bilal S.
+   */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  // Writes are chained so lines land in the file in record order
+  private append(entry: CacheAuditEntry, filePath: string): void {
+    this.writes = this.writes
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.appendFile(filePath, `${JSON.stringify(entry)}\n`);
+      })
+      .catch(error => {
+        logger.error(`Failed to write cache audit record ${entry.id}:`, error);
+      });
+  }
+}
+
+export const cacheAuditLog = new CacheAuditLog(
+  parseInt(process.env['CACHE_AUDIT_LOG_SIZE'] || '1000', 10),
+  process.env['CACHE_AUDIT_LOG_FILE'] || null
+);
@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Cache freshness helpers
+ * @description Shared TTL resolution and classification for the cache store implementations
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { CacheFreshness, CacheSetOptions } from '../types';
+
+/**
+ * @function getFreshness
+ * @description Classifies an entry age against the fresh and soft TTLs. Entries past the
+ * hard TTL are discarded by the stores before this is consulted.
+ * @param {number} age - Entry age in milliseconds
+ * @param {number} ttl - Fresh TTL in milliseconds
+ * @param {number} staleTtl - Soft TTL in milliseconds
+ * @returns {CacheFreshness} Freshness state of the entry
+ * @author Bilal S.
+ */
+export const getFreshness = (age: number, ttl: number, staleTtl: number): CacheFreshness => {
+  if (age <= ttl) return 'fresh';
+  if (age <= staleTtl) return 'stale';
+  return 'expired';
+};
+
+/**
+ * @interface EntryTtls
+ * @description Fresh, soft and hard TTL of one entry, in milliseconds
+ */
+export interface EntryTtls {
+  ttl: number;
+  staleTtl: number;
+  hardTtl: number;
+}
+
+/**
+ * @function resolveTtls
+ * @description Applies per-entry overrides to a store's TTLs. The soft and hard TTLs never drop
+ * below the TTL before them; overriding only the TTL collapses the stale window.
+ * @param {EntryTtls} defaults - The store's TTLs in milliseconds
+ * @param {CacheSetOptions} options - Overrides in seconds
+ * @returns {EntryTtls} TTLs for the entry
+ * @author Bilal S.
+ */
+export const resolveTtls = (defaults: EntryTtls, options: CacheSetOptions = {}): EntryTtls => {
+  const { ttlSeconds, staleTtlSeconds, hardTtlSeconds } = options;
+  const overridden = ttlSeconds !== undefined;
+
+  const ttl = overridden ? ttlSeconds * 1000 : defaults.ttl;
+  const staleTtl = staleTtlSeconds !== undefined
+    ? Math.max(staleTtlSeconds * 1000, ttl)
+    : overridden ? ttl : Math.max(defaults.staleTtl, ttl);
+  const hardTtl = hardTtlSeconds !== undefined
+    ? Math.max(hardTtlSeconds * 1000, staleTtl)
+    : overridden ? staleTtl : Math.max(defaults.hardTtl, staleTtl);
+
+  return { ttl, staleTtl, hardTtl };
+};
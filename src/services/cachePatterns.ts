@@ -0,0 +1,35 @@
+/**
+ * @fileoverview Cache key patterns
+ * @description Glob matching for pattern invalidation, kept to the subset Redis SCAN MATCH
+ * interprets the same way
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+/**
+ * @constant CACHE_PATTERN
+ * @description Accepted key patterns: `*` matches any run of characters and `?` one character.
+ * Brackets and backslashes are rejected because Redis would treat them as glob syntax.
+ */
+export const CACHE_PATTERN = /^[^[\]\\]+$/;
+
+/**
+ * @function globToRegExp
+ * @description Converts a key pattern into an anchored regular expression
+ * @param {string} pattern - Key pattern such as `user:1*`
+ * @returns {RegExp} Matcher for whole keys
+ * @author Bilal S.
+ */
+export const globToRegExp = (pattern: string): RegExp => {
+  const source = pattern
+    .split('')
+    .map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|/]/g, '\\$&');
+    })
+    .join('');
+
+  return new RegExp(`^${source}$`, 's');
+};
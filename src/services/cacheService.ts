@@ -1,47 +1,187 @@
 /**
  * @fileoverview LRU Cache implementation with TTL and statistics tracking
- * @description Provides an in-memory LRU cache with automatic expiration and performance monitoring
+ * @description Provides an in-memory LRU cache with namespaces, per-entry TTLs, an optional
+ * byte budget and performance monitoring
  * @author Bilal S.
  * @version 1.0.0
  * @since 2025-07-01
  */
 
-import { User } from '../types';
+import {
+  CacheBackend,
+  CacheEntry,
+  CacheEntryInfo,
+  CacheFreshness,
+  CacheLookup,
+  CacheNamespace,
+  CacheSetOptions,
+  CacheSnapshotEntry,
+  CacheStats,
+  CacheStatus,
+  CacheStore,
+  User,
+  UserPage,
+} from '../types';
+import { EntryTtls, getFreshness, resolveTtls } from './cacheFreshness';
+import { globToRegExp } from './cachePatterns';
+import { Gauge, metrics } from './metrics';
+import { RedisCacheStore } from './redisCacheStore';
+import { createRedisClient } from './redisClient';
+import { TieredCache } from './tieredCache';
+import { RedisInvalidationBus } from './invalidationBus';
+
+// Rough per-entry cost of the Map slot and metadata, on top of key and data
+const ENTRY_OVERHEAD_BYTES = 64;
+
+const cacheMetrics = {
+  hits: metrics.counter('cache_hits_total', 'In-process cache lookups answered fresh', ['namespace']),
+  misses: metrics.counter(
+    'cache_misses_total',
+    'In-process cache lookups without a fresh entry (missing, stale or expired)',
+    ['namespace']
+  ),
+  evictions: metrics.counter(
+    'cache_evictions_total',
+    'In-process cache entries evicted to stay within the entry or byte limit',
+    ['namespace']
+  ),
+  expirations: metrics.counter(
+    'cache_expirations_total',
+    'In-process cache entries dropped after their hard TTL',
+    ['namespace']
+  ),
+};
+
+/**
+ * @interface StoredItem
+ * @description Cache entry with the bookkeeping needed for per-entry TTLs and the byte budget
+ */
+interface StoredItem extends CacheEntry<unknown>, EntryTtls {
+  namespace: string;
+  key: string;
+  bytes: number;
+  accessCount: number;
+  options?: CacheSetOptions;
+}
 
 /**
- * @interface CacheItem
- * @description Represents a cached item with metadata
+ * @interface CacheEntryPage
+ * @description One page of `LRUCache.listEntries`, ordered by key
  */
-interface CacheItem {
-  data: User;
-  timestamp: number;
-  accessTime: number;
+export interface CacheEntryPage {
+  entries: CacheEntryInfo[];
+  next: string | null; // Last key of the page when more entries follow
 }
 
 /**
- * @interface CacheStats
- * @description Statistics for cache performance monitoring
+ * @interface LRUCacheOptions
+ * @description Optional LRUCache settings
  */
-interface CacheStats {
-  hits: number;
-  misses: number;
-  size: number;
-  totalRequests: number;
-  averageResponseTime: number;
-  totalResponseTime: number;
+export interface LRUCacheOptions {
+  maxBytes?: number; // Estimated memory budget; 0 disables it
+  namespace?: string;
+  parent?: LRUCache<unknown>; // Share the parent's storage and limits
+}
+
+/**
+ * @class LRUStorage
+ * @description Entries of every namespace in one recency order, so all namespaces share the
+ * entry and byte limits
+ */
+class LRUStorage {
+  readonly items = new Map<string, StoredItem>();
+  readonly views = new Map<string, LRUCache<unknown>>();
+  readonly maxSize: number;
+  readonly maxBytes: number;
+  bytes = 0;
+  cleanupInterval: NodeJS.Timeout | null = null;
+  private usage = new Map<string, { entries: number; bytes: number; evictions: number }>();
+
+  constructor(maxSize: number, maxBytes: number) {
+    this.maxSize = maxSize;
+    this.maxBytes = maxBytes;
+  }
+
+  get(id: string): StoredItem | undefined {
+    return this.items.get(id);
+  }
+
+  // Inserts as most recently used, evicting from the least recently used end
+  put(id: string, item: StoredItem): boolean {
+    this.remove(id);
+    if (this.maxBytes > 0 && item.bytes > this.maxBytes) return false;
+
+    while (
+      this.items.size > 0 &&
+      (this.items.size >= this.maxSize || (this.maxBytes > 0 && this.bytes + item.bytes > this.maxBytes))
+    ) {
+      const [oldest, evicted] = this.items.entries().next().value as [string, StoredItem];
+      this.remove(oldest);
+      this.usageOf(evicted.namespace).evictions++;
+      cacheMetrics.evictions.inc({ namespace: evicted.namespace });
+    }
+
+    this.items.set(id, item);
+    this.bytes += item.bytes;
+    const usage = this.usageOf(item.namespace);
+    usage.entries++;
+    usage.bytes += item.bytes;
+    return true;
+  }
+
+  touch(id: string, item: StoredItem): void {
+    this.items.delete(id);
+    this.items.set(id, item);
+  }
+
+  remove(id: string): boolean {
+    const item = this.items.get(id);
+    if (!item) return false;
+
+    this.items.delete(id);
+    this.bytes -= item.bytes;
+    const usage = this.usageOf(item.namespace);
+    usage.entries--;
+    usage.bytes -= item.bytes;
+    return true;
+  }
+
+  clear(namespace: string): void {
+    this.removeWhere(namespace, () => true);
+  }
+
+  removeWhere(namespace: string, predicate: (item: StoredItem) => boolean): number {
+    let removed = 0;
+    for (const [id, item] of this.items) {
+      if (item.namespace === namespace && predicate(item) && this.remove(id)) removed++;
+    }
+    return removed;
+  }
+
+  usageOf(namespace: string) {
+    let usage = this.usage.get(namespace);
+    if (!usage) {
+      usage = { entries: 0, bytes: 0, evictions: 0 };
+      this.usage.set(namespace, usage);
+    }
+    return usage;
+  }
 }
 
 /**
  * @class LRUCache
- * @description Least Recently Used cache implementation with Time-To-Live (TTL) support
+ * @description Least Recently Used cache implementation with Time-To-Live (TTL) support.
+ * Entries outlive the TTL until the hard TTL so they can still be served stale. A cache can
+ * hand out namespaces: views with their own keys and stats that share its entry and byte limits.
+ * @template T - The type of data being cached
  * @author Bilal S.
  */
-export class LRUCache {
-  private cache = new Map<string, CacheItem>();
-  private readonly maxSize: number;
-  private readonly ttl: number; // Time to live in milliseconds
-  private cleanupInterval: NodeJS.Timeout | null = null;
+export class LRUCache<T = User> implements CacheStore<T> {
+  private readonly storage: LRUStorage;
+  private readonly namespaceName: string;
+  private readonly ttls: EntryTtls; // Defaults in milliseconds; `set` can override per entry
   private stats: CacheStats = {
+    backend: 'memory',
     hits: 0,
     misses: 0,
     size: 0,
@@ -55,113 +195,356 @@ export class LRUCache {
    * @description Initializes the LRU cache with specified configuration
    * @param {number} maxSize - Maximum number of items to store (default: 100)
    * @param {number} ttlSeconds - Time to live in seconds (default: 60)
+   * @param {number} staleTtlSeconds - Soft TTL in seconds (default: ttlSeconds)
+   * @param {number} hardTtlSeconds - Hard TTL in seconds (default: staleTtlSeconds)
+   * @param {LRUCacheOptions} options - Byte budget (default: none), namespace name and the
+   * cache whose storage to share
    * @author Bilal S.
    */
-  constructor(maxSize = 100, ttlSeconds = 60) {
-    this.maxSize = maxSize;
-    this.ttl = ttlSeconds * 1000; // Convert to milliseconds
+  constructor(
+    maxSize = 100,
+    ttlSeconds = 60,
+    staleTtlSeconds = ttlSeconds,
+    hardTtlSeconds = staleTtlSeconds,
+    options: LRUCacheOptions = {}
+  ) {
+    this.storage = options.parent?.storage ?? new LRUStorage(maxSize, options.maxBytes ?? 0);
+    this.namespaceName = options.namespace ?? 'default';
+    this.ttls = resolveTtls({ ttl: 0, staleTtl: 0, hardTtl: 0 }, {
+      ttlSeconds,
+      staleTtlSeconds,
+      hardTtlSeconds,
+    });
+    this.storage.views.set(this.namespaceName, this as LRUCache<unknown>);
     
-    // Start background cleanup task only in non-test environment
-    if (process.env['NODE_ENV'] !== 'test') {
+    // Start background cleanup task only in non-test environment (once per storage)
+    if (process.env['NODE_ENV'] !== 'test' && !options.parent) {
       this.startCleanupTask();
     }
   }
 
+  /**
+   * @method namespace
+   * @description Returns the view for a namespace, creating it on first use. Views share this
+   * cache's entry and byte limits but have their own keys, TTL defaults and stats.
+   * @template U - The type of data cached in the namespace
+   * @param {string} name - Namespace name
+   * @param {CacheSetOptions} ttlOverrides - TTL defaults of the namespace (default: this cache's)
+   * @returns {LRUCache<U>} The namespace view
+   * @author Bilal S.
+   */
+  namespace<U>(name: string, ttlOverrides: CacheSetOptions = {}): LRUCache<U> {
+    const existing = this.storage.views.get(name);
+    if (existing) return existing as LRUCache<U>;
+
+    const { ttl, staleTtl, hardTtl } = resolveTtls(this.ttls, ttlOverrides);
+    return new LRUCache<U>(this.storage.maxSize, ttl / 1000, staleTtl / 1000, hardTtl / 1000, {
+      namespace: name,
+      parent: this as LRUCache<unknown>,
+    });
+  }
+
   /**
    * @method get
-   * @description Retrieves an item from the cache with LRU update
+   * @description Retrieves a fresh item from the cache with LRU update
    * @param {string} key - The cache key to retrieve
-   * @returns {User | null} The cached user data or null if not found/expired
+   * @returns {Promise<T | null>} The cached data or null if not found/expired
    * @author Bilal S.
    */
-  get(key: string): User | null {
+  async get(key: string): Promise<T | null> {
+    const entry = await this.lookup(key);
+    return entry?.state === 'fresh' ? entry.data : null;
+  }
+
+  /**
+   * @method lookup
+   * @description Retrieves an item with its freshness state, including entries past the TTL
+   * that are still within the hard TTL. Only fresh entries count as hits.
+   * @param {string} key - The cache key to retrieve
+   * @returns {Promise<CacheLookup<T> | null>} The cached entry or null if not found/past hard TTL
+   * @author Bilal S.
+   */
+  async lookup(key: string): Promise<CacheLookup<T> | null> {
     const startTime = Date.now();
-    const item = this.cache.get(key);
+    const id = this.idOf(key);
+    const item = this.storage.get(id);
     
     if (!item) {
       this.stats.misses++;
+      cacheMetrics.misses.inc({ namespace: this.namespaceName });
       this.updateStats(startTime);
       return null;
     }
 
-    // Check if item has expired
-    if (Date.now() - item.timestamp > this.ttl) {
-      this.cache.delete(key);
-      this.stats.size--;
+    // Drop items that can no longer be served at all
+    const age = Date.now() - item.timestamp;
+    if (age > item.hardTtl) {
+      this.storage.remove(id);
       this.stats.misses++;
+      cacheMetrics.misses.inc({ namespace: this.namespaceName });
+      cacheMetrics.expirations.inc({ namespace: this.namespaceName });
       this.updateStats(startTime);
       return null;
     }
 
     // Update access time for LRU
     item.accessTime = Date.now();
+    item.accessCount++;
     
     // Move to end (most recently used)
-    this.cache.delete(key);
-    this.cache.set(key, item);
+    this.storage.touch(id, item);
     
-    this.stats.hits++;
+    const state = getFreshness(age, item.ttl, item.staleTtl);
+    if (state === 'fresh') {
+      this.stats.hits++;
+      cacheMetrics.hits.inc({ namespace: this.namespaceName });
+    } else {
+      this.stats.misses++;
+      cacheMetrics.misses.inc({ namespace: this.namespaceName });
+    }
     this.updateStats(startTime);
-    return item.data;
+
+    return toLookup<T>(item, state);
+  }
+
+  /**
+   * @method peek
+   * @description Retrieves an item like `lookup` without moving it in the LRU order or
+   * counting a hit or miss
+   * @param {string} key - The cache key to retrieve
+   * @returns {Promise<CacheLookup<T> | null>} The cached entry or null if not found/past hard TTL
+   * @author Bilal S.
+   */
+  async peek(key: string): Promise<CacheLookup<T> | null> {
+    const item = this.storage.get(this.idOf(key));
+    if (!item) return null;
+
+    const age = Date.now() - item.timestamp;
+    if (age > item.hardTtl) return null;
+
+    return toLookup<T>(item, getFreshness(age, item.ttl, item.staleTtl));
   }
 
   /**
    * @method set
-   * @description Stores an item in the cache with LRU management
+   * @description Stores an item in the cache with LRU management. Items larger than the whole
+   * byte budget are not stored.
    * @param {string} key - The cache key to store under
-   * @param {User} data - The user data to cache
-   * @returns {void}
+   * @param {T} data - The data to cache
+   * @param {number} timestamp - Time the data was loaded (default: now), kept when promoting
+   * @param {CacheSetOptions} options - TTL overrides and tags for this entry
+   * @returns {Promise<void>}
    * @author Bilal S.
    */
-  set(key: string, data: User): void {
-    const now = Date.now();
-    
-    // If key exists, just update it
-    if (this.cache.has(key)) {
-      this.cache.delete(key);
-    } else if (this.cache.size >= this.maxSize) {
-      // Remove least recently used item
-      const firstKey = this.cache.keys().next().value;
-      if (firstKey) {
-        this.cache.delete(firstKey);
-        this.stats.size--;
-      }
+  async set(key: string, data: T, timestamp = Date.now(), options?: CacheSetOptions): Promise<void> {
+    const item: StoredItem = {
+      namespace: this.namespaceName,
+      key,
+      data,
+      timestamp,
+      accessTime: Date.now(),
+      accessCount: 0,
+      bytes: estimateBytes(key, data),
+      ...resolveTtls(this.ttls, options),
+    };
+    if (options) item.options = options;
+
+    this.storage.put(this.idOf(key), item);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.storage.remove(this.idOf(key));
+  }
+
+  /**
+   * @method deleteMatching
+   * @description Removes every key of this namespace matching a glob pattern
+   * @param {string} pattern - Key pattern where `*` matches any run and `?` one character
+   * @returns {Promise<number>} Number of entries removed
+   * @author Bilal S.
+   */
+  async deleteMatching(pattern: string): Promise<number> {
+    const matcher = globToRegExp(pattern);
+    return this.storage.removeWhere(this.namespaceName, item => matcher.test(item.key));
+  }
+
+  /**
+   * @method deleteTagged
+   * @description Removes every entry of this namespace that was stored with a tag
+   * @param {string} tag - Tag passed to `set` through `options.tags`
+   * @returns {Promise<number>} Number of entries removed
+   * @author Bilal S.
+   */
+  async deleteTagged(tag: string): Promise<number> {
+    return this.storage.removeWhere(this.namespaceName, item => item.options?.tags?.includes(tag) ?? false);
+  }
+
+  async clear(): Promise<void> {
+    this.storage.clear(this.namespaceName);
+  }
+
+  async destroy(): Promise<void> {
+    this.storage.clear(this.namespaceName);
+    if (this.storage.cleanupInterval) {
+      clearInterval(this.storage.cleanupInterval);
+      this.storage.cleanupInterval = null;
     }
+  }
 
-    this.cache.set(key, {
-      data,
-      timestamp: now,
-      accessTime: now,
+  /**
+   * @method getStats
+   * @description Statistics of this namespace; `bytes` is its share of the estimated memory
+   * @returns {Promise<CacheStats>} Hit/miss counters, entries, bytes and evictions
+   * @author Bilal S.
+   */
+  async getStats(): Promise<CacheStats> {
+    const { entries, bytes, evictions } = this.storage.usageOf(this.namespaceName);
+    return { ...this.stats, size: entries, bytes, evictions };
+  }
+
+  /**
+   * @method getUsage
+   * @description Entry count and estimated bytes across all namespaces, with their limits
+   * @returns {Object} Shared usage and limits (`maxBytes` is null without a byte budget)
+   * @author Bilal S.
+   */
+  getUsage() {
+    return {
+      entries: this.storage.items.size,
+      maxEntries: this.storage.maxSize,
+      bytes: this.storage.bytes,
+      maxBytes: this.storage.maxBytes > 0 ? this.storage.maxBytes : null,
+    };
+  }
+
+  /**
+   * @method exportEntries
+   * @description Lists the entries of this namespace that can still be served, least recently
+   * used first
+   * @returns {CacheSnapshotEntry<T>[]} Keys, data and original load times in LRU order
+   * @author Bilal S.
+   */
+  exportEntries(): CacheSnapshotEntry<T>[] {
+    const now = Date.now();
+    return [...this.storage.items.values()]
+      .filter(item => item.namespace === this.namespaceName && now - item.timestamp <= item.hardTtl)
+      .map(item => {
+        const entry: CacheSnapshotEntry<T> = { key: item.key, data: item.data as T, timestamp: item.timestamp };
+        if (item.options) entry.options = item.options;
+        return entry;
+      });
+  }
+
+  /**
+   * @method importEntries
+   * @description Loads exported entries in order, so the LRU order is rebuilt. Entries past the
+   * hard TTL are discarded, and entries older than the copy already cached are skipped.
+   * @param {CacheSnapshotEntry<T>[]} entries - Entries in LRU order (least recent first)
+   * @returns {number} Number of entries loaded
+   * @author Bilal S.
+   */
+  importEntries(entries: CacheSnapshotEntry<T>[]): number {
+    const now = Date.now();
+    let imported = 0;
+
+    // Only the most recently used entries would survive eviction anyway
+    entries.slice(-this.storage.maxSize).forEach(({ key, data, timestamp, options }) => {
+      if (now - timestamp > resolveTtls(this.ttls, options).hardTtl) return;
+
+      const current = this.storage.get(this.idOf(key));
+      if (current && current.timestamp >= timestamp) return;
+
+      void this.set(key, data, timestamp, options);
+      imported++;
     });
-    
-    if (!this.cache.has(key) || this.cache.size < this.maxSize) {
-      this.stats.size++;
-    }
+
+    return imported;
   }
 
-  delete(key: string): boolean {
-    const deleted = this.cache.delete(key);
-    if (deleted) {
-      this.stats.size--;
-    }
-    return deleted;
+  /**
+   * @method inspect
+   * @description Describes one entry of this namespace, including its data, without touching
+   * the LRU order or the stats
+   * @param {string} key - The cache key to describe
+   * @returns {(CacheEntryInfo & { data: T }) | null} The entry or null if not found/past hard TTL
+   * @author Bilal S.
+   */
+  inspect(key: string): (CacheEntryInfo & { data: T }) | null {
+    const found = this.describeEntries().find(({ info }) => info.key === key);
+    return found ? { ...found.info, data: found.item.data as T } : null;
   }
 
-  clear(): void {
-    this.cache.clear();
-    this.stats.size = 0;
+  /**
+   * @method listEntries
+   * @description Lists the entries of this namespace by key, a page at a time, without
+   * touching the LRU order or the stats
+   * @param {string} prefix - Only keys starting with this prefix
+   * @param {string | null} after - Key the previous page ended with
+   * @param {number} limit - Maximum number of entries
+   * @returns {CacheEntryPage} The page and the key to continue after
+   * @author Bilal S.
+   */
+  listEntries(prefix: string, after: string | null, limit: number): CacheEntryPage {
+    const matching = this.describeEntries()
+      .map(({ info }) => info)
+      .filter(info => info.key.startsWith(prefix) && (after === null || info.key > after))
+      .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    const entries = matching.slice(0, limit);
+
+    return { entries, next: matching.length > limit ? entries.at(-1)?.key ?? null : null };
   }
 
-  destroy(): void {
-    this.clear();
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval);
-      this.cleanupInterval = null;
+  /**
+   * @method rankEntries
+   * @description Hottest entries (most lookups, most recent first) and coldest entries (fewest
+   * lookups, least recent first) of this namespace
+   * @param {number} limit - Entries per list
+   * @returns {Object} `hottest` and `coldest` entry lists
+   * @author Bilal S.
+   */
+  rankEntries(limit: number): { hottest: CacheEntryInfo[]; coldest: CacheEntryInfo[] } {
+    const infos = this.describeEntries().map(({ info }) => info);
+
+    return {
+      hottest: [...infos].sort((a, b) => b.accessCount - a.accessCount || a.lruRank - b.lruRank).slice(0, limit),
+      coldest: [...infos].sort((a, b) => a.accessCount - b.accessCount || b.lruRank - a.lruRank).slice(0, limit),
+    };
+  }
+
+  // Servable entries of this namespace in LRU order, ranked across the shared storage
+  private describeEntries(): { item: StoredItem; info: CacheEntryInfo }[] {
+    const now = Date.now();
+    const total = this.storage.items.size;
+    const described: { item: StoredItem; info: CacheEntryInfo }[] = [];
+    let position = 0;
+
+    for (const item of this.storage.items.values()) {
+      position++;
+      const age = now - item.timestamp;
+      if (item.namespace !== this.namespaceName || age > item.hardTtl) continue;
+
+      described.push({
+        item,
+        info: {
+          key: item.key,
+          state: getFreshness(age, item.ttl, item.staleTtl),
+          timestamp: item.timestamp,
+          accessTime: item.accessTime,
+          accessCount: item.accessCount,
+          ttlRemainingMs: Math.max(0, item.ttl - age),
+          staleTtlRemainingMs: Math.max(0, item.staleTtl - age),
+          hardTtlRemainingMs: item.hardTtl - age,
+          lruRank: total - position + 1,
+          bytes: item.bytes,
+          tags: item.options?.tags ?? [],
+        },
+      });
     }
+    return described;
   }
 
-  getStats(): CacheStats {
-    return { ...this.stats };
+  private idOf(key: string): string {
+    return `${this.namespaceName}\u0000${key}`;
   }
 
   private updateStats(startTime: number): void {
@@ -173,26 +556,222 @@ export class LRUCache {
 
   private startCleanupTask(): void {
     // Run cleanup every 30 seconds
-    this.cleanupInterval = setInterval(() => {
+    this.storage.cleanupInterval = setInterval(() => {
       this.cleanupExpiredEntries();
     }, 30000);
   }
 
   private cleanupExpiredEntries(): void {
     const now = Date.now();
-    const expiredKeys: string[] = [];
+    const expired: [string, StoredItem][] = [];
 
-    for (const [key, item] of this.cache.entries()) {
-      if (now - item.timestamp > this.ttl) {
-        expiredKeys.push(key);
+    for (const [id, item] of this.storage.items.entries()) {
+      if (now - item.timestamp > item.hardTtl) {
+        expired.push([id, item]);
       }
     }
 
-    expiredKeys.forEach(key => {
-      this.cache.delete(key);
-      this.stats.size--;
+    expired.forEach(([id, item]) => {
+      this.storage.remove(id);
+      cacheMetrics.expirations.inc({ namespace: item.namespace });
     });
   }
 }
 
-export const cacheService = new LRUCache();
+/**
+ * @function toLookup
+ * @description Builds the lookup result for a stored item
+ * @author Bilal S.
+ */
+const toLookup = <T>(item: StoredItem, state: CacheFreshness): CacheLookup<T> => {
+  const result: CacheLookup<T> = { data: item.data as T, timestamp: item.timestamp, state };
+  if (item.options) result.options = item.options;
+  return result;
+};
+
+/**
+ * @function estimateBytes
+ * @description Approximates the memory held by an entry from its JSON size
+ * @author Bilal S.
+ */
+const estimateBytes = (key: string, data: unknown): number =>
+  ENTRY_OVERHEAD_BYTES + Buffer.byteLength(key) + Buffer.byteLength(JSON.stringify(data) ?? '');
+
+const CACHE_BACKEND = (process.env['CACHE_BACKEND'] || 'memory') as CacheBackend;
+
+// Redis keys per namespace; stores sharing a Redis server need distinct prefixes, which also
+// keeps their invalidation channels apart
+const REDIS_KEY_PREFIXES: Record<CacheNamespace, string> = {
+  users: process.env['CACHE_KEY_PREFIX'] || 'user-data-api:cache:',
+  lists: process.env['CACHE_LIST_KEY_PREFIX'] || 'user-data-api:lists:',
+  negative: process.env['CACHE_NEGATIVE_KEY_PREFIX'] || 'user-data-api:negative:',
+};
+
+// Not-found markers expire quickly and are never served stale
+const NEGATIVE_TTL_SECONDS = parseInt(process.env['CACHE_NEGATIVE_TTL_SECONDS'] || '30', 10);
+
+const localCaches = new Map<CacheBackend, LRUCache<unknown>>();
+const negativeCaches = new Map<CacheBackend, LRUCache<unknown>>();
+
+/**
+ * @function getLocalCache
+ * @description Returns the in-process cache whose namespaces back the stores of a backend, so
+ * all namespaces share one entry and byte budget
+ * @param {CacheBackend} backend - 'memory' or 'tiered' (its L1)
+ * @returns {LRUCache<unknown>} The shared in-process cache
+ * @author Bilal S.
+ */
+const getLocalCache = (backend: CacheBackend): LRUCache<unknown> => {
+  let cache = localCaches.get(backend);
+  if (!cache) {
+    const maxSize = parseInt(process.env['CACHE_MAX_SIZE'] || '100', 10);
+    const ttlSeconds = parseInt(process.env['CACHE_TTL_SECONDS'] || '60', 10);
+    cache = new LRUCache<unknown>(
+      backend === 'tiered' ? parseInt(process.env['CACHE_L1_MAX_SIZE'] || String(maxSize), 10) : maxSize,
+      backend === 'tiered' ? parseInt(process.env['CACHE_L1_TTL_SECONDS'] || String(ttlSeconds), 10) : ttlSeconds,
+      parseInt(process.env['CACHE_STALE_TTL_SECONDS'] || '120', 10),
+      parseInt(process.env['CACHE_HARD_TTL_SECONDS'] || '600', 10),
+      { maxBytes: parseInt(process.env['CACHE_MAX_BYTES'] || '0', 10) }
+    );
+    localCaches.set(backend, cache);
+  }
+  return cache;
+};
+
+/**
+ * @function getLocalNegativeCache
+ * @description Returns the in-process store for not-found markers. It has its own entry limit
+ * so that walking through unknown IDs cannot evict real users.
+ * @param {CacheBackend} backend - 'memory' or 'tiered' (its L1)
+ * @returns {LRUCache<unknown>} The negative cache
+ * @author Bilal S.
+ */
+const getLocalNegativeCache = (backend: CacheBackend): LRUCache<unknown> => {
+  let cache = negativeCaches.get(backend);
+  if (!cache) {
+    cache = new LRUCache<unknown>(
+      parseInt(process.env['CACHE_NEGATIVE_MAX_SIZE'] || '10000', 10),
+      NEGATIVE_TTL_SECONDS,
+      NEGATIVE_TTL_SECONDS,
+      NEGATIVE_TTL_SECONDS,
+      { namespace: 'negative' }
+    );
+    negativeCaches.set(backend, cache);
+  }
+  return cache;
+};
+
+/**
+ * @function createCacheStore
+ * @description Builds the store for one cache namespace on the backend selected through the
+ * CACHE_BACKEND environment variable
+ * @template T - The type of data being cached
+ * @param {CacheNamespace} namespace - Key space of the store (default: 'users')
+ * @param {CacheBackend} backend - Backend to instantiate (default: CACHE_BACKEND or 'memory')
+ * @returns {CacheStore<T>} The configured cache store
+ * @author Bilal S.
+ */
+export const createCacheStore = <T = User>(
+  namespace: CacheNamespace = 'users',
+  backend = CACHE_BACKEND
+): CacheStore<T> => {
+  const ttlSeconds = parseInt(process.env['CACHE_TTL_SECONDS'] || '60', 10);
+  const staleTtlSeconds = parseInt(process.env['CACHE_STALE_TTL_SECONDS'] || '120', 10);
+  const hardTtlSeconds = parseInt(process.env['CACHE_HARD_TTL_SECONDS'] || '600', 10);
+  const keyPrefix = REDIS_KEY_PREFIXES[namespace];
+  const redisOptions = namespace === 'negative'
+    ? { ttlSeconds: NEGATIVE_TTL_SECONDS, keyPrefix }
+    : { ttlSeconds, staleTtlSeconds, hardTtlSeconds, keyPrefix };
+  const local = () => namespace === 'negative'
+    ? getLocalNegativeCache(backend) as LRUCache<T>
+    : getLocalCache(backend).namespace<T>(namespace);
+
+  switch (backend) {
+    case 'memory':
+      return local();
+    case 'redis':
+      return new RedisCacheStore<T>(createRedisClient(), redisOptions);
+    case 'tiered': {
+      const client = createRedisClient();
+      return new TieredCache<T>(
+        local(),
+        new RedisCacheStore<T>(client, redisOptions),
+        new RedisInvalidationBus(client, `${keyPrefix}invalidate`)
+      );
+    }
+    default:
+      throw new Error(
+        `Unsupported CACHE_BACKEND "${backend}". Expected "memory", "redis" or "tiered".`
+      );
+  }
+};
+
+export const cacheService: CacheStore = createCacheStore('users');
+
+// Listing pages live in their own namespace so writes can drop all of them with one clear()
+export const userListCache: CacheStore<UserPage> = createCacheStore<UserPage>('lists');
+
+// Marks user IDs the database did not find
+export const negativeUserCache: CacheStore<true> = createCacheStore<true>('negative');
+
+// Stores by namespace, for the admin invalidation endpoints
+export const cacheNamespaces: Record<CacheNamespace, CacheStore<unknown>> = {
+  users: cacheService,
+  lists: userListCache,
+  negative: negativeUserCache,
+};
+
+export const CACHE_NAMESPACES = Object.keys(cacheNamespaces) as CacheNamespace[];
+
+/**
+ * @function collectLocalUsage
+ * @description Fills a per-namespace gauge from the in-process tier of each namespace
+ * @author Bilal S.
+ */
+const collectLocalUsage = (field: 'size' | 'bytes') => async (gauge: Gauge): Promise<void> => {
+  await Promise.all(CACHE_NAMESPACES.map(async namespace => {
+    const local = getLocalTier(cacheNamespaces[namespace]);
+    if (local) gauge.set({ namespace }, (await local.getStats())[field] ?? 0);
+  }));
+};
+
+metrics.gauge('cache_entries', 'Entries held by the in-process cache', ['namespace'], collectLocalUsage('size'));
+metrics.gauge(
+  'cache_bytes',
+  'Estimated memory held by the in-process cache',
+  ['namespace'],
+  collectLocalUsage('bytes')
+);
+
+/**
+ * @function getLocalTier
+ * @description Finds the in-process LRU behind a cache store
+ * @param {CacheStore} cache - Configured cache store
+ * @returns {LRUCache | null} The local tier, or null for the Redis-only backend
+ * @author Bilal S.
+ */
+export const getLocalTier = <T>(cache: CacheStore<T>): LRUCache<T> | null => {
+  if (cache instanceof LRUCache) return cache as LRUCache<T>;
+  if (cache instanceof TieredCache) return (cache as TieredCache<T>).getLocalTier();
+  return null;
+};
+
+/**
+ * @function getCacheStatus
+ * @description Collects statistics per namespace and the shared in-process usage
+ * @returns {Promise<CacheStatus>} Cache status for `GET /cache/status`
+ * @author Bilal S.
+ */
+export const getCacheStatus = async (): Promise<CacheStatus> => {
+  const [users, lists, negative] = await Promise.all([
+    cacheService.getStats(),
+    userListCache.getStats(),
+    negativeUserCache.getStats(),
+  ]);
+
+  return {
+    backend: CACHE_BACKEND,
+    namespaces: { users, lists, negative },
+    local: localCaches.get(CACHE_BACKEND)?.getUsage() ?? null,
+  };
+};
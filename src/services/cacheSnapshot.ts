@@ -0,0 +1,183 @@
+/**
+ * @fileoverview Local cache snapshots
+ * @description Saves the in-process user cache to a file and restores it, so a restart does
+ * not begin with a cold local tier
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ApiError } from '../middleware/errorHandler';
+import { CacheSnapshotEntry, User } from '../types';
+import { cacheService, getLocalTier, LRUCache } from './cacheService';
+
+export const CACHE_SNAPSHOT_VERSION = 1;
+
+/**
+ * @interface CacheSnapshotFile
+ * @description Current snapshot file format. Entries are listed least recently used first.
+ */
+interface CacheSnapshotFile {
+  version: typeof CACHE_SNAPSHOT_VERSION;
+  createdAt: string;
+  entries: CacheSnapshotEntry<User>[];
+}
+
+/**
+ * @interface CacheSnapshotResult
+ * @description Outcome of a save or restore
+ */
+export interface CacheSnapshotResult {
+  file: string;
+  version: number;
+  entries: number;
+  discarded: number;
+}
+
+/**
+ * @constant SNAPSHOT_READERS
+ * @description Entry parsers per snapshot version. A new format adds a reader and keeps the
+ * old ones, so files written by earlier releases still load after an upgrade.
+ */
+const SNAPSHOT_READERS: Record<number, (snapshot: Record<string, unknown>) => CacheSnapshotEntry<User>[]> = {
+  1: snapshot => {
+    if (!Array.isArray(snapshot['entries'])) throw new Error('entries must be an array');
+    return (snapshot['entries'] as CacheSnapshotEntry<User>[]).filter(
+      entry => typeof entry?.key === 'string' && Number.isFinite(entry.timestamp) && entry.data != null
+    );
+  },
+};
+
+/**
+ * @class CacheSnapshotError
+ * @description Raised when a snapshot cannot be taken or restored; carries the HTTP status
+ * for the admin endpoints
+ * @author Bilal S.
+ */
+export class CacheSnapshotError extends Error implements ApiError {
+  readonly statusCode: number;
+  readonly isOperational = true;
+
+  constructor(statusCode: number, message: string) {
+    super(message);
+    this.name = 'CacheSnapshotError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * @class CacheSnapshotService
+ * @description Writes the local cache tier to a versioned JSON file and loads it back
+ * @author Bilal S.
+ */
+export class CacheSnapshotService {
+  private readonly cache: LRUCache | null;
+  private readonly filePath: string;
+
+  /**
+   * @constructor
+   * @param {LRUCache | null} cache - Local cache tier, or null when the backend has none
+   * @param {string} filePath - Location of the snapshot file
+   * @author Bilal S.
+   */
+  constructor(cache: LRUCache | null, filePath: string) {
+    this.cache = cache;
+    this.filePath = filePath;
+  }
+
+  /**
+   * @method save
+   * @description Writes every servable entry with its load time, in LRU order. The file is
+   * written to a temporary path and renamed, so a crash never leaves a partial snapshot.
+   * @returns {Promise<CacheSnapshotResult>} Location and number of entries written
+   * @throws {CacheSnapshotError} When the cache backend has no local tier
+   * @author Bilal S.
+   */
+  async save(): Promise<CacheSnapshotResult> {
+    const cache = this.getCache();
+    const snapshot: CacheSnapshotFile = {
+      version: CACHE_SNAPSHOT_VERSION,
+      createdAt: new Date().toISOString(),
+      entries: cache.exportEntries(),
+    };
+    const tempPath = `${this.filePath}.tmp`;
+
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(tempPath, JSON.stringify(snapshot));
+    await fs.promises.rename(tempPath, this.filePath);
+
+    return {
+      file: this.filePath,
+      version: CACHE_SNAPSHOT_VERSION,
+      entries: snapshot.entries.length,
+      discarded: 0,
+    };
+  }
+
+  /**
+   * @method restore
+   * @description Loads the snapshot into the local tier. Entries past the hard TTL are
+   * discarded and entries older than what is already cached are skipped.
+   * @returns {Promise<CacheSnapshotResult>} Number of entries restored and discarded
+   * @throws {CacheSnapshotError} When there is no local tier, no snapshot file, or the file is
+   * unreadable or from an unknown version
+   * @author Bilal S.
+   */
+  async restore(): Promise<CacheSnapshotResult> {
+    const cache = this.getCache();
+
+    let contents: string;
+    try {
+      contents = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new CacheSnapshotError(404, `No cache snapshot at ${this.filePath}.`);
+      }
+      throw error;
+    }
+
+    let snapshot: Record<string, unknown>;
+    try {
+      snapshot = JSON.parse(contents);
+    } catch {
+      throw new CacheSnapshotError(422, `Cache snapshot ${this.filePath} is not valid JSON.`);
+    }
+
+    const version = Number(snapshot['version']);
+    const reader = SNAPSHOT_READERS[version];
+    if (!reader) {
+      throw new CacheSnapshotError(
+        422,
+        `Cache snapshot ${this.filePath} has unsupported version ${snapshot['version']} ` +
+        `(supported: ${Object.keys(SNAPSHOT_READERS).join(', ')}).`
+      );
+    }
+
+    let entries: CacheSnapshotEntry<User>[];
+    try {
+      entries = reader(snapshot);
+    } catch (error) {
+      throw new CacheSnapshotError(
+        422,
+        `Cache snapshot ${this.filePath} is malformed: ${(error as Error).message}.`
+      );
+    }
+
+    const restored = cache.importEntries(entries);
+    return { file: this.filePath, version, entries: restored, discarded: entries.length - restored };
+  }
+
+  private getCache(): LRUCache {
+    if (!this.cache) {
+      throw new CacheSnapshotError(409, 'The cache backend has no local tier to snapshot.');
+    }
+    return this.cache;
+  }
+}
+
+export const cacheSnapshots = new CacheSnapshotService(
+  getLocalTier(cacheService),
+  process.env['CACHE_SNAPSHOT_FILE'] || 'data/cache-snapshot.json'
+);
@@ -0,0 +1,289 @@
+/**
+ * @fileoverview Cache warmup and refresh-ahead
+ * @description Loads a configurable key set into the cache on startup and periodically
+ * re-fetches hot users shortly before their cache entries go stale
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { CacheStore, UserRepository, WarmupStatus, WarmupStrategy } from '../types';
+import { userRepository } from '../database/userRepository';
+import { cacheService } from './cacheService';
+import { HotKeyTracker, hotKeyTracker } from './hotKeyTracker';
+import { UserService, userService } from './userService';
+import { logger } from '../utils/logger';
+
+/**
+ * @interface CacheWarmerOptions
+ * @description Warmup and refresh-ahead settings
+ */
+export interface CacheWarmerOptions {
+  strategy: WarmupStrategy;
+  ids: number[];
+  topN: number;
+  timeoutMs: number;
+  chunkSize: number;
+  ttlMs: number;
+  refreshAheadMs: number;
+  refreshIntervalMs: number;
+  hotKeysHalfLifeMs: number;
+  hotKeysFile: string | null;
+}
+
+/**
+ * @class CacheWarmer
+ * @description Startup warmup plus a refresh-ahead timer. Readiness stays false while the
+ * warmup runs; it turns true when the warmup finishes, fails or hits its timeout (the load
+ * then carries on in the background).
+ * @author Bilal S.
+ */
+export class CacheWarmer {
+  private readonly cache: CacheStore;
+  private readonly users: UserService;
+  private readonly repository: UserRepository;
+  private readonly hotKeys: HotKeyTracker;
+  private readonly options: CacheWarmerOptions;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private refreshing = false;
+  private lastDecay = Date.now();
+  private startTime: number | null = null;
+  private status: WarmupStatus;
+
+  /**
+   * @constructor
+   * @description Creates an idle warmer
+   * @param {CacheStore} cache - Cache holding the users
+   * @param {UserService} users - Service used to load users into the cache
+   * @param {UserRepository} repository - Source for the `all` strategy
+   * @param {HotKeyTracker} hotKeys - Access counts deciding which users are hot
+   * @param {CacheWarmerOptions} options - Warmup and refresh-ahead settings
+   * @author Bilal S.
+   */
+  constructor(
+    cache: CacheStore,
+    users: UserService,
+    repository: UserRepository,
+    hotKeys: HotKeyTracker,
+    options: CacheWarmerOptions
+  ) {
+    this.cache = cache;
+    this.users = users;
+    this.repository = repository;
+    this.hotKeys = hotKeys;
+    this.options = options;
+    this.status = {
+      strategy: options.strategy,
+      state: 'idle',
+      startedAt: null,
+      durationMs: null,
+      requested: 0,
+      warmed: 0,
+      refreshAhead: { runs: 0, refreshed: 0, failures: 0 },
+    };
+  }
+
+  /**
+   * @method start
+   * @description Loads the persisted hot keys, starts the warmup and the refresh-ahead timer.
+   * Readiness turns false immediately.
+   * @returns {Promise<void>} Resolves once the warmup is done, failed or timed out
+   * @author Bilal S.
+   */
+  async start(): Promise<void> {
+    if (this.options.hotKeysFile) {
+      const loaded = this.hotKeys.load(this.options.hotKeysFile);
+      if (loaded > 0) logger.info('Loaded hot keys from the previous run', { hotKeys: loaded });
+    }
+
+    const warmup = this.warmup();
+
+    if (process.env['NODE_ENV'] !== 'test' && this.options.refreshIntervalMs > 0) {
+      this.refreshTimer = setInterval(() => {
+        void this.refreshAhead();
+      }, this.options.refreshIntervalMs);
+    }
+
+    await warmup;
+  }
+
+  /**
+   * @method warmup
+   * @description Runs the configured warmup strategy, giving up waiting after `timeoutMs`
+   * @returns {Promise<void>}
+   * @author Bilal S.
+   */
+  async warmup(): Promise<void> {
+    if (this.options.strategy === 'none') {
+      this.status.state = 'ready';
+      return;
+    }
+
+    this.startTime = Date.now();
+    this.status.state = 'warming';
+    this.status.startedAt = new Date(this.startTime).toISOString();
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<'timeout'>(resolve => {
+      timer = setTimeout(() => resolve('timeout'), this.options.timeoutMs);
+    });
+
+    const load = this.load().then(
+      () => 'done' as const,
+      error => {
+        logger.error('Cache warmup failed:', error);
+        return 'failed' as const;
+      }
+    );
+
+    const outcome = await Promise.race([load, timeout]);
+    clearTimeout(timer);
+
+    this.status.state = outcome === 'done' ? 'ready' : outcome === 'failed' ? 'failed' : 'timed-out';
+    this.status.durationMs = Date.now() - this.startTime;
+    logger.info(`Cache warmup ${this.status.state}`, {
+      strategy: this.status.strategy,
+      warmed: this.status.warmed,
+      requested: this.status.requested,
+      durationMs: this.status.durationMs,
+    });
+  }
+
+  /**
+   * @method refreshAhead
+   * @description Re-fetches hot users whose cache entry is missing or within `refreshAheadMs`
+   * of its TTL, so hot keys never turn stale
+   * @returns {Promise<number>} Number of users refreshed
+   * @author Bilal S.
+   */
+  async refreshAhead(): Promise<number> {
+    // Skip a tick while the previous run is still going
+    if (this.refreshing) return 0;
+    this.refreshing = true;
+
+    try {
+      const now = Date.now();
+      const hot = this.hotKeys.top(this.options.topN);
+      // Peeking keeps the check out of the LRU order and the hit/miss counters
+      const entries = await Promise.all(hot.map(userId => this.cache.peek(`user:${userId}`)));
+      const due = hot.filter((_userId, index) => {
+        const entry = entries[index];
+        return !entry || now - entry.timestamp >= this.options.ttlMs - this.options.refreshAheadMs;
+      });
+
+      let refreshed = 0;
+      for (let start = 0; start < due.length; start += this.options.chunkSize) {
+        const chunk = due.slice(start, start + this.options.chunkSize);
+        const cached = await this.users.prefetch(chunk);
+        refreshed += cached;
+        this.status.refreshAhead.failures += chunk.length - cached;
+      }
+
+      this.status.refreshAhead.runs++;
+      this.status.refreshAhead.refreshed += refreshed;
+
+      // Age the counts (and checkpoint them) once per half-life
+      if (now - this.lastDecay >= this.options.hotKeysHalfLifeMs) {
+        this.lastDecay = now;
+        this.hotKeys.decay();
+        if (this.options.hotKeysFile) {
+          await this.hotKeys.save(this.options.hotKeysFile);
+        }
+      }
+      return refreshed;
+    } catch (error) {
+      logger.error('Refresh-ahead failed:', error);
+      return 0;
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  /**
+   * @method stop
+   * @description Stops the refresh-ahead timer and persists the hot keys for the next run
+   * @returns {Promise<void>}
+   * @author Bilal S.
+   */
+  async stop(): Promise<void> {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    if (this.options.hotKeysFile) {
+      await this.hotKeys.save(this.options.hotKeysFile);
+    }
+  }
+
+  isReady(): boolean {
+    return this.status.state !== 'warming';
+  }
+
+  getStatus(): WarmupStatus {
+    const durationMs = this.status.state === 'warming' && this.startTime !== null
+      ? Date.now() - this.startTime
+      : this.status.durationMs;
+
+    return { ...this.status, durationMs, refreshAhead: { ...this.status.refreshAhead } };
+  }
+
+  private async load(): Promise<void> {
+    if (this.options.strategy === 'all') {
+      this.status.warmed = await this.users.prime(async () => {
+        const users = await this.repository.getAllUsers();
+        this.status.requested = users.length;
+        return users;
+      });
+      return;
+    }
+
+    const userIds = this.options.strategy === 'ids'
+      ? [...new Set(this.options.ids)]
+      : this.hotKeys.top(this.options.topN);
+    this.status.requested = userIds.length;
+
+    // Chunks keep the warmup from filling the queue ahead of live traffic
+    for (let start = 0; start < userIds.length; start += this.options.chunkSize) {
+      this.status.warmed += await this.users.prefetch(
+        userIds.slice(start, start + this.options.chunkSize)
+      );
+    }
+  }
+}
+
+/**
+ * @function createCacheWarmer
+ * @description Builds the cache warmer from the WARMUP_* environment variables
+ * @returns {CacheWarmer} The configured warmer
+ * @author Bilal S.
+ */
+export const createCacheWarmer = (): CacheWarmer => {
+  const strategy = (process.env['WARMUP_STRATEGY'] || 'hot') as WarmupStrategy;
+  if (!['ids', 'hot', 'all', 'none'].includes(strategy)) {
+    throw new Error(
+      `Unsupported WARMUP_STRATEGY "${strategy}". Expected "ids", "hot", "all" or "none".`
+    );
+  }
+
+  const ids = (process.env['WARMUP_IDS'] || '')
+    .split(',')
+    .map(id => parseInt(id, 10))
+    .filter(id => Number.isSafeInteger(id) && id > 0);
+
+  return new CacheWarmer(cacheService, userService, userRepository, hotKeyTracker, {
+    strategy,
+    ids,
+    topN: parseInt(process.env['WARMUP_TOP_N'] || '100', 10),
+    timeoutMs: parseInt(process.env['WARMUP_TIMEOUT_MS'] || '30000', 10),
+    chunkSize: parseInt(process.env['BATCH_MAX_SIZE'] || '50', 10),
+    ttlMs: parseInt(process.env['CACHE_TTL_SECONDS'] || '60', 10) * 1000,
+    refreshAheadMs: parseInt(process.env['REFRESH_AHEAD_MS'] || '10000', 10),
+    refreshIntervalMs: parseInt(process.env['REFRESH_AHEAD_INTERVAL_MS'] || '5000', 10),
+    hotKeysHalfLifeMs: parseInt(process.env['HOT_KEYS_HALF_LIFE_MS'] || '300000', 10),
+    hotKeysFile: process.env['HOT_KEYS_FILE'] === ''
+      ? null
+      : process.env['HOT_KEYS_FILE'] || 'data/hot-keys.json',
+  });
+};
+
+export const cacheWarmer = createCacheWarmer();
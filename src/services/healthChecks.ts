@@ -0,0 +1,201 @@
+/**
+ * @fileoverview Readiness health checks
+ * @description Registry of dependency checks behind `GET /health/ready`: the user store, the
+ * cache backend, queue backlog and age, event-loop lag and the startup warmup
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { IntervalHistogram, monitorEventLoopDelay } from 'perf_hooks';
+import { HealthCheckOutcome, HealthCheckResult, HealthReport } from '../types';
+import { userRepository } from '../database/userRepository';
+import { cacheService } from './cacheService';
+import { cacheWarmer } from './cacheWarmer';
+import { queueService } from './queueService';
+
+export type HealthCheck = () => HealthCheckOutcome | Promise<HealthCheckOutcome>;
+
+/**
+ * @class HealthCheckRegistry
+ * @description Runs the registered checks in parallel, each under a time limit, and combines
+ * them into a readiness report. Once shutdown begins the report fails regardless of the checks,
+ * so load balancers stop routing here before the server stops accepting connections.
+ * @author Bilal S.
+ */
+export class HealthCheckRegistry {
+  private readonly checks = new Map<string, HealthCheck>();
+  private readonly timeoutMs: number;
+  private shuttingDown = false;
+
+  /**
+   * @constructor
+   * @param {number} timeoutMs - Time after which a pending check fails (default: 1000)
+   * @author Bilal S.
+   */
+  constructor(timeoutMs = 1000) {
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * @method register
+   * @description Adds a check to the readiness report, replacing any check with the same name
+   * @param {string} name - Key of the check in the report
+   * @param {HealthCheck} check - Reports pass or fail; throwing counts as fail
+   * @returns {void}
+   * @author Bilal S.
+   */
+  register(name: string, check: HealthCheck): void {
+    this.checks.set(name, check);
+  }
+
+  unregister(name: string): boolean {
+    return this.checks.delete(name);
+  }
+
+  beginShutdown(): void {
+    this.shuttingDown = true;
+  }
+
+  isShuttingDown(): boolean {
+    return this.shuttingDown;
+  }
+
+  /**
+   * @method checkReadiness
+   * @description Runs every check and reports whether the instance should receive traffic
+   * @returns {Promise<HealthReport>} Overall status with each check's status and latency
+   * @author Bilal S.
+   */
+  async checkReadiness(): Promise<HealthReport> {
+    const results = await Promise.all(
+      [...this.checks].map(async ([name, check]) => [name, await this.run(check)] as const)
+    );
+    const checks = Object.fromEntries(results);
+    const failing = results.some(([, result]) => result.status === 'fail');
+
+    return {
+      status: this.shuttingDown || failing ? 'fail' : 'pass',
+      shuttingDown: this.shuttingDown,
+      checks,
+    };
+  }
+
+  private async run(check: HealthCheck): Promise<HealthCheckResult> {
+    const startTime = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => reject(new Error(`Timed out after ${this.timeoutMs}ms`)), this.timeoutMs);
+    });
+
+    try {
+      const outcome = await Promise.race([Promise.resolve().then(check), timeout]);
+      return { ...outcome, latencyMs: Date.now() - startTime };
+    } catch (error) {
+      return {
+        status: 'fail',
+        message: error instanceof Error ? error.message : String(error),
+        latencyMs: Date.now() - startTime,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * @interface HealthThresholds
+ * @description Limits past which the default checks fail
+ */
+export interface HealthThresholds {
+  queueMaxDepth: number;
+  queueMaxAgeMs: number;
+  eventLoopMaxLagMs: number;
+}
+
+/**
+ * @function createEventLoopLagCheck
+ * @description Fails when the 99th percentile event-loop delay since the previous check
+ * exceeds the limit, i.e. when callbacks (and so requests) wait that long to run
+ * @param {number} maxLagMs - Highest acceptable p99 delay
+ * @param {IntervalHistogram} histogram - Delay samples (default: a new 20ms-resolution monitor)
+ * @returns {HealthCheck} The check
+ * @author Bilal S.
+ */
+export const createEventLoopLagCheck = (
+  maxLagMs: number,
+  histogram: IntervalHistogram = monitorEventLoopDelay({ resolution: 20 })
+): HealthCheck => {
+  histogram.enable();
+
+  return () => {
+    const p99 = histogram.percentile(99) / 1e6;
+    const max = histogram.max / 1e6;
+    histogram.reset();
+
+    // No samples yet right after startup
+    if (!Number.isFinite(p99)) return { status: 'pass' };
+
+    const details = { p99Ms: Math.round(p99), maxMs: Math.round(max) };
+    return p99 > maxLagMs
+      ? { status: 'fail', message: `Event loop p99 delay ${details.p99Ms}ms exceeds ${maxLagMs}ms`, details }
+      : { status: 'pass', details };
+  };
+};
+
+/**
+ * @function createHealthChecks
+ * @description Builds the registry with the default dependency checks
+ * @param {HealthThresholds} thresholds - Queue and event-loop limits (default: HEALTH_* env)
+ * @returns {HealthCheckRegistry} The registry behind `GET /health/ready`
+ * @author Bilal S.
+ */
+export const createHealthChecks = (
+  thresholds: HealthThresholds = {
+    queueMaxDepth: parseInt(process.env['HEALTH_QUEUE_MAX_DEPTH'] || '500', 10),
+    queueMaxAgeMs: parseInt(process.env['HEALTH_QUEUE_MAX_AGE_MS'] || '10000', 10),
+    eventLoopMaxLagMs: parseInt(process.env['HEALTH_EVENT_LOOP_MAX_LAG_MS'] || '200', 10),
+  }
+): HealthCheckRegistry => {
+  const registry = new HealthCheckRegistry(parseInt(process.env['HEALTH_CHECK_TIMEOUT_MS'] || '1000', 10));
+
+  registry.register('userStore', async () => {
+    await userRepository.ping?.();
+    return { status: 'pass' };
+  });
+
+  registry.register('cache', async () => {
+    await cacheService.ping?.();
+    return { status: 'pass' };
+  });
+
+  registry.register('queue', async () => {
+    const { waiting, active, oldestJobAgeMs } = await queueService.getQueueStatus();
+    const details = { waiting, active, oldestJobAgeMs };
+
+    if (waiting > thresholds.queueMaxDepth) {
+      return { status: 'fail', message: `${waiting} jobs queued (limit ${thresholds.queueMaxDepth})`, details };
+    }
+    if (oldestJobAgeMs !== null && oldestJobAgeMs > thresholds.queueMaxAgeMs) {
+      return {
+        status: 'fail',
+        message: `Oldest job queued for ${oldestJobAgeMs}ms (limit ${thresholds.queueMaxAgeMs}ms)`,
+        details,
+      };
+    }
+    return { status: 'pass', details };
+  });
+
+  registry.register('eventLoop', createEventLoopLagCheck(thresholds.eventLoopMaxLagMs));
+
+  registry.register('warmup', () => {
+    const { state, warmed, requested } = cacheWarmer.getStatus();
+    return cacheWarmer.isReady()
+      ? { status: 'pass', details: { state } }
+      : { status: 'fail', message: `Cache warmup in progress: ${warmed}/${requested} users loaded.` };
+  });
+
+  return registry;
+};
+
+export const healthChecks = createHealthChecks();
@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Hot key tracking
+ * @description Counts user lookups so the most requested users can be kept warm and carried
+ * over to the next run
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+
+/**
+ * @interface HotKeySnapshot
+ * @description Contents of the persisted hot key file
+ */
+interface HotKeySnapshot {
+  savedAt: string;
+  keys: { id: number; count: number }[];
+}
+
+/**
+ * @class HotKeyTracker
+ * @description Access counter per user ID. Counts are halved on every `decay()` so keys that
+ * stop being requested cool down, and only the `maxKeys` busiest IDs are kept.
+ * @author Bilal S.
+ */
+export class HotKeyTracker {
+  private counts = new Map<number, number>();
+  private readonly maxKeys: number;
+
+  /**
+   * @constructor
+   * @description Creates an empty tracker
+   * @param {number} maxKeys - Number of IDs kept after each decay (default: 1000)
+   * @author Bilal S.
+   */
+  constructor(maxKeys = 1000) {
+    this.maxKeys = maxKeys;
+  }
+
+  /**
+   * @method record
+   * @description Counts one lookup of a user
+   * @param {number} userId - The ID that was requested
+   * @returns {void}
+   * @author Bilal S.
+   */
+  record(userId: number): void {
+    this.counts.set(userId, (this.counts.get(userId) ?? 0) + 1);
+
+    // Bound memory between decays when many distinct IDs are requested
+    if (this.counts.size > this.maxKeys * 2) {
+      this.prune();
+    }
+  }
+
+  /**
+   * @method top
+   * @description Lists the most requested IDs, busiest first
+   * @param {number} limit - Maximum number of IDs to return
+   * @returns {number[]} User IDs
+   * @author Bilal S.
+   */
+  top(limit: number): number[] {
+    return [...this.counts.entries()]
+      .sort(([idA, countA], [idB, countB]) => countB - countA || idA - idB)
+      .slice(0, limit)
+      .map(([id]) => id);
+  }
+
+  /**
+   * @method decay
+   * @description Halves every count, forgetting IDs that drop to zero
+   * @returns {void}
+   * @author Bilal S.
+   */
+  decay(): void {
+    this.counts.forEach((count, id) => {
+      const halved = Math.floor(count / 2);
+      if (halved > 0) {
+        this.counts.set(id, halved);
+      } else {
+        this.counts.delete(id);
+      }
+    });
+  }
+
+  /**
+   * @method load
+   * @description Merges counts persisted by a previous run. A missing or unreadable file
+   * leaves the tracker empty.
+   * @param {string} filePath - Location of the hot key file
+   * @returns {number} Number of IDs loaded
+   * @author Bilal S.
+   */
+  load(filePath: string): number {
+    if (!fs.existsSync(filePath)) return 0;
+
+    try {
+      const snapshot = JSON.parse(fs.readFileSync(filePath, 'utf8')) as HotKeySnapshot;
+      const keys = snapshot.keys.filter(
+        ({ id, count }) => Number.isSafeInteger(id) && Number.isFinite(count) && count > 0
+      );
+      keys.forEach(({ id, count }) => this.counts.set(id, (this.counts.get(id) ?? 0) + count));
+      this.prune();
+      return keys.length;
+    } catch (error) {
+      logger.warn(`Ignoring unreadable hot key file ${filePath}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * @method save
+   * @description Persists the busiest IDs for the next run (written to a temporary file and
+   * renamed, so a crash never leaves a half-written file)
+   * @param {string} filePath - Location of the hot key file
+   * @returns {Promise<void>}
+   * @author Bilal S.
+   */
+  async save(filePath: string): Promise<void> {
+    const snapshot: HotKeySnapshot = {
+      savedAt: new Date().toISOString(),
+      keys: this.top(this.maxKeys).map(id => ({ id, count: this.counts.get(id) ?? 0 })),
+    };
+    const tempPath = `${filePath}.tmp`;
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(tempPath, JSON.stringify(snapshot));
+    await fs.promises.rename(tempPath, filePath);
+  }
+
+  get size(): number {
+    return this.counts.size;
+  }
+
+  private prune(): void {
+    if (this.counts.size <= this.maxKeys) return;
+
+    const keep = new Set(this.top(this.maxKeys));
+    this.counts.forEach((_count, id) => {
+      if (!keep.has(id)) this.counts.delete(id);
+    });
+  }
+}
+
+export const hotKeyTracker = new HotKeyTracker(
+  parseInt(process.env['HOT_KEYS_MAX_TRACKED'] || '1000', 10)
+);
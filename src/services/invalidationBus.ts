@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Cross-instance cache invalidation channel
+ * @description Broadcasts cache deletions so every instance can evict its local copy
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { EventEmitter } from 'events';
+import type Redis from 'ioredis';
+import { logger } from '../utils/logger';
+
+/**
+ * @interface InvalidationMessage
+ * @description Payload broadcast when a cache entry, the entries matching a key pattern or
+ * carrying a tag, or the whole cache is invalidated
+ */
+export interface InvalidationMessage {
+  origin: string;
+  type: 'delete' | 'pattern' | 'tag' | 'clear';
+  key?: string;
+  pattern?: string;
+  tag?: string;
+}
+
+export type InvalidationHandler = (message: InvalidationMessage) => void;
+
+/**
+ * @interface InvalidationBus
+ * @description Publish/subscribe transport for invalidation messages
+ */
+export interface InvalidationBus {
+  publish(message: InvalidationMessage): Promise<void>;
+  subscribe(handler: InvalidationHandler): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * @class LocalInvalidationBus
+ * @description In-process bus; instances sharing an emitter behave like separate replicas
+ * @author Bilal S.
+ */
+export class LocalInvalidationBus implements InvalidationBus {
+  private readonly emitter: EventEmitter;
+  private readonly handlers: InvalidationHandler[] = [];
+
+  constructor(emitter = new EventEmitter()) {
+    this.emitter = emitter;
+  }
+
+  async publish(message: InvalidationMessage): Promise<void> {
+    this.emitter.emit('invalidate', message);
+  }
+
+  async subscribe(handler: InvalidationHandler): Promise<void> {
+    this.handlers.push(handler);
+    this.emitter.on('invalidate', handler);
+  }
+
+  async close(): Promise<void> {
+    this.handlers.forEach(handler => this.emitter.off('invalidate', handler));
+    this.handlers.length = 0;
+  }
+}
+
+/**
+ * @class RedisInvalidationBus
+ * @description Redis pub/sub bus. Subscriptions run on a duplicated connection because a
+ * subscribed ioredis client cannot issue regular commands.
+ * @author Bilal S.
+ */
+export class RedisInvalidationBus implements InvalidationBus {
+  private readonly publisher: Redis;
+  private readonly channel: string;
+  private subscriber: Redis | null = null;
+
+  constructor(publisher: Redis, channel = 'cache:invalidate') {
+    this.publisher = publisher;
+    this.channel = channel;
+  }
+
+  async publish(message: InvalidationMessage): Promise<void> {
+    await this.publisher.publish(this.channel, JSON.stringify(message));
+  }
+
+  async subscribe(handler: InvalidationHandler): Promise<void> {
+    if (!this.subscriber) {
+      this.subscriber = this.publisher.duplicate();
+      await this.subscriber.subscribe(this.channel);
+    }
+
+    this.subscriber.on('message', (channel: string, payload: string) => {
+      if (channel !== this.channel) return;
+
+      try {
+        handler(JSON.parse(payload) as InvalidationMessage);
+      } catch (error) {
+        logger.warn('Ignoring malformed cache invalidation message:', error);
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.subscriber) {
+      await this.subscriber.quit();
+      this.subscriber = null;
+    }
+  }
+}
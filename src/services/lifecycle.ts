@@ -0,0 +1,186 @@
+/**
+ * @fileoverview Service lifecycle
+ * @description Starts services in registration order, stops them in reverse, and turns
+ * termination signals into one graceful shutdown
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { logger } from '../utils/logger';
+
+/**
+ * @interface LifecycleHook
+ * @description Start and stop steps of one service. `stop` should release every timer,
+ * connection and handle the service holds, so the process can exit on its own.
+ */
+export interface LifecycleHook {
+  name: string;
+  start?: () => void | Promise<void>;
+  stop?: () => void | Promise<void>;
+}
+
+export type LifecycleState = 'idle' | 'starting' | 'running' | 'stopping' | 'stopped';
+
+/**
+ * @class LifecycleManager
+ * @description Ordered start/stop of the registered services. Services registered later may
+ * depend on earlier ones, so they stop first. A failing or hanging stop step is logged and
+ * skipped after `stopTimeoutMs`, so one stuck service cannot block the rest.
+ * @author Bilal S.
+ */
+export class LifecycleManager {
+  private readonly hooks: LifecycleHook[] = [];
+  private readonly started: LifecycleHook[] = [];
+  private readonly stopTimeoutMs: number;
+  private state: LifecycleState = 'idle';
+  private stopping: Promise<boolean> | null = null;
+
+  /**
+   * @constructor
+   * @param {number} stopTimeoutMs - Time limit per stop step (default: 10000)
+   * @author Bilal S.
+   */
+  constructor(stopTimeoutMs = 10_000) {
+    this.stopTimeoutMs = stopTimeoutMs;
+  }
+
+  register(hook: LifecycleHook): void {
+    if (this.state !== 'idle') {
+      throw new Error(`Cannot register "${hook.name}" once the lifecycle has started`);
+    }
+    this.hooks.push(hook);
+  }
+
+  getState(): LifecycleState {
+    return this.state;
+  }
+
+  /**
+   * @method start
+   * @description Runs the start steps in registration order. If one fails, the services
+   * already started are stopped again and the error is rethrown. A shutdown requested while
+   * starting skips the remaining steps.
+   * @returns {Promise<void>}
+   * @author Bilal S.
+   */
+  async start(): Promise<void> {
+    this.state = 'starting';
+
+    for (const hook of this.hooks) {
+      if (this.stopping) return;
+
+      try {
+        await hook.start?.();
+        this.started.push(hook);
+      } catch (error) {
+        logger.error(`Failed to start ${hook.name}:`, error);
+        await this.stop();
+        throw error;
+      }
+    }
+    if (!this.stopping) this.state = 'running';
+  }
+
+  /**
+   * @method stop
+   * @description Runs the stop steps of the started services in reverse order. Calling it
+   * again returns the shutdown already in progress.
+   * @returns {Promise<boolean>} Whether every stop step finished in time without failing
+   * @author Bilal S.
+   */
+  stop(): Promise<boolean> {
+    this.stopping ??= this.runStopSteps();
+    return this.stopping;
+  }
+
+  private async runStopSteps(): Promise<boolean> {
+    this.state = 'stopping';
+    let clean = true;
+
+    for (const hook of [...this.started].reverse()) {
+      if (!hook.stop) continue;
+
+      const startTime = Date.now();
+      let timer: NodeJS.Timeout | undefined;
+      try {
+        await Promise.race([
+          Promise.resolve().then(hook.stop),
+          new Promise<never>((_resolve, reject) => {
+            timer = setTimeout(
+              () => reject(new Error(`Timed out after ${this.stopTimeoutMs}ms`)),
+              this.stopTimeoutMs
+            );
+          }),
+        ]);
+        logger.info('Stopped service', { hook: hook.name, durationMs: Date.now() - startTime });
+      } catch (error) {
+        clean = false;
+        logger.error(`Failed to stop ${hook.name}:`, error);
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+
+    this.state = 'stopped';
+    return clean;
+  }
+}
+
+/**
+ * @interface SignalSource
+ * @description The part of `process` used for signal handling, replaceable in tests
+ */
+export interface SignalSource {
+  on(signal: NodeJS.Signals, listener: (signal: NodeJS.Signals) => void): unknown;
+  off(signal: NodeJS.Signals, listener: (signal: NodeJS.Signals) => void): unknown;
+}
+
+/**
+ * @interface ShutdownOptions
+ * @description Where signals come from and how the process ends
+ */
+export interface ShutdownOptions {
+  signals?: NodeJS.Signals[];
+  source?: SignalSource;
+  exit?: (code: number) => void;
+}
+
+/**
+ * @function handleShutdownSignals
+ * @description Stops the lifecycle on the first termination signal and exits with 0 if every
+ * service stopped cleanly (1 otherwise). A second signal exits immediately with 1.
+ * @param {LifecycleManager} lifecycle - Services to stop
+ * @param {ShutdownOptions} options - Signals (default: SIGTERM and SIGINT), signal source
+ * (default: process) and exit function (default: process.exit)
+ * @returns {Function} Removes the signal listeners
+ * @author Bilal S.
+ */
+export const handleShutdownSignals = (
+  lifecycle: LifecycleManager,
+  {
+    signals = ['SIGTERM', 'SIGINT'],
+    source = process,
+    exit = code => process.exit(code),
+  }: ShutdownOptions = {}
+): (() => void) => {
+  let received = false;
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (received) {
+      logger.warn('Second signal received, exiting immediately', { signal });
+      exit(1);
+      return;
+    }
+
+    received = true;
+    logger.info('Starting graceful shutdown', { signal });
+    void lifecycle.stop().then(clean => {
+      logger.info(clean ? 'Shutdown complete' : 'Shutdown finished with errors');
+      exit(clean ? 0 : 1);
+    });
+  };
+
+  signals.forEach(signal => source.on(signal, onSignal));
+  return () => signals.forEach(signal => source.off(signal, onSignal));
+};
@@ -0,0 +1,221 @@
+/**
+ * @fileoverview Prometheus metrics
+ * @description Counters, gauges and histograms rendered in the Prometheus text exposition
+ * format for `GET /metrics`
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { logger } from '../utils/logger';
+
+type Labels = Record<string, string>;
+
+// Seconds; covers in-memory cache hits up to slow database reads
+const DEFAULT_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * @class Metric
+ * @description One metric family. Label names are fixed at registration, and callers must
+ * only pass values from a bounded set (route templates, namespaces, lanes), never raw input.
+ * @author Bilal S.
+ */
+abstract class Metric<S> {
+  readonly name: string;
+  readonly help: string;
+  readonly labelNames: readonly string[];
+  protected series = new Map<string, { labels: Labels; value: S }>();
+
+  constructor(name: string, help: string, labelNames: readonly string[]) {
+    this.name = name;
+    this.help = help;
+    this.labelNames = labelNames;
+  }
+
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+  abstract render(): string[];
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  protected seriesFor(labels: Labels, initial: () => S): { labels: Labels; value: S } {
+    const known = Object.fromEntries(this.labelNames.map(name => [name, labels[name] ?? '']));
+    const key = this.labelNames.map(name => known[name]).join('\u0000');
+
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: known, value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+}
+
+/**
+ * @class Counter
+ * @description Monotonically increasing count
+ * @author Bilal S.
+ */
+export class Counter extends Metric<number> {
+  readonly type = 'counter';
+
+  inc(labels: Labels = {}, value = 1): void {
+    this.seriesFor(labels, () => 0).value += value;
+  }
+
+  render(): string[] {
+    return [...this.series.values()].map(({ labels, value }) => sample(this.name, labels, value));
+  }
+}
+
+/**
+ * @class Gauge
+ * @description Value that goes up and down. A gauge with a collector is cleared and refilled
+ * on every scrape.
+ * @author Bilal S.
+ */
+export class Gauge extends Metric<number> {
+  readonly type = 'gauge';
+  readonly collect: ((gauge: Gauge) => void | Promise<void>) | undefined;
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly string[],
+    collect?: (gauge: Gauge) => void | Promise<void>
+  ) {
+    super(name, help, labelNames);
+    this.collect = collect;
+  }
+
+  set(labels: Labels, value: number): void {
+    this.seriesFor(labels, () => 0).value = value;
+  }
+
+  render(): string[] {
+    return [...this.series.values()].map(({ labels, value }) => sample(this.name, labels, value));
+  }
+}
+
+/**
+ * @class Histogram
+ * @description Distribution of observations in cumulative buckets, with their sum and count
+ * @author Bilal S.
+ */
+export class Histogram extends Metric<{ buckets: number[]; sum: number; count: number }> {
+  readonly type = 'histogram';
+  readonly buckets: readonly number[];
+
+  constructor(name: string, help: string, labelNames: readonly string[], buckets = DEFAULT_BUCKETS) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const entry = this.seriesFor(labels, () => ({ buckets: this.buckets.map(() => 0), sum: 0, count: 0 }));
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) entry.value.buckets[index]!++;
+    });
+    entry.value.sum += value;
+    entry.value.count++;
+  }
+
+  render(): string[] {
+    return [...this.series.values()].flatMap(({ labels, value }) => [
+      ...this.buckets.map((bound, index) =>
+        sample(`${this.name}_bucket`, { ...labels, le: String(bound) }, value.buckets[index] ?? 0)
+      ),
+      sample(`${this.name}_bucket`, { ...labels, le: '+Inf' }, value.count),
+      sample(`${this.name}_sum`, labels, value.sum),
+      sample(`${this.name}_count`, labels, value.count),
+    ]);
+  }
+}
+
+/**
+ * @class MetricsRegistry
+ * @description Holds the metric families of the process. Registering a name twice returns the
+ * existing metric, so modules can declare the metrics they update next to their code.
+ * @author Bilal S.
+ */
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric<unknown>>();
+
+  counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+    return this.register(name, () => new Counter(name, help, labelNames));
+  }
+
+  gauge(
+    name: string,
+    help: string,
+    labelNames: readonly string[] = [],
+    collect?: (gauge: Gauge) => void | Promise<void>
+  ): Gauge {
+    return this.register(name, () => new Gauge(name, help, labelNames, collect));
+  }
+
+  histogram(name: string, help: string, labelNames: readonly string[] = [], buckets?: number[]): Histogram {
+    return this.register(name, () => new Histogram(name, help, labelNames, buckets));
+  }
+
+  /**
+   * @method render
+   * @description Refreshes the collected gauges and renders every metric family. A failing
+   * collector leaves its gauge empty instead of failing the scrape.
+   * @returns {Promise<string>} Prometheus text exposition format (version 0.0.4)
+   * @author Bilal S.
+   */
+  async render(): Promise<string> {
+    const families = [...this.metrics.values()];
+
+    await Promise.all(families.map(async metric => {
+      if (!(metric instanceof Gauge) || !metric.collect) return;
+
+      metric.reset();
+      try {
+        await metric.collect(metric);
+      } catch (error) {
+        logger.error(`Failed to collect metric ${metric.name}:`, error);
+      }
+    }));
+
+    return families
+      .flatMap(metric => [
+        `# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+        `# TYPE ${metric.name} ${metric.type}`,
+        ...metric.render(),
+      ])
+      .join('\n') + '\n';
+  }
+
+  private register<M extends Metric<unknown>>(name: string, create: () => M): M {
+    let metric = this.metrics.get(name);
+    if (!metric) {
+      metric = create();
+      this.metrics.set(name, metric);
+    }
+    return metric as M;
+  }
+}
+
+/**
+ * @function sample
+ * @description Formats one sample line with escaped label values
+ * @author Bilal S.
+ */
+const sample = (name: string, labels: Labels, value: number): string => {
+  const pairs = Object.entries(labels).map(
+    ([label, labelValue]) =>
+      `${label}="${labelValue.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  const formatted = Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : value < 0 ? '-Inf' : 'NaN';
+
+  return pairs.length > 0 ? `${name}{${pairs.join(',')}} ${formatted}` : `${name} ${formatted}`;
+};
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export const metrics = new MetricsRegistry();
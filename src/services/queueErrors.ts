@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Queue error types
+ * @description Typed errors raised by the user fetch queues, mapped to HTTP responses
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { ApiError } from '../middleware/errorHandler';
+
+/**
+ * @class QueueOverloadError
+ * @description Raised when the queue is at its maximum depth; surfaces as HTTP 503
+ * @author Bilal S.
+ */
+export class QueueOverloadError extends Error implements ApiError {
+  readonly statusCode = 503;
+  readonly isOperational = true;
+  readonly retryAfter: number;
+
+  /**
+   * @constructor
+   * @param {number} retryAfter - Suggested wait in seconds before retrying
+   * @author Bilal S.
+   */
+  constructor(retryAfter: number) {
+    super('Service is overloaded. Please try again later.');
+    this.name = 'QueueOverloadError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * @class QueueJobExpiredError
+ * @description Raised for queued jobs dropped because their deadline passed or every caller
+ * waiting on them went away
+ * @author Bilal S.
+ */
+export class QueueJobExpiredError extends Error implements ApiError {
+  readonly statusCode = 503;
+  readonly isOperational = true;
+
+  constructor(reason: string) {
+    super(`Queued job dropped: ${reason}`);
+    this.name = 'QueueJobExpiredError';
+  }
+}
+
+/**
+ * @class QueueShutdownError
+ * @description Raised for jobs still queued when the drain deadline of a shutdown passes, and
+ * for jobs submitted after the queue has closed
+ * @author Bilal S.
+ */
+export class QueueShutdownError extends Error implements ApiError {
+  readonly statusCode = 503;
+  readonly isOperational = true;
+
+  constructor() {
+    super('Service is shutting down. Please retry on another instance.');
+    this.name = 'QueueShutdownError';
+  }
+}
@@ -6,8 +6,22 @@
  * @since 2025-07-01
  */
 
-import { User } from '../types';
-import { UserDatabase } from '../database/userDatabase';
+import {
+  JobPriority,
+  QueueBackend,
+  QueueLaneStatus,
+  QueueStatus,
+  User,
+  UserFetchOptions,
+  UserFetchQueue,
+} from '../types';
+import { BullMqQueueService } from './bullmqQueueService';
+import { createRedisClient } from './redisClient';
+import { QueueJobExpiredError, QueueOverloadError, QueueShutdownError } from './queueErrors';
+import { UserBatchLoader } from './userBatchLoader';
+import { metrics } from './metrics';
+import { Span, SpanContext, tracer } from './tracing';
+import { currentRequestId, logger, runWithRequestId } from '../utils/logger';
 
 /**
  * @interface QueueJob
@@ -17,111 +31,535 @@ interface QueueJob {
   id: string;
   userId: number;
   timestamp: number;
+  priority: JobPriority;
+  deadline: number;
+  waiters: number; // Callers with an abort signal that is still live
+  keepAlive: boolean; // Set when a caller without a signal is waiting
+  requestIds: string[]; // Requests waiting on this job, in arrival order
+  trace: JobTrace;
   resolve: (value: User | null) => void;
   reject: (reason?: Error) => void;
 }
 
+/**
+ * @interface JobTrace
+ * @description Spans of a queued job. The wait and execute spans belong to the caller that
+ * queued the job; callers that joined it get their own span, linked to the execute span.
+ */
+interface JobTrace {
+  parent: SpanContext | null;
+  wait: Span;
+  joiners: Span[];
+  execute?: Span;
+}
+
+/**
+ * @interface PendingRequest
+ * @description In-flight fetch shared by every caller asking for the same user
+ */
+interface PendingRequest {
+  job: QueueJob;
+  promise: Promise<User | null>;
+}
+
+/**
+ * @interface QueueServiceOptions
+ * @description Worker pool and backpressure configuration
+ */
+export interface QueueServiceOptions {
+  concurrency?: number;
+  maxDepth?: number;
+  jobDeadlineMs?: number;
+  jobDelayMs?: number;
+  loader?: UserBatchLoader;
+}
+
+const PRIORITIES: JobPriority[] = ['interactive', 'background'];
+const WAIT_SAMPLE_SIZE = 500;
+
+// How often `close` checks whether the queue has drained
+const DRAIN_POLL_MS = 25;
+
+const queueMetrics = {
+  jobs: metrics.counter(
+    'queue_jobs_total',
+    'User fetch jobs by outcome (processed, failed, dropped, rejected)',
+    ['outcome']
+  ),
+  waitTime: metrics.histogram('queue_wait_seconds', 'Time user fetch jobs waited before running', ['lane']),
+  processingTime: metrics.histogram('queue_processing_seconds', 'Time taken to resolve a batch of user fetch jobs'),
+};
+
+/**
+ * @function percentile
+ * @description Nearest-rank percentile of a sample set
+ * @param {number[]} sorted - Samples in ascending order
+ * @param {number} p - Percentile between 0 and 100
+ * @returns {number} The percentile value (0 for an empty set)
+ * @author Bilal S.
+ */
+const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.max(0, Math.min(rank, sorted.length - 1))] ?? 0;
+};
+
 /**
  * @class QueueService
- * @description Manages asynchronous user fetch operations with request deduplication
+ * @description Manages asynchronous user fetch operations with request deduplication.
+ * In-process implementation: a worker pool drains two priority lanes in batches, new jobs are rejected
+ * once the queue is full, and queued jobs are dropped when their deadline passes or all of
+ * their callers have gone away. Jobs live in memory and are lost on restart.
  * @author Bilal S.
  */
-export class QueueService {
-  private queue: QueueJob[] = [];
-  private processing = false;
-  private pendingRequests = new Map<number, Promise<User | null>>();
+export class QueueService implements UserFetchQueue {
+  private lanes: Record<JobPriority, QueueJob[]> = { interactive: [], background: [] };
+  private active = 0;
+  private closed = false;
+  private pendingRequests = new Map<number, PendingRequest>();
+  private waitTimes: Record<JobPriority, number[]> = { interactive: [], background: [] };
+  private averageProcessingTime = 0;
+  private readonly concurrency: number;
+  private readonly maxDepth: number;
+  private readonly jobDeadlineMs: number;
+  private readonly jobDelayMs: number;
+  private readonly loader: UserBatchLoader;
   private stats = {
     processed: 0,
     failed: 0,
     pending: 0,
+    dropped: 0,
+    rejected: 0,
   };
 
+  /**
+   * @constructor
+   * @description Initializes the queue with its worker pool configuration
+   * @param {QueueServiceOptions} options - Concurrent batches (default: 5), max queued jobs
+   * (default: 1000), job deadline in ms (default: 10000), pause after each batch (default: 0)
+   * and the batch loader used to reach the database
+   * @author Bilal S.
+   */
+  constructor({
+    concurrency = 5,
+    maxDepth = 1000,
+    jobDeadlineMs = 10000,
+    jobDelayMs = 0,
+    loader = new UserBatchLoader(),
+  }: QueueServiceOptions = {}) {
+    this.concurrency = concurrency;
+    this.maxDepth = maxDepth;
+    this.jobDeadlineMs = jobDeadlineMs;
+    this.jobDelayMs = jobDelayMs;
+    this.loader = loader;
+  }
+
   /**
    * @method addUserFetchJob
    * @description Adds a user fetch job to the queue with deduplication
    * @param {number} userId - The ID of the user to fetch
+   * @param {UserFetchOptions} options - Priority lane, deadline and caller abort signal
    * @returns {Promise<User | null>} Promise resolving to user data or null
+   * @throws {QueueOverloadError} When the queue already holds maxDepth jobs
    * @author Bilal S.
    */
-  async addUserFetchJob(userId: number): Promise<User | null> {
+  async addUserFetchJob(userId: number, options: UserFetchOptions = {}): Promise<User | null> {
     // Check if there's already a pending request for this user
-    if (this.pendingRequests.has(userId)) {
-      return this.pendingRequests.get(userId)!;
+    const pending = this.pendingRequests.get(userId);
+    if (pending) {
+      this.attachCaller(pending.job, options);
+      return this.joinJob(pending.job, pending.promise);
+    }
+
+    if (this.closed) {
+      throw new QueueShutdownError();
     }
 
+    const priority = options.priority ?? 'interactive';
+    const parent = tracer.activeSpan()?.context ?? null;
+    const enqueueSpan = tracer.startSpan('queue.enqueue', {
+      kind: 'producer',
+      attributes: { 'user.id': userId, 'queue.lane': priority, 'queue.depth': this.getDepth() },
+    });
+
+    if (this.getDepth() >= this.maxDepth) {
+      this.stats.rejected++;
+      queueMetrics.jobs.inc({ outcome: 'rejected' });
+
+      const error = new QueueOverloadError(this.estimateRetryAfter());
+      enqueueSpan.recordException(error).end();
+      throw error;
+    }
+
+    let job!: QueueJob;
+
     // Create a promise for this request
     const promise = new Promise<User | null>((resolve, reject) => {
-      const job: QueueJob = {
+      job = {
         id: `user-${userId}-${Date.now()}`,
         userId,
         timestamp: Date.now(),
+        priority,
+        deadline: -Infinity,
+        waiters: 0,
+        keepAlive: false,
+        requestIds: [],
+        trace: {
+          parent,
+          wait: tracer.startSpan('queue.wait', {
+            parent,
+            attributes: { 'user.id': userId, 'queue.lane': priority },
+          }),
+          joiners: [],
+        },
         resolve,
         reject,
       };
-
-      this.queue.push(job);
-      this.stats.pending++;
-      
-      // Start processing if not already processing
-      if (!this.processing) {
-        this.processQueue();
-      }
     });
 
-    this.pendingRequests.set(userId, promise);
+    this.attachCaller(job, options);
+    this.lanes[priority].push(job);
+    this.stats.pending++;
+    this.pendingRequests.set(userId, { job, promise });
+    this.logJob(job, 'debug', 'User fetch job queued');
+    enqueueSpan.setAttributes({ 'queue.job_id': job.id }).end();
+
+    this.processQueue();
     return promise;
   }
 
-  private async processQueue(): Promise<void> {
-    if (this.processing || this.queue.length === 0) {
-      return;
-    }
+  /**
+   * @method invalidateUser
+   * @description Detaches the in-flight fetch for a user that has just been written. Callers
+   * already waiting keep their result; new calls start a fresh fetch instead of joining it.
+   * @param {number} userId - The ID of the written user
+   * @returns {void}
+   * @author Bilal S.
+   */
+  invalidateUser(userId: number): void {
+    this.pendingRequests.delete(userId);
+  }
 
-    this.processing = true;
+  /**
+   * @method processQueue
+   * @description Fills every free worker slot with a batch of queued jobs. Interactive jobs are
+   * taken before background ones; expired or abandoned jobs are dropped without running.
+   * @returns {void}
+   * @author Bilal S.
+   */
+  private processQueue(): void {
+    while (this.active < this.concurrency) {
+      const batch = this.takeBatch();
+      if (batch.length === 0) return;
 
-    while (this.queue.length > 0) {
-      const job = this.queue.shift();
-      if (!job) continue;
+      this.active++;
+      void this.runBatch(batch).finally(() => {
+        this.active--;
+        this.processQueue();
+      });
+    }
+  }
 
-      this.stats.pending--;
+  /**
+   * @method runBatch
+   * @description Resolves a batch of jobs through the batch loader, which merges them (and any
+   * other loads in the same window) into a single database call
+   * @param {QueueJob[]} batch - Jobs taken from the lanes
+   * @returns {Promise<void>}
+   * @author Bilal S.
+   */
+  private async runBatch(batch: QueueJob[]): Promise<void> {
+    const startTime = Date.now();
+
+    await Promise.all(batch.map(async job => {
+      const span = tracer.startSpan('queue.execute', {
+        kind: 'consumer',
+        parent: job.trace.parent,
+        links: job.trace.joiners.map(joiner => joiner.context),
+        attributes: { 'user.id': job.userId, 'queue.lane': job.priority, 'queue.batch_size': batch.length },
+      });
+      job.trace.joiners.forEach(joiner => joiner.addLink(span.context));
+      job.trace.execute = span;
 
       try {
-        const userDb = UserDatabase.getInstance();
-        const user = await userDb.getUserById(job.userId);
-        
+        const user = await tracer.withSpan(span, () =>
+          runWithRequestId(job.requestIds[0], () => this.loader.load(job.userId))
+        );
+
         job.resolve(user);
         this.stats.processed++;
-        this.pendingRequests.delete(job.userId);
+        queueMetrics.jobs.inc({ outcome: 'processed' });
+        this.logJob(job, 'debug', 'User fetch job completed');
       } catch (error) {
         job.reject(error instanceof Error ? error : new Error('Unknown error'));
         this.stats.failed++;
-        this.pendingRequests.delete(job.userId);
+        queueMetrics.jobs.inc({ outcome: 'failed' });
+        this.logJob(job, 'error', 'User fetch job failed', { error });
+        span.recordException(error);
+      } finally {
+        span.end();
+        this.releasePending(job);
+      }
+    }));
+    this.recordProcessingTime(Date.now() - startTime);
+    queueMetrics.processingTime.observe({}, (Date.now() - startTime) / 1000);
+
+    // Optional pause to throttle database load; it holds this worker slot, so it shows up in the
+    // wait of the jobs behind the batch
+    if (this.jobDelayMs > 0) {
+      await tracer.trace(
+        'queue.throttle',
+        { parent: batch[0]?.trace.parent ?? null, attributes: { 'queue.delay_ms': this.jobDelayMs } },
+        () => new Promise(resolve => setTimeout(resolve, this.jobDelayMs))
+      );
+    }
+  }
+
+  private releasePending(job: QueueJob): void {
+    // The entry may already belong to a newer job if the user was invalidated meanwhile
+    if (this.pendingRequests.get(job.userId)?.job === job) {
+      this.pendingRequests.delete(job.userId);
+    }
+  }
+
+  private takeBatch(): QueueJob[] {
+    const batch: QueueJob[] = [];
+
+    while (batch.length < this.loader.maxBatchSize) {
+      const job = this.nextJob();
+      if (!job) break;
+
+      this.stats.pending--;
+
+      const dropReason = this.getDropReason(job);
+      if (dropReason) {
+        this.stats.dropped++;
+        queueMetrics.jobs.inc({ outcome: 'dropped' });
+        this.releasePending(job);
+        this.logJob(job, 'warn', 'User fetch job dropped', { reason: dropReason });
+
+        const error = new QueueJobExpiredError(dropReason);
+        job.trace.wait.recordException(error).end();
+        job.reject(error);
+        continue;
       }
 
-      // Add small delay to prevent overwhelming the system
-      await new Promise(resolve => setTimeout(resolve, 10));
+      job.trace.wait.end();
+      this.recordWaitTime(job);
+      batch.push(job);
+    }
+
+    return batch;
+  }
+
+  private attachCaller(job: QueueJob, { priority, deadline, signal }: UserFetchOptions): void {
+    job.deadline = Math.max(job.deadline, deadline ?? Date.now() + this.jobDeadlineMs);
+
+    const requestId = currentRequestId();
+    if (requestId && !job.requestIds.includes(requestId)) {
+      job.requestIds.push(requestId);
+    }
+
+    if (!signal) {
+      job.keepAlive = true;
+    } else if (!signal.aborted) {
+      job.waiters++;
+      signal.addEventListener('abort', () => job.waiters--, { once: true });
+    }
+
+    // An interactive caller promotes a queued background job
+    if (priority === 'interactive' && job.priority === 'background') {
+      const index = this.lanes.background.indexOf(job);
+      if (index !== -1) {
+        this.lanes.background.splice(index, 1);
+        this.lanes.interactive.push(job);
+      }
+      job.priority = 'interactive';
     }
+  }
+
+  // Coalesced callers wait on a fetch another request started; their span links to the span
+  // that runs it, and that span links back to every caller it served
+  private joinJob(job: QueueJob, promise: Promise<User | null>): Promise<User | null> {
+    return tracer.trace('queue.join', { attributes: { 'user.id': job.userId, 'queue.job_id': job.id } }, span => {
+      job.trace.joiners.push(span);
+      if (job.trace.execute) {
+        span.addLink(job.trace.execute.context);
+        job.trace.execute.addLink(span.context);
+      }
+      return promise;
+    });
+  }
 
-    this.processing = false;
+  // Jobs outlive the request that queued them, so the request ID is set explicitly: the first
+  // caller's ID goes in `requestId`, and every caller sharing the job is listed in `requestIds`
+  private logJob(
+    job: QueueJob,
+    level: 'debug' | 'warn' | 'error',
+    message: string,
+    meta: Record<string, unknown> = {}
+  ): void {
+    runWithRequestId(job.requestIds[0], () => {
+      logger.log(level, message, { jobId: job.id, userId: job.userId, requestIds: job.requestIds, ...meta });
+    });
   }
 
-  getQueueStatus() {
+  private nextJob(): QueueJob | undefined {
+    return this.lanes.interactive.shift() ?? this.lanes.background.shift();
+  }
+
+  private getDropReason(job: QueueJob): string | null {
+    if (Date.now() > job.deadline) {
+      return `deadline exceeded for user ${job.userId}`;
+    }
+    if (!job.keepAlive && job.waiters <= 0) {
+      return `all callers for user ${job.userId} disconnected`;
+    }
+    return null;
+  }
+
+  private getDepth(): number {
+    return this.lanes.interactive.length + this.lanes.background.length;
+  }
+
+  private estimateRetryAfter(): number {
+    const batches = Math.ceil(this.getDepth() / this.loader.maxBatchSize);
+    const drainMs = (batches * this.averageProcessingTime) / this.concurrency;
+    return Math.max(1, Math.ceil(drainMs / 1000));
+  }
+
+  private recordWaitTime(job: QueueJob): void {
+    const samples = this.waitTimes[job.priority];
+    samples.push(Date.now() - job.timestamp);
+    queueMetrics.waitTime.observe({ lane: job.priority }, (Date.now() - job.timestamp) / 1000);
+    if (samples.length > WAIT_SAMPLE_SIZE) {
+      samples.shift();
+    }
+  }
+
+  private recordProcessingTime(duration: number): void {
+    // Exponential moving average keeps the Retry-After estimate current
+    this.averageProcessingTime =
+      this.averageProcessingTime === 0 ? duration : this.averageProcessingTime * 0.9 + duration * 0.1;
+  }
+
+  async getQueueStatus(): Promise<QueueStatus> {
+    const oldest = Math.min(...PRIORITIES.flatMap(priority => this.lanes[priority].map(job => job.timestamp)));
+    const lanes = {} as Record<JobPriority, QueueLaneStatus>;
+    PRIORITIES.forEach(priority => {
+      const sorted = [...this.waitTimes[priority]].sort((a, b) => a - b);
+      lanes[priority] = {
+        depth: this.lanes[priority].length,
+        waitTimeMs: {
+          p50: percentile(sorted, 50),
+          p95: percentile(sorted, 95),
+          p99: percentile(sorted, 99),
+        },
+      };
+    });
+
     return {
-      waiting: this.queue.length,
-      processing: this.processing,
+      backend: 'memory',
+      waiting: this.getDepth(),
+      active: this.active,
+      oldestJobAgeMs: oldest === Infinity ? null : Date.now() - oldest,
+      concurrency: this.concurrency,
+      maxDepth: this.maxDepth,
       pendingRequests: this.pendingRequests.size,
+      lanes,
+      batching: this.loader.getStats(),
       stats: { ...this.stats },
     };
   }
 
-  async close(): Promise<void> {
-    // Clear pending requests
-    this.queue.forEach(job => {
-      job.reject(new Error('Queue service is shutting down'));
+  /**
+   * @method close
+   * @description Stops accepting jobs, waits up to `drainTimeoutMs` for the queued and running
+   * ones to finish, then rejects whatever is still queued with `QueueShutdownError`
+   * @param {number} drainTimeoutMs - Longest wait for the queue to empty (default: 0)
+   * @returns {Promise<void>}
+   * @author Bilal S.
+   */
+  async close(drainTimeoutMs = 0): Promise<void> {
+    this.closed = true;
+
+    const deadline = Date.now() + drainTimeoutMs;
+    while ((this.getDepth() > 0 || this.active > 0) && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, Math.min(DRAIN_POLL_MS, deadline - Date.now())));
+    }
+
+    PRIORITIES.forEach(priority => {
+      this.lanes[priority].forEach(job => {
+        const error = new QueueShutdownError();
+        this.stats.pending--;
+        this.stats.dropped++;
+        queueMetrics.jobs.inc({ outcome: 'dropped' });
+        job.trace.wait.recordException(error).end();
+        job.reject(error);
+      });
+      this.lanes[priority] = [];
     });
-    this.queue = [];
     this.pendingRequests.clear();
   }
 }
 
-export const queueService = new QueueService();
+/**
+ * @function createUserBatchLoader
+ * @description Builds the batch loader from BATCH_WINDOW_MS and BATCH_MAX_SIZE
+ * @returns {UserBatchLoader} The configured batch loader
+ * @author Bilal S.
+ */
+const createUserBatchLoader = (): UserBatchLoader =>
+  new UserBatchLoader({
+    windowMs: parseInt(process.env['BATCH_WINDOW_MS'] || '5', 10),
+    maxBatchSize: parseInt(process.env['BATCH_MAX_SIZE'] || '50', 10),
+  });
+
+/**
+ * @function createUserFetchQueue
+ * @description Builds the queue implementation selected through QUEUE_BACKEND
+ * @param {QueueBackend} backend - Queue to instantiate (default: QUEUE_BACKEND or 'memory')
+ * @returns {UserFetchQueue} The configured queue
+ * @author Bilal S.
+ */
+export const createUserFetchQueue = (
+  backend = (process.env['QUEUE_BACKEND'] || 'memory') as QueueBackend
+): UserFetchQueue => {
+  switch (backend) {
+    case 'memory':
+      return new QueueService({
+        concurrency: parseInt(process.env['QUEUE_CONCURRENCY'] || '5', 10),
+        maxDepth: parseInt(process.env['QUEUE_MAX_DEPTH'] || '1000', 10),
+        jobDeadlineMs: parseInt(process.env['QUEUE_JOB_DEADLINE_MS'] || '10000', 10),
+        jobDelayMs: parseInt(process.env['QUEUE_JOB_DELAY_MS'] || '0', 10),
+        loader: createUserBatchLoader(),
+      });
+    case 'bullmq':
+      return new BullMqQueueService(
+        // BullMQ workers block on Redis and require unlimited retries per request
+        createRedisClient(undefined, { maxRetriesPerRequest: null }),
+        {
+          queueName: process.env['QUEUE_NAME'] || 'user-fetch',
+          concurrency: parseInt(process.env['QUEUE_CONCURRENCY'] || '5', 10),
+          attempts: parseInt(process.env['QUEUE_ATTEMPTS'] || '3', 10),
+          backoffMs: parseInt(process.env['QUEUE_BACKOFF_MS'] || '100', 10),
+          jobTimeoutMs: parseInt(process.env['QUEUE_JOB_TIMEOUT_MS'] || '5000', 10),
+          loader: createUserBatchLoader(),
+        }
+      );
+    default:
+      throw new Error(`Unsupported QUEUE_BACKEND "${backend}". Expected "memory" or "bullmq".`);
+  }
+};
+
+export const queueService: UserFetchQueue = createUserFetchQueue();
+
+metrics.gauge('queue_depth', 'User fetch jobs waiting to run', ['lane'], async gauge => {
+  const status = await queueService.getQueueStatus();
+
+  if (status.lanes) {
+    PRIORITIES.forEach(priority => gauge.set({ lane: priority }, status.lanes?.[priority].depth ?? 0));
+  } else {
+    gauge.set({ lane: 'all' }, status.waiting);
+  }
+});
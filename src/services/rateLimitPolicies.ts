@@ -0,0 +1,245 @@
+/**
+ * @fileoverview Rate limit policy engine
+ * @description Resolves per-route, per-method and per-tier rate limits from a declarative config
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+  ClientTier,
+  RateLimitPolicy,
+  RateLimitPolicyConfig,
+  RateLimitRules,
+  ResolvedRateLimitPolicy,
+} from '../types';
+
+const CLIENT_TIERS: ClientTier[] = ['anonymous', 'free', 'pro', 'internal'];
+const HTTP_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+const RULE_FIELDS: (keyof RateLimitRules)[] = [
+  'maxRequests',
+  'windowMs',
+  'maxBurstRequests',
+  'burstWindowMs',
+];
+
+/**
+ * @constant DEFAULT_RULES
+ * @description Limits applied when no policy matches (10/minute with a 5/10s burst)
+ */
+export const DEFAULT_RULES: RateLimitRules = {
+  maxRequests: 10,
+  windowMs: 60 * 1000,
+  maxBurstRequests: 5,
+  burstWindowMs: 10 * 1000,
+};
+
+/**
+ * @class PolicyConfigError
+ * @description Raised at startup when the policy file is unreadable or invalid
+ * @author Bilal S.
+ */
+export class PolicyConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`Invalid rate limit policy config (${source}):\n  - ${issues.join('\n  - ')}`);
+    this.name = 'PolicyConfigError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * @function compilePathPattern
+ * @description Converts an Express-style pattern (`/users/:id`, `/cache/*`, `*`) to a RegExp
+ * @param {string} pattern - Path pattern from the policy config
+ * @returns {RegExp} Anchored regular expression matching request paths
+ * @author Bilal S.
+ */
+const compilePathPattern = (pattern: string): RegExp => {
+  const source = pattern
+    .split('*')
+    .map(part =>
+      part
+        .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+        .replace(/:[A-Za-z_][A-Za-z0-9_]*/g, '[^/]+')
+    )
+    .join('.*');
+  return new RegExp(`^${source}/?$`);
+};
+
+/**
+ * @function validatePolicyConfig
+ * @description Checks a parsed policy file and collects every problem found
+ * @param {unknown} config - Parsed JSON contents
+ * @returns {string[]} Validation issues (empty when the config is valid)
+ * @author Bilal S.
+ */
+export const validatePolicyConfig = (config: unknown): string[] => {
+  const issues: string[] = [];
+  const policies = (config as Partial<RateLimitPolicyConfig> | null)?.policies;
+
+  if (!Array.isArray(policies)) {
+    return ['"policies" must be an array'];
+  }
+
+  const names = new Set<string>();
+  policies.forEach((policy: Partial<RateLimitPolicy>, index) => {
+    const label = `policies[${index}]${policy?.name ? ` (${policy.name})` : ''}`;
+
+    if (typeof policy?.name !== 'string' || policy.name.length === 0) {
+      issues.push(`${label}: "name" must be a non-empty string`);
+    } else if (names.has(policy.name)) {
+      issues.push(`${label}: duplicate policy name`);
+    } else {
+      names.add(policy.name);
+    }
+
+    const matchPath = policy?.match?.path;
+    if (typeof matchPath !== 'string' || !(matchPath.startsWith('/') || matchPath === '*')) {
+      issues.push(`${label}: "match.path" must start with "/" or be "*"`);
+    }
+
+    const methods = policy?.match?.methods;
+    if (methods !== undefined) {
+      if (!Array.isArray(methods) || methods.length === 0) {
+        issues.push(`${label}: "match.methods" must be a non-empty array`);
+      } else {
+        methods
+          .filter(method => !HTTP_METHODS.includes(String(method).toUpperCase()))
+          .forEach(method => issues.push(`${label}: unknown HTTP method "${method}"`));
+      }
+    }
+
+    if (policy?.exempt === true) return;
+
+    const tiers = policy?.tiers;
+    if (!tiers || typeof tiers !== 'object') {
+      issues.push(`${label}: either "exempt": true or "tiers" is required`);
+      return;
+    }
+
+    if (!tiers.anonymous) {
+      issues.push(`${label}: "tiers.anonymous" is required as the fallback tier`);
+    }
+
+    Object.entries(tiers).forEach(([tier, rules]) => {
+      if (!CLIENT_TIERS.includes(tier as ClientTier)) {
+        issues.push(`${label}: unknown tier "${tier}"`);
+        return;
+      }
+      if (rules === 'exempt') return;
+
+      RULE_FIELDS.forEach(field => {
+        const value = (rules as Partial<RateLimitRules> | null)?.[field];
+        if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+          issues.push(`${label}: "tiers.${tier}.${field}" must be a positive integer`);
+        }
+      });
+    });
+  });
+
+  return issues;
+};
+
+/**
+ * @class RateLimitPolicyEngine
+ * @description Matches requests against the ordered policy list; the first match wins
+ * @author Bilal S.
+ */
+export class RateLimitPolicyEngine {
+  private readonly policies: RateLimitPolicy[];
+  private readonly matchers: { policy: RateLimitPolicy; path: RegExp; methods: string[] | null }[];
+
+  /**
+   * @constructor
+   * @description Validates and compiles the policy config
+   * @param {RateLimitPolicyConfig} config - Policy config (validated here)
+   * @param {string} source - Where the config came from, for error messages
+   * @throws {PolicyConfigError} When the config is invalid
+   * @author Bilal S.
+   */
+  constructor(config: RateLimitPolicyConfig, source = 'inline config') {
+    const issues = validatePolicyConfig(config);
+    if (issues.length > 0) {
+      throw new PolicyConfigError(source, issues);
+    }
+
+    this.policies = config.policies;
+    this.matchers = config.policies.map(policy => ({
+      policy,
+      path: compilePathPattern(policy.match.path),
+      methods: policy.match.methods?.map(method => method.toUpperCase()) ?? null,
+    }));
+  }
+
+  /**
+   * @method resolve
+   * @description Finds the limits that apply to a request
+   * @param {string} method - HTTP method
+   * @param {string} requestPath - Request path without the query string
+   * @param {ClientTier} tier - Tier of the calling client
+   * @returns {ResolvedRateLimitPolicy} Applied policy; `rules` is null when exempt
+   * @author Bilal S.
+   */
+  resolve(method: string, requestPath: string, tier: ClientTier): ResolvedRateLimitPolicy {
+    const match = this.matchers.find(
+      matcher =>
+        matcher.path.test(requestPath) &&
+        (!matcher.methods || matcher.methods.includes(method.toUpperCase()))
+    );
+
+    if (!match) {
+      return { policy: 'default', tier, rules: DEFAULT_RULES };
+    }
+
+    const { policy } = match;
+    if (policy.exempt) {
+      return { policy: policy.name, tier, rules: null };
+    }
+
+    const rules = policy.tiers?.[tier] ?? policy.tiers?.anonymous ?? DEFAULT_RULES;
+    return { policy: policy.name, tier, rules: rules === 'exempt' ? null : rules };
+  }
+
+  listPolicies(): RateLimitPolicy[] {
+    return this.policies;
+  }
+}
+
+/**
+ * @function loadRateLimitPolicies
+ * @description Loads and validates the policy file named by RATE_LIMIT_POLICY_FILE
+ * (default: config/rate-limit-policies.json). Without a file, every route uses DEFAULT_RULES.
+ * @param {string} filePath - Policy file to load
+ * @returns {RateLimitPolicyEngine} Policy engine for the loaded config
+ * @throws {PolicyConfigError} When the file cannot be parsed or fails validation
+ * @author Bilal S.
+ */
+export const loadRateLimitPolicies = (
+  filePath = process.env['RATE_LIMIT_POLICY_FILE'] || 'config/rate-limit-policies.json'
+): RateLimitPolicyEngine => {
+  const resolvedPath = path.resolve(filePath);
+
+  if (!fs.existsSync(resolvedPath)) {
+    if (process.env['RATE_LIMIT_POLICY_FILE']) {
+      throw new PolicyConfigError(resolvedPath, ['file not found']);
+    }
+    return new RateLimitPolicyEngine({ policies: [] }, 'built-in defaults');
+  }
+
+  let config: RateLimitPolicyConfig;
+  try {
+    config = JSON.parse(fs.readFileSync(resolvedPath, 'utf8')) as RateLimitPolicyConfig;
+  } catch (error) {
+    throw new PolicyConfigError(resolvedPath, [
+      `unable to parse JSON: ${error instanceof Error ? error.message : String(error)}`,
+    ]);
+  }
+
+  return new RateLimitPolicyEngine(config, resolvedPath);
+};
+
+export const rateLimitPolicies = loadRateLimitPolicies();
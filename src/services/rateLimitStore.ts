@@ -0,0 +1,145 @@
+/**
+ * @fileoverview In-memory rate limit store
+ * @description Per-process sliding window bookkeeping used standalone or as the local fallback
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { RateLimitResult, RateLimitRules, RateLimitStore } from '../types';
+
+/**
+ * @interface RateLimitEntry
+ * @description Tracks request timestamps for a specific client
+ */
+interface RateLimitEntry {
+  requests: number[];
+  burstRequests: number[];
+}
+
+/**
+ * @class MemoryRateLimitStore
+ * @description Keeps per-client timestamp arrays in a local Map
+ * @author Bilal S.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly backend = 'memory' as const;
+  private clients = new Map<string, RateLimitEntry>();
+  private cleanupInterval: NodeJS.Timeout | null = null;
+  private windowMs = 0;
+  private burstWindowMs = 0;
+
+  constructor() {
+    // Clean up old entries every minute, only in non-test environment
+    if (process.env['NODE_ENV'] !== 'test') {
+      this.cleanupInterval = setInterval(() => {
+        this.cleanup();
+      }, 60000);
+    }
+  }
+
+  /**
+   * @method consume
+   * @description Checks both windows and records the request if allowed
+   * @param {string} clientId - Unique identifier for the client
+   * @param {RateLimitRules} rules - Limits to apply
+   * @param {number} now - Current time in milliseconds
+   * @param {number} cost - Number of requests this call counts as (default: 1)
+   * @returns {Promise<RateLimitResult>} Rate limit result
+   * @author Bilal S.
+   */
+  async consume(
+    clientId: string,
+    rules: RateLimitRules,
+    now: number,
+    cost = 1
+  ): Promise<RateLimitResult> {
+    // Remember the widest windows for cleanup
+    this.windowMs = Math.max(this.windowMs, rules.windowMs);
+    this.burstWindowMs = Math.max(this.burstWindowMs, rules.burstWindowMs);
+
+    if (!this.clients.has(clientId)) {
+      this.clients.set(clientId, {
+        requests: [],
+        burstRequests: [],
+      });
+    }
+
+    const client = this.clients.get(clientId)!;
+
+    // Remove old requests outside the window
+    client.requests = client.requests.filter(time => now - time < rules.windowMs);
+    client.burstRequests = client.burstRequests.filter(time => now - time < rules.burstWindowMs);
+
+    // Check burst limit first. A cost above the limit is refused even on an empty window.
+    if (client.burstRequests.length + cost > rules.maxBurstRequests) {
+      const oldestBurstRequest = client.burstRequests.length > 0 ? Math.min(...client.burstRequests) : now;
+      return {
+        allowed: false,
+        remaining: 0,
+        resetTime: oldestBurstRequest + rules.burstWindowMs,
+        reason: 'burst',
+      };
+    }
+
+    // Check regular limit
+    if (client.requests.length + cost > rules.maxRequests) {
+      const oldestRequest = client.requests.length > 0 ? Math.min(...client.requests) : now;
+      return {
+        allowed: false,
+        remaining: 0,
+        resetTime: oldestRequest + rules.windowMs,
+        reason: 'regular',
+      };
+    }
+
+    // Allow the request, recording one timestamp per unit of cost
+    for (let i = 0; i < cost; i++) {
+      client.requests.push(now);
+      client.burstRequests.push(now);
+    }
+
+    const remaining = Math.min(
+      rules.maxRequests - client.requests.length,
+      rules.maxBurstRequests - client.burstRequests.length
+    );
+
+    return {
+      allowed: true,
+      remaining,
+      resetTime: now + rules.windowMs,
+    };
+  }
+
+  getTrackedClients(): number {
+    return this.clients.size;
+  }
+
+  async close(): Promise<void> {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+    this.clients.clear();
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    const clientsToDelete: string[] = [];
+
+    for (const [clientId, client] of this.clients.entries()) {
+      // Remove old requests
+      client.requests = client.requests.filter(time => now - time < this.windowMs);
+      client.burstRequests = client.burstRequests.filter(time => now - time < this.burstWindowMs);
+
+      // If no recent requests, remove the client
+      if (client.requests.length === 0 && client.burstRequests.length === 0) {
+        clientsToDelete.push(clientId);
+      }
+    }
+
+    clientsToDelete.forEach(clientId => {
+      this.clients.delete(clientId);
+    });
+  }
+}
@@ -6,26 +6,52 @@
  * @since 2025-07-01
  */
 
+import {
+  RateLimitBackend,
+  RateLimitFailurePolicy,
+  RateLimitResult,
+  RateLimitRules,
+  RateLimitStore,
+} from '../types';
+import { MemoryRateLimitStore } from './rateLimitStore';
+import { RedisRateLimitStore } from './redisRateLimitStore';
+import { createRedisClient } from './redisClient';
+import { metrics } from './metrics';
+import { tracer } from './tracing';
+import { logger } from '../utils/logger';
+
+const rateLimitDecisions = metrics.counter(
+  'rate_limit_decisions_total',
+  'Rate limit decisions; reason is the window that rejected (burst, regular) or none',
+  ['decision', 'reason']
+);
+
 /**
- * @interface RateLimitEntry
- * @description Tracks request timestamps for a specific client
+ * @interface RateLimiterOptions
+ * @description Storage and failure handling configuration for the rate limiter
  */
-interface RateLimitEntry {
-  requests: number[];
-  burstRequests: number[];
+export interface RateLimiterOptions {
+  store?: RateLimitStore;
+  failurePolicy?: RateLimitFailurePolicy;
+  storeTimeoutMs?: number;
 }
 
 /**
  * @class RateLimiter
- * @description Dual-layer rate limiter with burst and sustained traffic limits
+ * @description Dual-layer rate limiter with burst and sustained traffic limits.
+ * When the configured store fails, decisions follow the failure policy.
  * @author Bilal S.
  */
 export class RateLimiter {
-  private clients = new Map<string, RateLimitEntry>();
-  private readonly windowMs: number;
-  private readonly maxRequests: number;
-  private readonly burstWindowMs: number;
-  private readonly maxBurstRequests: number;
+  private readonly rules: RateLimitRules;
+  private readonly store: RateLimitStore;
+  private readonly fallbackStore: RateLimitStore;
+  private readonly failurePolicy: RateLimitFailurePolicy;
+  private readonly storeTimeoutMs: number;
+  private stats = {
+    storeErrors: 0,
+    fallbackDecisions: 0,
+  };
 
   /**
    * @constructor
@@ -34,115 +60,138 @@ export class RateLimiter {
    * @param {number} windowMs - Window duration in milliseconds (default: 60000)
    * @param {number} maxBurstRequests - Maximum burst requests (default: 5)
    * @param {number} burstWindowMs - Burst window duration in milliseconds (default: 10000)
+   * @param {RateLimiterOptions} options - Store, failure policy and store timeout
    * @author Bilal S.
    */
   constructor(
     maxRequests = 10, // 10 requests per minute
     windowMs = 60 * 1000, // 1 minute
     maxBurstRequests = 5, // 5 requests in burst window
-    burstWindowMs = 10 * 1000 // 10 seconds
+    burstWindowMs = 10 * 1000, // 10 seconds
+    { store, failurePolicy = 'local', storeTimeoutMs = 250 }: RateLimiterOptions = {}
   ) {
-    this.maxRequests = maxRequests;
-    this.windowMs = windowMs;
-    this.maxBurstRequests = maxBurstRequests;
-    this.burstWindowMs = burstWindowMs;
-
-    // Clean up old entries every minute
-    setInterval(() => {
-      this.cleanup();
-    }, 60000);
+    this.rules = { maxRequests, windowMs, maxBurstRequests, burstWindowMs };
+    this.fallbackStore = new MemoryRateLimitStore();
+    this.store = store ?? this.fallbackStore;
+    this.failurePolicy = failurePolicy;
+    this.storeTimeoutMs = storeTimeoutMs;
   }
 
   /**
    * @method checkLimit
    * @description Checks if a client has exceeded rate limits
-   * @param {string} clientId - Unique identifier for the client (usually IP address)
-   * @returns {{allowed: boolean, remaining: number, resetTime: number}} Rate limit result
+   * @param {string} clientId - Unique identifier for the client (API key ID or IP address)
+   * @param {RateLimitRules} rules - Limits to apply (default: the limiter's own rules)
+   * @param {number} cost - Number of requests to charge (default: 1)
+   * @returns {Promise<RateLimitResult>} Rate limit result
    * @author Bilal S.
    */
-  checkLimit(clientId: string): { allowed: boolean; remaining: number; resetTime: number } {
-    const now = Date.now();
-    
-    if (!this.clients.has(clientId)) {
-      this.clients.set(clientId, {
-        requests: [],
-        burstRequests: [],
-      });
-    }
-
-    const client = this.clients.get(clientId)!;
-
-    // Remove old requests outside the window
-    client.requests = client.requests.filter(time => now - time < this.windowMs);
-    client.burstRequests = client.burstRequests.filter(time => now - time < this.burstWindowMs);
-
-    // Check burst limit first
-    if (client.burstRequests.length >= this.maxBurstRequests) {
-      const oldestBurstRequest = Math.min(...client.burstRequests);
-      const burstResetTime = oldestBurstRequest + this.burstWindowMs;
-      return {
-        allowed: false,
-        remaining: 0,
-        resetTime: burstResetTime,
-      };
-    }
-
-    // Check regular limit
-    if (client.requests.length >= this.maxRequests) {
-      const oldestRequest = Math.min(...client.requests);
-      const resetTime = oldestRequest + this.windowMs;
-      return {
-        allowed: false,
-        remaining: 0,
-        resetTime,
+  async checkLimit(clientId: string, rules = this.rules, cost = 1): Promise<RateLimitResult> {
+    return tracer.trace('rateLimit.check', { attributes: { 'rate_limit.cost': cost } }, async span => {
+      const result = await this.decide(clientId, rules, cost);
+      const decision = {
+        decision: result.allowed ? 'allowed' : 'rejected',
+        reason: result.reason ?? (result.allowed ? 'none' : 'store-unavailable'),
       };
-    }
-
-    // Allow the request
-    client.requests.push(now);
-    client.burstRequests.push(now);
 
-    const remaining = Math.min(
-      this.maxRequests - client.requests.length,
-      this.maxBurstRequests - client.burstRequests.length
-    );
+      rateLimitDecisions.inc(decision);
+      span.setAttributes({
+        'rate_limit.backend': this.store.backend,
+        'rate_limit.decision': decision.decision,
+        'rate_limit.reason': decision.reason,
+        'rate_limit.remaining': result.remaining,
+      });
+      return result;
+    });
+  }
 
+  getStats() {
     return {
-      allowed: true,
-      remaining,
-      resetTime: now + this.windowMs,
+      backend: this.store.backend,
+      failurePolicy: this.failurePolicy,
+      totalClients: this.store.getTrackedClients(),
+      ...this.rules,
+      ...this.stats,
     };
   }
 
-  private cleanup(): void {
-    const now = Date.now();
-    const clientsToDelete: string[] = [];
+  async close(): Promise<void> {
+    await this.store.close();
+    if (this.store !== this.fallbackStore) {
+      await this.fallbackStore.close();
+    }
+  }
 
-    for (const [clientId, client] of this.clients.entries()) {
-      // Remove old requests
-      client.requests = client.requests.filter(time => now - time < this.windowMs);
-      client.burstRequests = client.burstRequests.filter(time => now - time < this.burstWindowMs);
+  // Applies the store, or the failure policy when the store is unavailable
+  private async decide(clientId: string, rules: RateLimitRules, cost: number): Promise<RateLimitResult> {
+    const now = Date.now();
 
-      // If no recent requests, remove the client
-      if (client.requests.length === 0 && client.burstRequests.length === 0) {
-        clientsToDelete.push(clientId);
+    try {
+      return await this.withTimeout(this.store.consume(clientId, rules, now, cost));
+    } catch (error) {
+      if (this.store === this.fallbackStore) throw error;
+
+      this.stats.storeErrors++;
+      this.stats.fallbackDecisions++;
+      logger.error(`Rate limit store unavailable, applying "${this.failurePolicy}" policy:`, error);
+
+      switch (this.failurePolicy) {
+        case 'open':
+          return {
+            allowed: true,
+            remaining: Math.max(rules.maxBurstRequests - cost, 0),
+            resetTime: now + rules.windowMs,
+          };
+        case 'closed':
+          return { allowed: false, remaining: 0, resetTime: now + rules.burstWindowMs };
+        default:
+          return this.fallbackStore.consume(clientId, rules, now, cost);
       }
     }
+  }
 
-    clientsToDelete.forEach(clientId => {
-      this.clients.delete(clientId);
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Rate limit store timed out after ${this.storeTimeoutMs}ms`)),
+        this.storeTimeoutMs
+      );
     });
-  }
 
-  getStats() {
-    return {
-      totalClients: this.clients.size,
-      maxRequests: this.maxRequests,
-      windowMs: this.windowMs,
-      maxBurstRequests: this.maxBurstRequests,
-      burstWindowMs: this.burstWindowMs,
-    };
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
   }
 }
 
-export const rateLimiter = new RateLimiter();
+/**
+ * @function createRateLimiter
+ * @description Builds the rate limiter for the backend selected through RATE_LIMIT_BACKEND
+ * @param {RateLimitBackend} backend - Backend to use (default: RATE_LIMIT_BACKEND or 'memory')
+ * @returns {RateLimiter} The configured rate limiter
+ * @author Bilal S.
+ */
+export const createRateLimiter = (
+  backend = (process.env['RATE_LIMIT_BACKEND'] || 'memory') as RateLimitBackend
+): RateLimiter => {
+  const options: RateLimiterOptions = {
+    failurePolicy: (process.env['RATE_LIMIT_FAILURE_POLICY'] || 'local') as RateLimitFailurePolicy,
+    storeTimeoutMs: parseInt(process.env['RATE_LIMIT_STORE_TIMEOUT_MS'] || '250', 10),
+  };
+
+  switch (backend) {
+    case 'memory':
+      break;
+    case 'redis':
+      options.store = new RedisRateLimitStore(
+        createRedisClient(),
+        process.env['RATE_LIMIT_KEY_PREFIX'] || 'user-data-api:ratelimit:'
+      );
+      break;
+    default:
+      throw new Error(`Unsupported RATE_LIMIT_BACKEND "${backend}". Expected "memory" or "redis".`);
+  }
+
+  return new RateLimiter(10, 60 * 1000, 5, 10 * 1000, options);
+};
+
+export const rateLimiter = createRateLimiter();
@@ -0,0 +1,300 @@
+/**
+ * @fileoverview Redis-backed cache store
+ * @description Shares cached users between API instances with Redis-managed TTL expiry
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type Redis from 'ioredis';
+import { CacheEntry, CacheLookup, CacheSetOptions, CacheStats, CacheStore, User } from '../types';
+import { EntryTtls, getFreshness, resolveTtls } from './cacheFreshness';
+import { logger } from '../utils/logger';
+
+/**
+ * @interface RedisCacheStoreOptions
+ * @description Configuration for the Redis cache store
+ */
+export interface RedisCacheStoreOptions {
+  ttlSeconds?: number;
+  staleTtlSeconds?: number;
+  hardTtlSeconds?: number;
+  keyPrefix?: string;
+  sizeScanLimit?: number;
+}
+
+/**
+ * @type StoredEntry
+ * @description JSON shape persisted in Redis; the TTL bookkeeping lives in `timestamp` and the
+ * per-entry TTL overrides
+ */
+type StoredEntry<T> = Pick<CacheEntry<T>, 'data' | 'timestamp'> & { options?: CacheSetOptions };
+
+/**
+ * @class RedisCacheStore
+ * @description Cache store keeping entries in Redis so every replica sees the same data.
+ * Keys expire in Redis (PX) at the hard TTL; freshness is derived from the stored timestamp.
+ * Eviction is left to the server's maxmemory-policy. Tagged entries are also listed in one
+ * set per tag (`<prefix>#tag:<tag>`), which lives as long as its longest-lived member.
+ * Like reads and writes, invalidations degrade to no-ops during a Redis outage and are logged.
+ * @author Bilal S.
+ */
+export class RedisCacheStore<T = User> implements CacheStore<T> {
+  private readonly client: Redis;
+  private readonly ttls: EntryTtls; // Defaults in milliseconds; `set` can override per entry
+  private readonly keyPrefix: string;
+  private readonly sizeScanLimit: number;
+  private stats: Omit<CacheStats, 'size'> = {
+    backend: 'redis',
+    hits: 0,
+    misses: 0,
+    totalRequests: 0,
+    averageResponseTime: 0,
+    totalResponseTime: 0,
+  };
+
+  /**
+   * @constructor
+   * @description Initializes the store on top of an existing Redis client
+   * @param {Redis} client - ioredis client (or compatible fake in tests)
+   * @param {RedisCacheStoreOptions} options - TTL, key prefix and size scan configuration
+   * @author Bilal S.
+   */
+  constructor(
+    client: Redis,
+    {
+      ttlSeconds = 60,
+      staleTtlSeconds = ttlSeconds,
+      hardTtlSeconds = staleTtlSeconds,
+      keyPrefix = 'cache:',
+      sizeScanLimit = 1000,
+    }: RedisCacheStoreOptions = {}
+  ) {
+    this.client = client;
+    this.ttls = resolveTtls({ ttl: 0, staleTtl: 0, hardTtl: 0 }, {
+      ttlSeconds,
+      staleTtlSeconds,
+      hardTtlSeconds,
+    });
+    this.keyPrefix = keyPrefix;
+    this.sizeScanLimit = sizeScanLimit;
+  }
+
+  /**
+   * @method get
+   * @description Retrieves a fresh user from Redis
+   * @param {string} key - The cache key to retrieve
+   * @returns {Promise<T | null>} The cached data or null if not found/expired
+   * @author Bilal S.
+   */
+  async get(key: string): Promise<T | null> {
+    const entry = await this.lookup(key);
+    return entry?.state === 'fresh' ? entry.data : null;
+  }
+
+  /**
+   * @method lookup
+   * @description Retrieves a user with its freshness state. Connection errors are counted as
+   * misses so that a Redis outage degrades to database reads instead of failing requests.
+   * @param {string} key - The cache key to retrieve
+   * @returns {Promise<CacheLookup<T> | null>} The cached entry or null if not found/past hard TTL
+   * @author Bilal S.
+   */
+  async lookup(key: string): Promise<CacheLookup<T> | null> {
+    const startTime = Date.now();
+    const result = await this.read(key);
+
+    if (result?.state === 'fresh') {
+      this.stats.hits++;
+    } else {
+      this.stats.misses++;
+    }
+    this.updateStats(startTime);
+    return result;
+  }
+
+  /**
+   * @method peek
+   * @description Retrieves an entry like `lookup` without counting a hit or miss
+   * @param {string} key - The cache key to retrieve
+   * @returns {Promise<CacheLookup<T> | null>} The cached entry or null if not found/past hard TTL
+   * @author Bilal S.
+   */
+  async peek(key: string): Promise<CacheLookup<T> | null> {
+    return this.read(key);
+  }
+
+  /**
+   * @method set
+   * @description Stores a user in Redis until its hard TTL elapses
+   * @param {string} key - The cache key to store under
+   * @param {T} data - The data to cache
+   * @param {number} timestamp - Time the data was loaded (default: now)
+   * @param {CacheSetOptions} options - TTL overrides and tags for this entry
+   * @returns {Promise<void>}
+   * @author Bilal S.
+   */
+  async set(key: string, data: T, timestamp = Date.now(), options?: CacheSetOptions): Promise<void> {
+    const remaining = resolveTtls(this.ttls, options).hardTtl - (Date.now() - timestamp);
+    if (remaining <= 0) return;
+
+    const entry: StoredEntry<T> = { data, timestamp };
+    if (options) entry.options = options;
+    try {
+      const transaction = this.client
+        .multi()
+        .set(this.keyPrefix + key, JSON.stringify(entry), 'PX', remaining);
+      for (const tag of options?.tags ?? []) {
+        transaction
+          .sadd(this.tagKey(tag), this.keyPrefix + key)
+          .pexpire(this.tagKey(tag), Math.max(remaining, this.ttls.hardTtl));
+      }
+      await transaction.exec();
+    } catch (error) {
+      logger.error(`Redis cache write failed for ${key}:`, error);
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      const removed = await this.client.del(this.keyPrefix + key);
+      return removed > 0;
+    } catch (error) {
+      logger.error(`Redis cache delete failed for ${key}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * @method deleteMatching
+   * @description Removes every key under this store's prefix matching a glob pattern
+   * @param {string} pattern - Key pattern where `*` matches any run and `?` one character
+   * @returns {Promise<number>} Number of entries removed
+   * @author Bilal S.
+   */
+  async deleteMatching(pattern: string): Promise<number> {
+    try {
+      const keys = await this.scanKeys(pattern);
+      return keys.length > 0 ? await this.client.del(...keys) : 0;
+    } catch (error) {
+      logger.error(`Redis cache delete failed for pattern ${pattern}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * @method deleteTagged
+   * @description Removes the entries listed under a tag, then the tag set itself. A key that
+   * was re-stored without the tag is still removed, which costs one extra cache miss.
+   * @param {string} tag - Tag passed to `set` through `options.tags`
+   * @returns {Promise<number>} Number of entries removed
+   * @author Bilal S.
+   */
+  async deleteTagged(tag: string): Promise<number> {
+    try {
+      const keys = await this.client.smembers(this.tagKey(tag));
+      const [removed] = await Promise.all([
+        keys.length > 0 ? this.client.del(...keys) : 0,
+        this.client.del(this.tagKey(tag)),
+      ]);
+      return removed;
+    } catch (error) {
+      logger.error(`Redis cache delete failed for tag ${tag}:`, error);
+      return 0;
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      const keys = await this.scanKeys();
+      if (keys.length > 0) {
+        await this.client.del(...keys);
+      }
+    } catch (error) {
+      logger.error('Redis cache clear failed:', error);
+    }
+  }
+
+  async destroy(): Promise<void> {
+    await this.client.quit();
+  }
+
+  async ping(): Promise<void> {
+    await this.client.ping();
+  }
+
+  /**
+   * @method getStats
+   * @description Returns the hit/miss counters and the number of entries. The size comes from
+   * a SCAN that stops after `sizeScanLimit` keys, so it is a lower bound on large keyspaces,
+   * and 0 while Redis is unreachable.
+   * @returns {Promise<CacheStats>} Cache statistics
+   * @author Bilal S.
+   */
+  async getStats(): Promise<CacheStats> {
+    let size = 0;
+    try {
+      const keys = await this.scanKeys(undefined, this.sizeScanLimit);
+      size = keys.filter(key => !key.startsWith(this.tagKey(''))).length;
+    } catch (error) {
+      logger.error('Redis cache size scan failed:', error);
+    }
+    return { ...this.stats, size };
+  }
+
+  private updateStats(startTime: number): void {
+    const responseTime = Date.now() - startTime;
+    this.stats.totalRequests++;
+    this.stats.totalResponseTime += responseTime;
+    this.stats.averageResponseTime = this.stats.totalResponseTime / this.stats.totalRequests;
+  }
+
+  private async read(key: string): Promise<CacheLookup<T> | null> {
+    let entry: StoredEntry<T> | null = null;
+
+    try {
+      const raw = await this.client.get(this.keyPrefix + key);
+      entry = raw ? (JSON.parse(raw) as StoredEntry<T>) : null;
+    } catch (error) {
+      logger.error(`Redis cache read failed for ${key}:`, error);
+    }
+
+    const age = entry ? Date.now() - entry.timestamp : Infinity;
+    const { ttl, staleTtl, hardTtl } = resolveTtls(this.ttls, entry?.options);
+    if (!entry || age > hardTtl) return null;
+
+    const state = getFreshness(age, ttl, staleTtl);
+    const result: CacheLookup<T> = { data: entry.data, timestamp: entry.timestamp, state };
+    if (entry.options) result.options = entry.options;
+    return result;
+  }
+
+  private tagKey(tag: string): string {
+    return `${this.keyPrefix}#tag:${tag}`;
+  }
+
+  // Without a pattern this includes the tag sets, so `clear` drops them too
+  private async scanKeys(pattern?: string, limit = Infinity): Promise<string[]> {
+    const keys: string[] = [];
+    const match = pattern === undefined
+      ? `${escapeGlob(this.keyPrefix)}*`
+      : escapeGlob(this.keyPrefix) + pattern;
+    let cursor = '0';
+
+    do {
+      const [next, batch] = await this.client.scan(cursor, 'MATCH', match, 'COUNT', 100);
+      cursor = next;
+      keys.push(...batch);
+    } while (cursor !== '0' && keys.length < limit);
+    keys.splice(limit);
+
+    return pattern === undefined ? keys : keys.filter(key => !key.startsWith(this.tagKey('')));
+  }
+}
+
+/**
+ * @function escapeGlob
+ * @description Escapes the characters Redis MATCH treats as glob syntax
+ * @author Bilal S.
+ */
+const escapeGlob = (value: string): string => value.replace(/[*?[\]\\]/g, '\\$&');
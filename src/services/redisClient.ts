@@ -0,0 +1,34 @@
+/**
+ * @fileoverview Redis connection factory
+ * @description Creates ioredis clients for the services that share state across instances
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import Redis, { RedisOptions } from 'ioredis';
+import { logger } from '../utils/logger';
+
+/**
+ * @function createRedisClient
+ * @description Creates a Redis client from the REDIS_URL environment variable
+ * @param {string} url - Redis connection URL (default: REDIS_URL or redis://localhost:6379)
+ * @param {RedisOptions} options - Extra ioredis options (e.g. BullMQ's maxRetriesPerRequest: null)
+ * @returns {Redis} A new ioredis client
+ * @author Bilal S.
+ */
+export const createRedisClient = (
+  url = process.env['REDIS_URL'] || 'redis://localhost:6379',
+  options: RedisOptions = {}
+): Redis => {
+  const client = new Redis(url, {
+    maxRetriesPerRequest: parseInt(process.env['REDIS_MAX_RETRIES'] || '3', 10),
+    ...options,
+  });
+
+  client.on('error', (error: Error) => {
+    logger.error('Redis connection error:', error);
+  });
+
+  return client;
+};
@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Redis-backed rate limit store
+ * @description Shares sliding window counters between API instances using sorted sets
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { randomUUID } from 'crypto';
+import type Redis from 'ioredis';
+import { RateLimitResult, RateLimitRules, RateLimitStore } from '../types';
+
+/**
+ * @constant SLIDING_WINDOW_SCRIPT
+ * @description Trims both windows, checks burst then regular limits and records the request,
+ * all in one atomic script. A cost above 1 adds that many members. Returns { allowed, remaining, resetTime, reason } where reason is
+ * 0 = none, 1 = burst, 2 = regular. A refused cost larger than the limit may meet an empty
+ * window, which then resets a full window from now.
+ */
+const SLIDING_WINDOW_SCRIPT = `
+local regularKey = KEYS[1]
+local burstKey = KEYS[2]
+local now = tonumber(ARGV[1])
+local windowMs = tonumber(ARGV[2])
+local maxRequests = tonumber(ARGV[3])
+local burstWindowMs = tonumber(ARGV[4])
+local maxBurstRequests = tonumber(ARGV[5])
+local member = ARGV[6]
+local cost = tonumber(ARGV[7])
+
+redis.call('ZREMRANGEBYSCORE', regularKey, '-inf', now - windowMs)
+redis.call('ZREMRANGEBYSCORE', burstKey, '-inf', now - burstWindowMs)
+
+local burstCount = redis.call('ZCARD', burstKey)
+if burstCount + cost > maxBurstRequests then
+  local oldest = redis.call('ZRANGE', burstKey, 0, 0, 'WITHSCORES')
+  return { 0, 0, (tonumber(oldest[2]) or now) + burstWindowMs, 1 }
+end
+
+local count = redis.call('ZCARD', regularKey)
+if count + cost > maxRequests then
+  local oldest = redis.call('ZRANGE', regularKey, 0, 0, 'WITHSCORES')
+  return { 0, 0, (tonumber(oldest[2]) or now) + windowMs, 2 }
+end
+
+for i = 1, cost do
+  redis.call('ZADD', regularKey, now, member .. ':' .. i)
+  redis.call('ZADD', burstKey, now, member .. ':' .. i)
+end
+redis.call('PEXPIRE', regularKey, windowMs)
+redis.call('PEXPIRE', burstKey, burstWindowMs)
+
+return { 1, math.min(maxRequests - count - cost, maxBurstRequests - burstCount - cost), now + windowMs, 0 }
+`;
+
+/**
+ * @interface SlidingWindowClient
+ * @description Redis client extended with the sliding window script command
+ */
+interface SlidingWindowClient {
+  consumeSlidingWindow(
+    regularKey: string,
+    burstKey: string,
+    ...args: (string | number)[]
+  ): Promise<[number, number, number, number]>;
+}
+
+/**
+ * @class RedisRateLimitStore
+ * @description Sorted-set sliding windows evaluated atomically by a Lua script, so the limits
+ * hold across every instance sharing the Redis server
+ * @author Bilal S.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly backend = 'redis' as const;
+  private readonly client: Redis & SlidingWindowClient;
+  private readonly keyPrefix: string;
+
+  /**
+   * @constructor
+   * @description Registers the sliding window script on the given client
+   * @param {Redis} client - ioredis client (or compatible fake in tests)
+   * @param {string} keyPrefix - Prefix for the per-client sorted set keys
+   * @author Bilal S.
+   */
+  constructor(client: Redis, keyPrefix = 'ratelimit:') {
+    client.defineCommand('consumeSlidingWindow', {
+      numberOfKeys: 2,
+      lua: SLIDING_WINDOW_SCRIPT,
+    });
+    this.client = client as Redis & SlidingWindowClient;
+    this.keyPrefix = keyPrefix;
+  }
+
+  /**
+   * @method consume
+   * @description Checks both windows and records the request if allowed
+   * @param {string} clientId - Unique identifier for the client
+   * @param {RateLimitRules} rules - Limits to apply
+   * @param {number} now - Current time in milliseconds
+   * @param {number} cost - Number of requests this call counts as (default: 1)
+   * @returns {Promise<RateLimitResult>} Rate limit result
+   * @author Bilal S.
+   */
+  async consume(
+    clientId: string,
+    rules: RateLimitRules,
+    now: number,
+    cost = 1
+  ): Promise<RateLimitResult> {
+    // Hash tag keeps both keys in the same cluster slot
+    const baseKey = `${this.keyPrefix}{${clientId}}`;
+    const [allowed, remaining, resetTime, reason] = await this.client.consumeSlidingWindow(
+      `${baseKey}:regular`,
+      `${baseKey}:burst`,
+      now,
+      rules.windowMs,
+      rules.maxRequests,
+      rules.burstWindowMs,
+      rules.maxBurstRequests,
+      `${now}-${randomUUID()}`,
+      cost
+    );
+
+    const result: RateLimitResult = { allowed: allowed === 1, remaining, resetTime };
+    if (reason === 1) result.reason = 'burst';
+    if (reason === 2) result.reason = 'regular';
+    return result;
+  }
+
+  getTrackedClients(): null {
+    return null;
+  }
+
+  async close(): Promise<void> {
+    await this.client.quit();
+  }
+}
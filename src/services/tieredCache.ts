@@ -0,0 +1,252 @@
+/**
+ * @fileoverview Two-tier cache with cross-instance invalidation
+ * @description Fronts a shared cache store with the in-process LRU cache for local hits
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { randomUUID } from 'crypto';
+import { CacheLookup, CacheSetOptions, CacheStats, CacheStore, User } from '../types';
+import type { LRUCache } from './cacheService';
+import { InvalidationBus, InvalidationMessage } from './invalidationBus';
+import { logger } from '../utils/logger';
+
+/**
+ * @class TieredCache
+ * @description L1 (process memory) + L2 (shared store) cache. Reads fall through to L2 and
+ * promote hits into L1; writes and deletes go to both tiers and are broadcast on the
+ * invalidation bus so other instances drop their L1 copy.
+ * @author Bilal S.
+ */
+export class TieredCache<T = User> implements CacheStore<T> {
+  private readonly l1: LRUCache<T>;
+  private readonly l2: CacheStore<T>;
+  private readonly bus: InvalidationBus;
+  private readonly instanceId = randomUUID();
+  private readonly ready: Promise<void>;
+  private stats = {
+    l1Hits: 0,
+    l2Hits: 0,
+    l2Misses: 0,
+    promotions: 0,
+    invalidationsPublished: 0,
+    invalidationsReceived: 0,
+  };
+
+  /**
+   * @constructor
+   * @description Wires the tiers together and subscribes to remote invalidations
+   * @param {LRUCache} l1 - Local in-memory tier
+   * @param {CacheStore} l2 - Shared tier (usually Redis)
+   * @param {InvalidationBus} bus - Transport used to reach the other instances
+   * @author Bilal S.
+   */
+  constructor(l1: LRUCache<T>, l2: CacheStore<T>, bus: InvalidationBus) {
+    this.l1 = l1;
+    this.l2 = l2;
+    this.bus = bus;
+    this.ready = this.bus
+      .subscribe(message => this.handleInvalidation(message))
+      .catch(error => {
+        logger.error('Failed to subscribe to cache invalidations:', error);
+      });
+  }
+
+  /**
+   * @method get
+   * @description Reads a fresh entry from L1, falling back to L2
+   * @param {string} key - The cache key to retrieve
+   * @returns {Promise<T | null>} The cached data or null if neither tier has it
+   * @author Bilal S.
+   */
+  async get(key: string): Promise<T | null> {
+    const entry = await this.lookup(key);
+    return entry?.state === 'fresh' ? entry.data : null;
+  }
+
+  /**
+   * @method lookup
+   * @description Reads from L1, falling back to L2 when L1 has no fresh copy. L2 entries newer
+   * than the local copy are promoted into L1 with their original timestamp, so promotion never
+   * extends an entry's lifetime.
+   * @param {string} key - The cache key to retrieve
+   * @returns {Promise<CacheLookup<T> | null>} The freshest entry across both tiers
+   * @author Bilal S.
+   */
+  async lookup(key: string): Promise<CacheLookup<T> | null> {
+    const local = await this.l1.lookup(key);
+    if (local?.state === 'fresh') {
+      this.stats.l1Hits++;
+      return local;
+    }
+
+    const shared = await this.l2.lookup(key);
+    if (shared?.state === 'fresh') {
+      this.stats.l2Hits++;
+    } else {
+      this.stats.l2Misses++;
+    }
+
+    if (shared && (!local || shared.timestamp > local.timestamp)) {
+      this.stats.promotions++;
+      await this.l1.set(key, shared.data, shared.timestamp, shared.options);
+      return shared;
+    }
+
+    return local;
+  }
+
+  /**
+   * @method peek
+   * @description Reads the freshest entry across both tiers without promoting it or counting
+   * a hit or miss
+   * @param {string} key - The cache key to retrieve
+   * @returns {Promise<CacheLookup<T> | null>} The freshest entry across both tiers
+   * @author Bilal S.
+   */
+  async peek(key: string): Promise<CacheLookup<T> | null> {
+    const local = await this.l1.peek(key);
+    if (local?.state === 'fresh') return local;
+
+    const shared = await this.l2.peek(key);
+    return shared && (!local || shared.timestamp > local.timestamp) ? shared : local;
+  }
+
+  /**
+   * @method set
+   * @description Writes through to both tiers and evicts the key on the other instances
+   * @param {string} key - The cache key to store under
+   * @param {T} data - The data to cache
+   * @param {number} timestamp - Time the data was loaded (default: now)
+   * @param {CacheSetOptions} options - TTL overrides and tags for this entry
+   * @returns {Promise<void>}
+   * @author Bilal S.
+   */
+  async set(key: string, data: T, timestamp = Date.now(), options?: CacheSetOptions): Promise<void> {
+    await this.l2.set(key, data, timestamp, options);
+    await this.l1.set(key, data, timestamp, options);
+    await this.publish({ origin: this.instanceId, type: 'delete', key });
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const [removedShared, removedLocal] = await Promise.all([this.l2.delete(key), this.l1.delete(key)]);
+    await this.publish({ origin: this.instanceId, type: 'delete', key });
+    return removedShared || removedLocal;
+  }
+
+  /**
+   * @method deleteMatching
+   * @description Removes matching keys from both tiers and from the other instances' L1
+   * @param {string} pattern - Key pattern where `*` matches any run and `?` one character
+   * @returns {Promise<number>} Entries removed from whichever tier held more of them
+   * @author Bilal S.
+   */
+  async deleteMatching(pattern: string): Promise<number> {
+    const [removedShared, removedLocal] = await Promise.all([
+      this.l2.deleteMatching(pattern),
+      this.l1.deleteMatching(pattern),
+    ]);
+    await this.publish({ origin: this.instanceId, type: 'pattern', pattern });
+    return Math.max(removedShared, removedLocal);
+  }
+
+  /**
+   * @method deleteTagged
+   * @description Removes tagged entries from both tiers and from the other instances' L1
+   * @param {string} tag - Tag passed to `set` through `options.tags`
+   * @returns {Promise<number>} Entries removed from whichever tier held more of them
+   * @author Bilal S.
+   */
+  async deleteTagged(tag: string): Promise<number> {
+    const [removedShared, removedLocal] = await Promise.all([
+      this.l2.deleteTagged(tag),
+      this.l1.deleteTagged(tag),
+    ]);
+    await this.publish({ origin: this.instanceId, type: 'tag', tag });
+    return Math.max(removedShared, removedLocal);
+  }
+
+  async clear(): Promise<void> {
+    await Promise.all([this.l2.clear(), this.l1.clear()]);
+    await this.publish({ origin: this.instanceId, type: 'clear' });
+  }
+
+  /**
+   * @method getLocalTier
+   * @description Exposes the in-process tier, e.g. for snapshots
+   * @returns {LRUCache<T>} The L1 cache
+   * @author Bilal S.
+   */
+  getLocalTier(): LRUCache<T> {
+    return this.l1;
+  }
+
+  async destroy(): Promise<void> {
+    await this.ready;
+    await this.bus.close();
+    await Promise.all([this.l1.destroy(), this.l2.destroy()]);
+  }
+
+  async ping(): Promise<void> {
+    await this.l2.ping?.();
+  }
+
+  /**
+   * @method getStats
+   * @description Aggregates statistics, with the per-tier breakdown under `tiers`
+   * @returns {Promise<CacheStats>} Combined cache statistics
+   * @author Bilal S.
+   */
+  async getStats(): Promise<CacheStats> {
+    const [l1Stats, l2Stats] = await Promise.all([this.l1.getStats(), this.l2.getStats()]);
+    const totalRequests = l1Stats.totalRequests;
+    const totalResponseTime = l1Stats.totalResponseTime + l2Stats.totalResponseTime;
+
+    return {
+      backend: 'tiered',
+      hits: this.stats.l1Hits + this.stats.l2Hits,
+      misses: this.stats.l2Misses,
+      size: l2Stats.size,
+      totalRequests,
+      totalResponseTime,
+      averageResponseTime: totalRequests > 0 ? totalResponseTime / totalRequests : 0,
+      tiers: {
+        l1: {
+          hits: this.stats.l1Hits,
+          misses: this.stats.l2Hits + this.stats.l2Misses,
+          size: l1Stats.size,
+        },
+        l2: { hits: this.stats.l2Hits, misses: this.stats.l2Misses, size: l2Stats.size },
+        promotions: this.stats.promotions,
+        invalidationsPublished: this.stats.invalidationsPublished,
+        invalidationsReceived: this.stats.invalidationsReceived,
+      },
+    };
+  }
+
+  private async publish(message: InvalidationMessage): Promise<void> {
+    try {
+      await this.bus.publish(message);
+      this.stats.invalidationsPublished++;
+    } catch (error) {
+      logger.error('Failed to publish cache invalidation:', error);
+    }
+  }
+
+  private handleInvalidation(message: InvalidationMessage): void {
+    // Our own writes already updated L1
+    if (message.origin === this.instanceId) return;
+
+    this.stats.invalidationsReceived++;
+    if (message.type === 'clear') {
+      void this.l1.clear();
+    } else if (message.type === 'pattern' && message.pattern) {
+      void this.l1.deleteMatching(message.pattern);
+    } else if (message.type === 'tag' && message.tag) {
+      void this.l1.deleteTagged(message.tag);
+    } else if (message.key) {
+      void this.l1.delete(message.key);
+    }
+  }
+}
@@ -0,0 +1,456 @@
+/**
+ * @fileoverview Distributed tracing
+ * @description OpenTelemetry-compatible spans with W3C Trace Context propagation, exported as
+ * OTLP/HTTP JSON to a collector or as JSON lines to stdout
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import { performance } from 'perf_hooks';
+import { logger } from '../utils/logger';
+
+export type SpanKind = 'internal' | 'server' | 'client' | 'producer' | 'consumer';
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * @interface SpanContext
+ * @description Identity of a span as carried in a `traceparent` header
+ */
+export interface SpanContext {
+  traceId: string; // 32 hex characters
+  spanId: string; // 16 hex characters
+  sampled: boolean;
+}
+
+/**
+ * @interface SpanOptions
+ * @description Options for `Tracer.startSpan`. Without `parent` the active span is the parent;
+ * `parent: null` starts a new trace.
+ */
+export interface SpanOptions {
+  kind?: SpanKind;
+  parent?: SpanContext | null;
+  links?: SpanContext[];
+  attributes?: SpanAttributes;
+  startTime?: number; // Epoch milliseconds (default: now)
+}
+
+/**
+ * @interface SpanEvent
+ * @description Timestamped annotation on a span, e.g. a recorded exception
+ */
+export interface SpanEvent {
+  name: string;
+  time: number;
+  attributes: SpanAttributes;
+}
+
+/**
+ * @interface SpanExporter
+ * @description Destination for finished spans
+ */
+export interface SpanExporter {
+  export(spans: Span[]): Promise<void>;
+}
+
+// Epoch milliseconds with sub-millisecond precision
+const now = (): number => performance.timeOrigin + performance.now();
+
+/**
+ * @class Span
+ * @description One timed operation. Attributes, links and status can change until `end`.
+ * @author Bilal S.
+ */
+export class Span {
+  name: string;
+  readonly kind: SpanKind;
+  readonly context: SpanContext;
+  readonly parentSpanId: string | undefined;
+  readonly startTime: number;
+  endTime: number | undefined;
+  readonly attributes: SpanAttributes;
+  readonly links: SpanContext[];
+  readonly events: SpanEvent[] = [];
+  status: { code: 'unset' | 'ok' | 'error'; message?: string } = { code: 'unset' };
+  private readonly onEnd: (span: Span) => void;
+
+  constructor(
+    name: string,
+    context: SpanContext,
+    parentSpanId: string | undefined,
+    { kind = 'internal', links = [], attributes = {}, startTime = now() }: SpanOptions,
+    onEnd: (span: Span) => void
+  ) {
+    this.name = name;
+    this.kind = kind;
+    this.context = context;
+    this.parentSpanId = parentSpanId;
+    this.startTime = startTime;
+    this.attributes = { ...attributes };
+    this.links = [...links];
+    this.onEnd = onEnd;
+  }
+
+  setAttributes(attributes: SpanAttributes): this {
+    if (this.endTime === undefined) Object.assign(this.attributes, attributes);
+    return this;
+  }
+
+  addLink(context: SpanContext): this {
+    if (this.endTime === undefined) this.links.push(context);
+    return this;
+  }
+
+  /**
+   * @method recordException
+   * @description Adds an `exception` event and marks the span as failed
+   * @param {unknown} error - The thrown value
+   * @returns {this}
+   * @author Bilal S.
+   */
+  recordException(error: unknown): this {
+    const exception = error instanceof Error ? error : new Error(String(error));
+    const attributes: SpanAttributes = {
+      'exception.type': exception.name,
+      'exception.message': exception.message,
+    };
+    if (exception.stack) attributes['exception.stacktrace'] = exception.stack;
+
+    this.events.push({ name: 'exception', time: now(), attributes });
+    this.status = { code: 'error', message: exception.message };
+    return this;
+  }
+
+  /**
+   * @method end
+   * @description Finishes the span and hands it to the exporter. Later calls are ignored.
+   * @param {number} endTime - Epoch milliseconds (default: now)
+   * @returns {void}
+   * @author Bilal S.
+   */
+  end(endTime = now()): void {
+    if (this.endTime !== undefined) return;
+    this.endTime = endTime;
+    this.onEnd(this);
+  }
+}
+
+/**
+ * @interface TracerOptions
+ * @description Tracer configuration
+ */
+export interface TracerOptions {
+  sampleRatio?: number;
+  maxBatchSize?: number;
+  flushDelayMs?: number;
+}
+
+/**
+ * @class Tracer
+ * @description Creates spans, tracks the active span through async calls and exports finished,
+ * sampled spans in batches. Without an exporter spans are still created, so trace IDs keep
+ * propagating, but nothing is buffered.
+ * @author Bilal S.
+ */
+export class Tracer {
+  private readonly active = new AsyncLocalStorage<Span>();
+  private readonly exporter: SpanExporter | null;
+  private readonly sampleRatio: number;
+  private readonly maxBatchSize: number;
+  private readonly flushDelayMs: number;
+  private buffer: Span[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private exports: Promise<void> = Promise.resolve();
+
+  /**
+   * @constructor
+   * @param {SpanExporter | null} exporter - Destination for finished spans, or null to export
+   * nothing
+   * @param {TracerOptions} options - Share of new traces to sample (default: 1), spans per
+   * export (default: 512) and the longest a finished span waits for export (default: 5000ms)
+   * @author Bilal S.
+   */
+  constructor(
+    exporter: SpanExporter | null,
+    { sampleRatio = 1, maxBatchSize = 512, flushDelayMs = 5000 }: TracerOptions = {}
+  ) {
+    this.exporter = exporter;
+    this.sampleRatio = sampleRatio;
+    this.maxBatchSize = maxBatchSize;
+    this.flushDelayMs = flushDelayMs;
+  }
+
+  activeSpan(): Span | undefined {
+    return this.active.getStore();
+  }
+
+  /**
+   * @method startSpan
+   * @description Starts a span without making it active. The caller must end it.
+   * @param {string} name - Operation name
+   * @param {SpanOptions} options - Kind, parent, links, attributes and start time
+   * @returns {Span} The started span
+   * @author Bilal S.
+   */
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    const parent = options.parent === undefined ? this.activeSpan()?.context ?? null : options.parent;
+    const context: SpanContext = {
+      traceId: parent?.traceId ?? randomBytes(16).toString('hex'),
+      spanId: randomBytes(8).toString('hex'),
+      sampled: parent ? parent.sampled : Math.random() < this.sampleRatio,
+    };
+
+    return new Span(name, context, parent?.spanId, options, span => this.onEnd(span));
+  }
+
+  /**
+   * @method withSpan
+   * @description Runs `fn` with `span` as the active span
+   * @param {Span} span - Span to activate
+   * @param {Function} fn - Work to run
+   * @returns {T} Result of `fn`
+   * @author Bilal S.
+   */
+  withSpan<T>(span: Span, fn: () => T): T {
+    return this.active.run(span, fn);
+  }
+
+  /**
+   * @method trace
+   * @description Runs `fn` inside a new active span, ending it when `fn` returns or its promise
+   * settles. A thrown error or rejection is recorded on the span and rethrown.
+   * @param {string} name - Operation name
+   * @param {SpanOptions} options - Kind, parent, links, attributes and start time
+   * @param {Function} fn - Work to run; receives the span to add attributes
+   * @returns {T} Result of `fn`
+   * @author Bilal S.
+   */
+  trace<T>(name: string, options: SpanOptions, fn: (span: Span) => T): T {
+    const span = this.startSpan(name, options);
+
+    const fail = (error: unknown): never => {
+      span.recordException(error);
+      span.end();
+      throw error;
+    };
+
+    try {
+      const result = this.withSpan(span, () => fn(span));
+      if (result instanceof Promise) {
+        return result.then(value => {
+          span.end();
+          return value;
+        }, fail) as T;
+      }
+      span.end();
+      return result;
+    } catch (error) {
+      return fail(error);
+    }
+  }
+
+  /**
+   * @method flush
+   * @description Exports the buffered spans and waits for every export started so far
+   * @returns {Promise<void>}
+   * @author Bilal S.
+   */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const batch = this.buffer;
+    this.buffer = [];
+    if (batch.length > 0 && this.exporter) {
+      const exporter = this.exporter;
+      this.exports = this.exports
+        .then(() => exporter.export(batch))
+        .catch(error => {
+          logger.warn(`Failed to export ${batch.length} spans:`, error);
+        });
+    }
+    return this.exports;
+  }
+
+  private onEnd(span: Span): void {
+    if (!this.exporter || !span.context.sampled) return;
+
+    this.buffer.push(span);
+    if (this.buffer.length >= this.maxBatchSize) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.flushDelayMs);
+      this.timer.unref();
+    }
+  }
+}
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/**
+ * @function parseTraceparent
+ * @description Reads a W3C `traceparent` header. Invalid headers are ignored, as the spec asks.
+ * @param {string | undefined} header - Header value
+ * @returns {SpanContext | null} The remote parent, or null to start a new trace
+ * @author Bilal S.
+ */
+export const parseTraceparent = (header: string | undefined): SpanContext | null => {
+  const [, version, traceId, spanId, flags] = TRACEPARENT_PATTERN.exec(header?.trim().toLowerCase() ?? '') ?? [];
+  if (!version || !traceId || !spanId || !flags) return null;
+  if (version === 'ff' || /^0+$/.test(traceId) || /^0+$/.test(spanId)) return null;
+
+  return { traceId, spanId, sampled: (parseInt(flags, 16) & 1) === 1 };
+};
+
+/**
+ * @function formatTraceparent
+ * @description Writes a span context as a W3C `traceparent` header
+ * @param {SpanContext} context - Span to propagate
+ * @returns {string} Header value
+ * @author Bilal S.
+ */
+export const formatTraceparent = ({ traceId, spanId, sampled }: SpanContext): string =>
+  `00-${traceId}-${spanId}-${sampled ? '01' : '00'}`;
+
+/**
+ * @class ConsoleSpanExporter
+ * @description Writes each span as one JSON line, for local debugging and tests
+ * @author Bilal S.
+ */
+export class ConsoleSpanExporter implements SpanExporter {
+  private readonly stream: NodeJS.WritableStream;
+
+  constructor(stream: NodeJS.WritableStream = process.stdout) {
+    this.stream = stream;
+  }
+
+  async export(spans: Span[]): Promise<void> {
+    for (const span of spans) {
+      this.stream.write(`${JSON.stringify({
+        traceId: span.context.traceId,
+        spanId: span.context.spanId,
+        parentSpanId: span.parentSpanId,
+        name: span.name,
+        kind: span.kind,
+        startTime: new Date(span.startTime).toISOString(),
+        durationMs: (span.endTime ?? span.startTime) - span.startTime,
+        attributes: span.attributes,
+        links: span.links.map(({ traceId, spanId }) => ({ traceId, spanId })),
+        events: span.events,
+        status: span.status,
+      })}\n`);
+    }
+  }
+}
+
+const OTLP_SPAN_KINDS: Record<SpanKind, number> = { internal: 1, server: 2, client: 3, producer: 4, consumer: 5 };
+const OTLP_STATUS_CODES = { unset: 0, ok: 1, error: 2 };
+
+/**
+ * @class OtlpHttpSpanExporter
+ * @description Posts spans to an OpenTelemetry collector using OTLP/HTTP with JSON encoding
+ * @author Bilal S.
+ */
+export class OtlpHttpSpanExporter implements SpanExporter {
+  private readonly url: string;
+  private readonly serviceName: string;
+  private readonly timeoutMs: number;
+
+  /**
+   * @constructor
+   * @param {string} endpoint - Collector base URL; spans go to `<endpoint>/v1/traces`
+   * @param {string} serviceName - Reported as the `service.name` resource attribute
+   * @param {number} timeoutMs - Time limit per export request (default: 10000)
+   * @author Bilal S.
+   */
+  constructor(endpoint: string, serviceName: string, timeoutMs = 10_000) {
+    this.url = `${endpoint.replace(/\/+$/, '')}/v1/traces`;
+    this.serviceName = serviceName;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async export(spans: Span[]): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(this.encode(spans)),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`OTLP collector answered ${response.status}`);
+    }
+  }
+
+  private encode(spans: Span[]) {
+    return {
+      resourceSpans: [{
+        resource: { attributes: otlpAttributes({ 'service.name': this.serviceName }) },
+        scopeSpans: [{
+          scope: { name: this.serviceName },
+          spans: spans.map(span => ({
+            traceId: span.context.traceId,
+            spanId: span.context.spanId,
+            ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+            name: span.name,
+            kind: OTLP_SPAN_KINDS[span.kind],
+            startTimeUnixNano: unixNano(span.startTime),
+            endTimeUnixNano: unixNano(span.endTime ?? span.startTime),
+            attributes: otlpAttributes(span.attributes),
+            events: span.events.map(event => ({
+              name: event.name,
+              timeUnixNano: unixNano(event.time),
+              attributes: otlpAttributes(event.attributes),
+            })),
+            links: span.links.map(({ traceId, spanId }) => ({ traceId, spanId })),
+            status: {
+              code: OTLP_STATUS_CODES[span.status.code],
+              ...(span.status.message ? { message: span.status.message } : {}),
+            },
+          })),
+        }],
+      }],
+    };
+  }
+}
+
+const unixNano = (epochMs: number): string => (BigInt(Math.round(epochMs * 1000)) * 1000n).toString();
+
+const otlpAttributes = (attributes: SpanAttributes) =>
+  Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value:
+      typeof value === 'string' ? { stringValue: value }
+        : typeof value === 'boolean' ? { boolValue: value }
+          : Number.isInteger(value) ? { intValue: String(value) }
+            : { doubleValue: value },
+  }));
+
+/**
+ * @function createSpanExporter
+ * @description Selects the exporter from TRACING_EXPORTER: "otlp", "console" or "none"
+ * @returns {SpanExporter | null} The configured exporter, or null when tracing export is off
+ * @author Bilal S.
+ */
+export const createSpanExporter = (): SpanExporter | null => {
+  switch (process.env['TRACING_EXPORTER']) {
+    case 'otlp':
+      return new OtlpHttpSpanExporter(
+        process.env['OTEL_EXPORTER_OTLP_ENDPOINT'] || 'http://localhost:4318',
+        process.env['OTEL_SERVICE_NAME'] || 'user-data-api'
+      );
+    case 'console':
+      return new ConsoleSpanExporter();
+    default:
+      return null;
+  }
+};
+
+export const tracer = new Tracer(createSpanExporter(), {
+  sampleRatio: parseFloat(process.env['TRACING_SAMPLE_RATIO'] || '1'),
+});
@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Batched user loading
+ * @description Collects individual user lookups and resolves them with one bulk database call
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { BatchStats, User } from '../types';
+import { userRepository } from '../database/userRepository';
+import { SpanContext, tracer } from './tracing';
+
+/**
+ * @interface BatchLoaderOptions
+ * @description Batching window configuration
+ */
+export interface BatchLoaderOptions {
+  windowMs?: number;
+  maxBatchSize?: number;
+}
+
+/**
+ * @interface PendingLoad
+ * @description A caller waiting for one user of the current batch
+ */
+interface PendingLoad {
+  resolve: (value: User | null) => void;
+  reject: (reason?: Error) => void;
+  span: SpanContext | undefined; // Span that asked for the user
+}
+
+const HISTOGRAM_BOUNDS = [1, 2, 5, 10, 25, 50, 100];
+
+/**
+ * @class UserBatchLoader
+ * @description DataLoader-style batching: IDs requested within `windowMs` of the first one
+ * (or until `maxBatchSize` distinct IDs) are fetched with a single `getUsersByIds` call and
+ * the results are handed back to each waiting promise
+ * @author Bilal S.
+ */
+export class UserBatchLoader {
+  readonly maxBatchSize: number;
+  private readonly windowMs: number;
+  private batch = new Map<number, PendingLoad[]>();
+  private timer: NodeJS.Timeout | null = null;
+  private stats = {
+    batches: 0,
+    totalIds: 0,
+    largestBatch: 0,
+    histogram: Object.fromEntries(
+      [...HISTOGRAM_BOUNDS.map(String), '+Inf'].map(bound => [bound, 0])
+    ) as Record<string, number>,
+  };
+
+  /**
+   * @constructor
+   * @param {BatchLoaderOptions} options - Collection window in ms (default: 5) and max
+   * distinct IDs per batch (default: 50)
+   * @author Bilal S.
+   */
+  constructor({ windowMs = 5, maxBatchSize = 50 }: BatchLoaderOptions = {}) {
+    this.windowMs = windowMs;
+    this.maxBatchSize = maxBatchSize;
+  }
+
+  /**
+   * @method load
+   * @description Schedules a user for the current batch
+   * @param {number} userId - The ID of the user to load
+   * @returns {Promise<User | null>} The user, or null if not found
+   * @author Bilal S.
+   */
+  load(userId: number): Promise<User | null> {
+    return new Promise((resolve, reject) => {
+      const load: PendingLoad = { resolve, reject, span: tracer.activeSpan()?.context };
+      const waiters = this.batch.get(userId);
+      if (waiters) {
+        waiters.push(load);
+      } else {
+        this.batch.set(userId, [load]);
+      }
+
+      if (this.batch.size >= this.maxBatchSize) {
+        this.flush();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => this.flush(), this.windowMs);
+      }
+    });
+  }
+
+  getStats(): BatchStats {
+    return {
+      batches: this.stats.batches,
+      totalIds: this.stats.totalIds,
+      averageBatchSize: this.stats.batches > 0 ? this.stats.totalIds / this.stats.batches : 0,
+      largestBatch: this.stats.largestBatch,
+      histogram: { ...this.stats.histogram },
+    };
+  }
+
+  private flush(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const batch = this.batch;
+    this.batch = new Map();
+    if (batch.size === 0) return;
+
+    this.recordBatch(batch.size);
+    void this.dispatch(batch);
+  }
+
+  private async dispatch(batch: Map<number, PendingLoad[]>): Promise<void> {
+    const ids = [...batch.keys()];
+
+    // The database span is a child of the load that opened the batch and links to the others
+    const parent = tracer.activeSpan()?.context;
+    const links = [...batch.values()]
+      .flat()
+      .flatMap(load => (load.span && load.span.spanId !== parent?.spanId ? [load.span] : []));
+
+    try {
+      const users = await tracer.trace(
+        'db.getUsersByIds',
+        { kind: 'client', links, attributes: { 'db.operation.name': 'getUsersByIds', 'db.batch_size': ids.length } },
+        () => userRepository.getUsersByIds(ids)
+      );
+
+      ids.forEach((id, index) => {
+        batch.get(id)?.forEach(waiter => waiter.resolve(users[index] ?? null));
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error : new Error('Unknown error');
+      batch.forEach(waiters => waiters.forEach(waiter => waiter.reject(reason)));
+    }
+  }
+
+  private recordBatch(size: number): void {
+    this.stats.batches++;
+    this.stats.totalIds += size;
+    this.stats.largestBatch = Math.max(this.stats.largestBatch, size);
+
+    const bound = HISTOGRAM_BOUNDS.find(limit => size <= limit);
+    const bucket = bound === undefined ? '+Inf' : String(bound);
+    this.stats.histogram[bucket] = (this.stats.histogram[bucket] ?? 0) + 1;
+  }
+}
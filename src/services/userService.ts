@@ -0,0 +1,479 @@
+/**
+ * @fileoverview Cached user lookups with stale-while-revalidate support
+ * @description Resolves users through the cache and the fetch queue, serving stale copies
+ * while they are refreshed in the background or when the database is failing
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import {
+  CacheSetOptions,
+  CacheStore,
+  User,
+  UserFetchOptions,
+  UserFetchQueue,
+  UserListCursor,
+  UserListQuery,
+  UserPage,
+} from '../types';
+import { userRepository } from '../database/userRepository';
+import { cacheService, LRUCache, negativeUserCache, userListCache } from './cacheService';
+import { HotKeyTracker, hotKeyTracker } from './hotKeyTracker';
+import { queueService } from './queueService';
+import { tracer } from './tracing';
+import { logger } from '../utils/logger';
+
+/**
+ * @type CacheStatus
+ * @description Value of the `cached` response flag: true for fresh hits, 'stale' for stale serves
+ */
+export type CacheStatus = boolean | 'stale';
+
+/**
+ * @interface UserLookupResult
+ * @description Resolved user together with where it came from
+ */
+export interface UserLookupResult {
+  user: User | null;
+  cached: CacheStatus;
+}
+
+/**
+ * @interface BulkUserLookup
+ * @description Cache phase of a bulk lookup: IDs answered by the cache, IDs still to fetch and
+ * expired copies to fall back on if those fetches fail
+ */
+export interface BulkUserLookup {
+  results: Map<number, UserLookupResult>;
+  misses: number[];
+  fallbacks: Map<number, User>;
+}
+
+/**
+ * @interface UserListResult
+ * @description A listing page together with whether it came from the cache
+ */
+export interface UserListResult {
+  page: UserPage;
+  cached: boolean;
+}
+
+/**
+ * @function encodeCursor
+ * @description Builds the opaque cursor for continuing a listing from a row. The sort and
+ * order are embedded so a cursor cannot be replayed against a different ordering.
+ * @author Bilal S.
+ */
+const encodeCursor = (query: UserListQuery, direction: UserListCursor['direction'], user: User) =>
+  Buffer.from(
+    JSON.stringify({ s: query.sort, o: query.order, d: direction, v: user[query.sort], i: user.id })
+  ).toString('base64url');
+
+/**
+ * @function userCacheOptions
+ * @description Tags a cached user with its email domain, so `DELETE /cache/tags/:tag` can
+ * evict e.g. every user at `email-domain:example.com`
+ * @author Bilal S.
+ */
+const userCacheOptions = (user: User): CacheSetOptions => ({
+  tags: [`email-domain:${user.email.slice(user.email.lastIndexOf('@') + 1)}`],
+});
+
+/**
+ * @function decodeUserListCursor
+ * @description Parses a cursor produced by `encodeCursor`
+ * @param {string} cursor - Opaque cursor from a previous page
+ * @param {Pick<UserListQuery, 'sort' | 'order'>} ordering - Ordering of the current request
+ * @returns {UserListCursor | null} The decoded cursor, or null if it is malformed or was issued
+ * for a different ordering
+ * @author Bilal S.
+ */
+export const decodeUserListCursor = (
+  cursor: string,
+  { sort, order }: Pick<UserListQuery, 'sort' | 'order'>
+): UserListCursor | null => {
+  try {
+    const { s, o, d, v, i } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const validValue = sort === 'id' ? typeof v === 'number' : typeof v === 'string';
+
+    if (s !== sort || o !== order || (d !== 'next' && d !== 'prev') || !validValue) return null;
+    if (!Number.isInteger(i)) return null;
+
+    return { direction: d, value: v, id: i };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * @class UserService
+ * @description Cache-first user resolution with stale-while-revalidate and stale-if-error.
+ * Writes bump a per-user generation so fetches that started before them never cache old data.
+ * @author Bilal S.
+ */
+export class UserService {
+  private readonly cache: CacheStore;
+  private readonly queue: UserFetchQueue;
+  private readonly listCache: CacheStore<UserPage>;
+  private readonly hotKeys: HotKeyTracker;
+  private readonly negativeCache: CacheStore<true>;
+  private refreshing = new Set<number>();
+  private generations = new Map<number, number>();
+  private listGeneration = 0;
+  private stats = {
+    staleServes: 0,
+    staleIfErrorServes: 0,
+    backgroundRefreshes: 0,
+    backgroundRefreshFailures: 0,
+    negativeHits: 0,
+    negativeStores: 0,
+  };
+
+  constructor(
+    cache: CacheStore,
+    queue: UserFetchQueue,
+    listCache: CacheStore<UserPage>,
+    hotKeys = new HotKeyTracker(),
+    negativeCache: CacheStore<true> = new LRUCache<true>(1000, 30)
+  ) {
+    this.cache = cache;
+    this.queue = queue;
+    this.listCache = listCache;
+    this.hotKeys = hotKeys;
+    this.negativeCache = negativeCache;
+  }
+
+  /**
+   * @method getUser
+   * @description Resolves a user by ID. Fresh cache entries are returned directly, stale ones
+   * are returned immediately while a background refresh is queued, and entries past the soft
+   * TTL are only used if the database fetch fails.
+   * @param {number} userId - The ID of the user to resolve
+   * @param {AbortSignal} signal - Fires when the caller no longer needs the result
+   * @returns {Promise<UserLookupResult>} The user (or null if not found) and its cache status
+   * @author Bilal S.
+   */
+  async getUser(userId: number, signal?: AbortSignal): Promise<UserLookupResult> {
+    const lookup = await this.lookupCached([userId]);
+    const results = await this.fetchMisses(lookup, signal);
+    return results.get(userId) ?? { user: null, cached: false };
+  }
+
+  /**
+   * @method lookupCached
+   * @description First half of a bulk lookup: resolves every ID the cache can answer and lists
+   * the IDs that need a database fetch. Hot keys and stale refreshes are left to `fetchMisses`,
+   * so a lookup the caller abandons (e.g. after a rate limit rejection) has no side effects.
+   * @param {number[]} userIds - Distinct user IDs to resolve
+   * @returns {Promise<BulkUserLookup>} Cached results and the remaining misses
+   * @author Bilal S.
+   */
+  async lookupCached(userIds: number[]): Promise<BulkUserLookup> {
+    return tracer.trace('cache.lookup', { attributes: { 'cache.keys': userIds.length } }, async span => {
+      const lookup: BulkUserLookup = { results: new Map(), misses: [], fallbacks: new Map() };
+      const entries = await Promise.all(userIds.map(userId => this.cache.lookup(`user:${userId}`)));
+
+      // IDs without any cached copy may be known not to exist
+      const uncached = userIds.filter((_userId, index) => !entries[index]);
+      const markers = await Promise.all(uncached.map(userId => this.negativeCache.get(`user:${userId}`)));
+      const missing = new Set(uncached.filter((_userId, index) => markers[index]));
+
+      userIds.forEach((userId, index) => {
+        const entry = entries[index];
+
+        if (entry?.state === 'fresh') {
+          lookup.results.set(userId, { user: entry.data, cached: true });
+        } else if (entry?.state === 'stale') {
+          lookup.results.set(userId, { user: entry.data, cached: 'stale' });
+        } else if (missing.has(userId)) {
+          lookup.results.set(userId, { user: null, cached: true });
+        } else {
+          lookup.misses.push(userId);
+          if (entry) lookup.fallbacks.set(userId, entry.data);
+        }
+      });
+
+      const stale = userIds.filter((_userId, index) => entries[index]?.state === 'stale').length;
+      span.setAttributes({ 'cache.misses': lookup.misses.length, 'cache.stale': stale });
+      logger.debug('User cache lookup', { requested: userIds.length, misses: lookup.misses.length, stale });
+      return lookup;
+    });
+  }
+
+  /**
+   * @method fetchMisses
+   * @description Second half of a bulk lookup: records the cached hits as hot keys, queues
+   * background refreshes for stale ones, then fetches every miss through the queue at once (the
+   * batch loader turns them into one database call), caches the results and merges them with the
+   * cached ones. Expired copies are served if their fetch fails.
+   * @param {BulkUserLookup} lookup - Result of `lookupCached`
+   * @param {AbortSignal} signal - Fires when the caller no longer needs the result
+   * @returns {Promise<Map<number, UserLookupResult>>} Results for every requested ID
+   * @author Bilal S.
+   */
+  async fetchMisses(
+    lookup: BulkUserLookup,
+    signal?: AbortSignal
+  ): Promise<Map<number, UserLookupResult>> {
+    lookup.results.forEach(({ user, cached }, userId) => {
+      if (!user) {
+        this.stats.negativeHits++;
+        return;
+      }
+      this.hotKeys.record(userId);
+      if (cached === 'stale') {
+        this.stats.staleServes++;
+        this.refreshInBackground(userId);
+      }
+    });
+
+    const options: UserFetchOptions = { priority: 'interactive' };
+    if (signal) options.signal = signal;
+
+    const fetched = await Promise.all(lookup.misses.map(async (userId): Promise<UserLookupResult> => {
+      const fallback = lookup.fallbacks.get(userId);
+      const generation = this.getGeneration(userId);
+
+      let user: User | null;
+      try {
+        user = await this.queue.addUserFetchJob(userId, options);
+      } catch (error) {
+        if (!fallback) throw error;
+
+        logger.warn(`Serving stale user ${userId} after fetch failure:`, error);
+        this.stats.staleIfErrorServes++;
+        return { user: fallback, cached: 'stale' };
+      }
+
+      if (user) this.hotKeys.record(userId);
+      await this.storeFetched(userId, generation, user);
+      return { user, cached: false };
+    }));
+
+    const results = new Map(lookup.results);
+    lookup.misses.forEach((userId, index) => {
+      const result = fetched[index];
+      if (result) results.set(userId, result);
+    });
+    return results;
+  }
+
+  /**
+   * @method prefetch
+   * @description Loads users into the cache ahead of demand (warmup and refresh-ahead). Fetches
+   * go through the queue's background lane, so callers waiting on a response come first.
+   * @param {number[]} userIds - Distinct user IDs to load
+   * @returns {Promise<number>} Number of users cached; failed fetches are logged and skipped
+   * @author Bilal S.
+   */
+  async prefetch(userIds: number[]): Promise<number> {
+    const cached = await Promise.all(userIds.map(async userId => {
+      const generation = this.getGeneration(userId);
+      try {
+        const user = await this.queue.addUserFetchJob(userId, { priority: 'background' });
+        return (await this.storeFetched(userId, generation, user)) && user !== null;
+      } catch (error) {
+        logger.warn(`Prefetch failed for user ${userId}:`, error);
+        return false;
+      }
+    }));
+
+    return cached.filter(Boolean).length;
+  }
+
+  /**
+   * @method prime
+   * @description Caches users read in bulk straight from the repository, skipping any user
+   * written while the read was running
+   * @param {Function} load - Reads the users to cache
+   * @returns {Promise<number>} Number of users cached
+   * @author Bilal S.
+   */
+  async prime(load: () => Promise<User[]>): Promise<number> {
+    const generations = new Map(this.generations);
+    const users = await load();
+
+    const cached = await Promise.all(
+      users.map(user => this.storeFetched(user.id, generations.get(user.id) ?? 0, user))
+    );
+    return cached.filter(Boolean).length;
+  }
+
+  /**
+   * @method listUsers
+   * @description Returns one page of the user listing, from the list cache when possible
+   * @param {UserListQuery} query - Filters, ordering, page size and decoded cursor
+   * @returns {Promise<UserListResult>} The page with its next/prev cursors and cache status
+   * @author Bilal S.
+   */
+  async listUsers(query: UserListQuery): Promise<UserListResult> {
+    const cacheKey = `users:list:${JSON.stringify(query)}`;
+    const cachedPage = await this.listCache.get(cacheKey);
+    if (cachedPage) {
+      return { page: cachedPage, cached: true };
+    }
+
+    const generation = this.listGeneration;
+    const { users, hasNext, hasPrev } = await userRepository.listUsers(query);
+    const first = users[0];
+    const last = users[users.length - 1];
+    const page: UserPage = {
+      data: users,
+      next: hasNext && last ? encodeCursor(query, 'next', last) : null,
+      prev: hasPrev && first ? encodeCursor(query, 'prev', first) : null,
+    };
+
+    // Skip caching if a write landed while the page was being read
+    if (generation === this.listGeneration) {
+      await this.listCache.set(cacheKey, page);
+    }
+    return { page, cached: false };
+  }
+
+  /**
+   * @method createUser
+   * @description Creates a user, caches it and drops the cached listing pages. A not-found
+   * marker for the assigned ID is removed, and fetches of that ID still in flight are detached so
+   * they cannot mark it missing again.
+   * @param {Omit<User, 'id'>} userData - User data without ID
+   * @returns {Promise<User>} The created user
+   * @author Bilal S.
+   */
+  async createUser(userData: Omit<User, 'id'>): Promise<User> {
+    this.listGeneration++;
+    const user = await userRepository.createUser(userData);
+    this.invalidate(user.id);
+
+    await Promise.all([
+      this.cache.set(`user:${user.id}`, user, undefined, userCacheOptions(user)),
+      this.negativeCache.delete(`user:${user.id}`),
+      this.invalidateLists(),
+    ]);
+    return user;
+  }
+
+  /**
+   * @method updateUser
+   * @description Updates a user and writes the new record through to the cache
+   * @param {number} userId - The ID of the user to update
+   * @param {Partial<Omit<User, 'id'>>} changes - Fields to overwrite
+   * @returns {Promise<User | null>} The updated user, or null if not found
+   * @author Bilal S.
+   */
+  async updateUser(userId: number, changes: Partial<Omit<User, 'id'>>): Promise<User | null> {
+    const user = await this.write(userId, () => userRepository.updateUser(userId, changes));
+
+    if (user) {
+      await this.cache.set(`user:${userId}`, user, undefined, userCacheOptions(user));
+    } else {
+      await this.cache.delete(`user:${userId}`);
+    }
+    await this.invalidateLists();
+    return user;
+  }
+
+  /**
+   * @method deleteUser
+   * @description Deletes a user and evicts it from the cache
+   * @param {number} userId - The ID of the user to delete
+   * @returns {Promise<boolean>} True if the user existed
+   * @author Bilal S.
+   */
+  async deleteUser(userId: number): Promise<boolean> {
+    const deleted = await this.write(userId, () => userRepository.deleteUser(userId));
+
+    await Promise.all([this.cache.delete(`user:${userId}`), this.invalidateLists()]);
+    return deleted;
+  }
+
+  getStats() {
+    return {
+      ...this.stats,
+      refreshesInFlight: this.refreshing.size,
+    };
+  }
+
+  /**
+   * @method write
+   * @description Runs a database write for a user. The generation is bumped and in-flight queue
+   * fetches are detached both before and after the write, so neither a fetch that started
+   * earlier nor one that ran concurrently can cache the pre-write record.
+   * @param {number} userId - The ID of the user being written
+   * @param {Function} operation - The database write
+   * @returns {Promise<T>} Result of the write
+   * @author Bilal S.
+   */
+  private async write<T>(userId: number, operation: () => Promise<T>): Promise<T> {
+    this.invalidate(userId);
+    try {
+      return await operation();
+    } finally {
+      this.invalidate(userId);
+    }
+  }
+
+  private invalidate(userId: number): void {
+    this.generations.set(userId, this.getGeneration(userId) + 1);
+    this.listGeneration++;
+    this.queue.invalidateUser(userId);
+  }
+
+  private async invalidateLists(): Promise<void> {
+    this.listGeneration++;
+    await this.listCache.clear();
+  }
+
+  private getGeneration(userId: number): number {
+    return this.generations.get(userId) ?? 0;
+  }
+
+  /**
+   * @method storeFetched
+   * @description Caches a database read, or evicts a user it found missing and marks the ID as
+   * not found, unless a write since the read started has already updated the cache
+   * @returns {Promise<boolean>} True if the cache was updated
+   * @author Bilal S.
+   */
+  private async storeFetched(userId: number, generation: number, user: User | null): Promise<boolean> {
+    if (this.getGeneration(userId) !== generation) return false;
+
+    if (user) {
+      await this.cache.set(`user:${userId}`, user, undefined, userCacheOptions(user));
+    } else {
+      this.stats.negativeStores++;
+      await Promise.all([
+        this.cache.delete(`user:${userId}`),
+        this.negativeCache.set(`user:${userId}`, true),
+      ]);
+    }
+    return true;
+  }
+
+  private refreshInBackground(userId: number): void {
+    if (this.refreshing.has(userId)) return;
+
+    this.refreshing.add(userId);
+    this.stats.backgroundRefreshes++;
+
+    const generation = this.getGeneration(userId);
+    this.queue
+      .addUserFetchJob(userId, { priority: 'background' })
+      .then(user => this.storeFetched(userId, generation, user))
+      .catch(error => {
+        this.stats.backgroundRefreshFailures++;
+        logger.warn(`Background refresh failed for user ${userId}:`, error);
+      })
+      .finally(() => {
+        this.refreshing.delete(userId);
+      });
+  }
+}
+
+export const userService = new UserService(
+  cacheService,
+  queueService,
+  userListCache,
+  hotKeyTracker,
+  negativeUserCache
+);
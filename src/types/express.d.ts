@@ -0,0 +1,22 @@
+/**
+ * @fileoverview Express request augmentation
+ * @description Adds the properties our middleware attaches to incoming requests
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { ClientIdentity, RateLimitRules } from './index';
+
+declare global {
+  namespace Express {
+    interface Request {
+      id?: string;
+      client?: ClientIdentity;
+      abortSignal?: AbortSignal;
+      rateLimit?: { policy: string; key: string; rules: RateLimitRules };
+    }
+  }
+}
+
+export {};
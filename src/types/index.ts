@@ -16,6 +16,109 @@ export interface User {
   email: string;
 }
 
+/**
+ * @type UserSortField
+ * @description Fields the user listing can be sorted by
+ */
+export type UserSortField = 'id' | 'name' | 'email';
+
+/**
+ * @interface UserListCursor
+ * @description Decoded keyset cursor: the sort value and ID of the row to continue from
+ */
+export interface UserListCursor {
+  direction: 'next' | 'prev';
+  value: string | number;
+  id: number;
+}
+
+/**
+ * @interface UserListQuery
+ * @description Filters, ordering and position of a user listing page
+ */
+export interface UserListQuery {
+  limit: number;
+  sort: UserSortField;
+  order: 'asc' | 'desc';
+  emailDomain?: string;
+  namePrefix?: string;
+  cursor?: UserListCursor;
+}
+
+/**
+ * @interface UserListPage
+ * @description One page of a user listing, with whether rows exist on either side of it
+ */
+export interface UserListPage {
+  users: User[];
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
+/**
+ * @interface UserPage
+ * @description A user listing page as returned (and cached) by the API, with opaque cursors
+ */
+export interface UserPage {
+  data: User[];
+  next: string | null;
+  prev: string | null;
+}
+
+/**
+ * @type UserStoreBackend
+ * @description Storage behind the user repository
+ */
+export type UserStoreBackend = 'memory' | 'file';
+
+/**
+ * @interface UserRepository
+ * @description Storage contract for users. Emails are stored normalized and must be unique;
+ * creates and updates that would break this reject with `DuplicateEmailError`.
+ */
+export interface UserRepository {
+  getUserById(id: number): Promise<User | null>;
+  getUsersByIds(ids: number[]): Promise<(User | null)[]>;
+  listUsers(query: UserListQuery): Promise<UserListPage>;
+  getAllUsers(): Promise<User[]>;
+  createUser(userData: Omit<User, 'id'>): Promise<User>;
+  updateUser(id: number, changes: Partial<Omit<User, 'id'>>): Promise<User | null>;
+  deleteUser(id: number): Promise<boolean>;
+  ping?(): Promise<void>; // Rejects when the store cannot be reached or written; the in-memory store omits it
+}
+
+/**
+ * @type WarmupStrategy
+ * @description Keys loaded into the cache on startup, selected through WARMUP_STRATEGY:
+ * an explicit ID list, the hottest keys of the previous run, every user, or nothing
+ */
+export type WarmupStrategy = 'ids' | 'hot' | 'all' | 'none';
+
+/**
+ * @type WarmupState
+ * @description Warmup progress. `timed-out` and `failed` still count as ready: the API then
+ * serves with a partially warm cache instead of staying unavailable.
+ */
+export type WarmupState = 'idle' | 'warming' | 'ready' | 'timed-out' | 'failed';
+
+/**
+ * @interface WarmupStatus
+ * @description Startup warmup outcome and refresh-ahead counters
+ */
+export interface WarmupStatus {
+  strategy: WarmupStrategy;
+  state: WarmupState;
+  startedAt: string | null;
+  durationMs: number | null;
+  requested: number;
+  warmed: number;
+  refreshAhead: {
+    runs: number;
+    refreshed: number;
+    failures: number;
+  };
+}
+
 /**
  * @interface CacheEntry
  * @description Generic cache entry with metadata
@@ -27,17 +130,177 @@ export interface CacheEntry<T> {
   accessTime: number;
 }
 
+/**
+ * @interface CacheSnapshotEntry
+ * @description One entry of a local cache snapshot; `timestamp` is the original load time
+ * @template T - The type of data being cached
+ */
+export interface CacheSnapshotEntry<T> {
+  key: string;
+  data: T;
+  timestamp: number;
+  options?: CacheSetOptions;
+}
+
 /**
  * @interface CacheStats
  * @description Statistics for cache performance monitoring
  */
 export interface CacheStats {
+  backend: CacheBackend;
   hits: number;
   misses: number;
   size: number;
   averageResponseTime: number;
   totalRequests: number;
   totalResponseTime: number;
+  bytes?: number;
+  evictions?: number;
+  tiers?: TieredCacheStats;
+}
+
+/**
+ * @type CacheNamespace
+ * @description Independent key spaces sharing the cache backend; each has its own stats and
+ * can be cleared on its own
+ */
+export type CacheNamespace = 'users' | 'lists' | 'negative';
+
+/**
+ * @interface CacheStatus
+ * @description Cache statistics per namespace, plus the shared in-process budget when the
+ * backend has a local tier
+ */
+export interface CacheStatus {
+  backend: CacheBackend;
+  namespaces: Record<CacheNamespace, CacheStats>;
+  local: {
+    entries: number;
+    maxEntries: number;
+    bytes: number;
+    maxBytes: number | null;
+  } | null;
+}
+
+/**
+ * @interface CacheSetOptions
+ * @description Per-entry overrides of the store's TTLs, plus tags for `deleteTagged`. A
+ * `ttlSeconds` override without `staleTtlSeconds`/`hardTtlSeconds` gives the entry no stale window.
+ */
+export interface CacheSetOptions {
+  ttlSeconds?: number;
+  staleTtlSeconds?: number;
+  hardTtlSeconds?: number;
+  tags?: string[];
+}
+
+/**
+ * @type CacheAuditAction
+ * @description Kinds of administrative cache invalidation
+ */
+export type CacheAuditAction = 'delete-key' | 'delete-pattern' | 'delete-tag' | 'clear';
+
+/**
+ * @interface CacheAuditEntry
+ * @description One administrative invalidation: who ran it, on what, and how many entries it
+ * evicted
+ */
+export interface CacheAuditEntry {
+  id: number;
+  at: string;
+  actor: string;
+  action: CacheAuditAction;
+  namespace: CacheNamespace | 'all';
+  target: string | null;
+  evicted: number;
+  requestId?: string;
+}
+
+/**
+ * @interface CacheTierStats
+ * @description Hit/miss counters for a single tier of the layered cache
+ */
+export interface CacheTierStats {
+  hits: number;
+  misses: number;
+  size: number;
+}
+
+/**
+ * @interface TieredCacheStats
+ * @description Per-tier statistics for the L1 (memory) + L2 (shared) cache
+ */
+export interface TieredCacheStats {
+  l1: CacheTierStats;
+  l2: CacheTierStats;
+  promotions: number;
+  invalidationsPublished: number;
+  invalidationsReceived: number;
+}
+
+/**
+ * @type CacheBackend
+ * @description Supported cache storage backends, selected through CACHE_BACKEND
+ */
+export type CacheBackend = 'memory' | 'redis' | 'tiered';
+
+/**
+ * @type CacheFreshness
+ * @description Freshness of a cached entry relative to the configured TTLs:
+ * 'fresh' within the TTL, 'stale' within the soft TTL (serve and revalidate),
+ * 'expired' within the hard TTL (serve only if the database fails)
+ */
+export type CacheFreshness = 'fresh' | 'stale' | 'expired';
+
+/**
+ * @interface CacheLookup
+ * @description Cached value together with its age information
+ * @template T - The type of data being cached
+ */
+export interface CacheLookup<T = User> {
+  data: T;
+  timestamp: number;
+  state: CacheFreshness;
+  options?: CacheSetOptions;
+}
+
+/**
+ * @interface CacheEntryInfo
+ * @description Introspection view of an in-process cache entry. Remaining times are 0 once
+ * passed; `lruRank` 1 is the most recently used entry of the whole cache, across namespaces.
+ */
+export interface CacheEntryInfo {
+  key: string;
+  state: CacheFreshness;
+  timestamp: number;
+  accessTime: number;
+  accessCount: number;
+  ttlRemainingMs: number;
+  staleTtlRemainingMs: number;
+  hardTtlRemainingMs: number;
+  lruRank: number;
+  bytes: number;
+  tags: string[];
+}
+
+/**
+ * @interface CacheStore
+ * @description Backend-agnostic cache contract used by the routes. `peek` reads like `lookup`
+ * but leaves recency and hit/miss counters alone.
+ * @template T - The type of data being cached (users unless stated otherwise)
+ */
+export interface CacheStore<T = User> {
+  get(key: string): Promise<T | null>;
+  lookup(key: string): Promise<CacheLookup<T> | null>;
+  peek(key: string): Promise<CacheLookup<T> | null>;
+  set(key: string, data: T, timestamp?: number, options?: CacheSetOptions): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  deleteMatching(pattern: string): Promise<number>;
+  deleteTagged(tag: string): Promise<number>;
+  clear(): Promise<void>;
+  getStats(): Promise<CacheStats>;
+  destroy(): Promise<void>;
+  ping?(): Promise<void>; // Rejects when a remote backend is unreachable; in-process stores omit it
 }
 
 /**
@@ -51,14 +314,290 @@ export interface RateLimitState {
   burstResetTime: number;
 }
 
+/**
+ * @type QueueBackend
+ * @description Supported user fetch queue implementations, selected through QUEUE_BACKEND
+ */
+export type QueueBackend = 'memory' | 'bullmq';
+
+/**
+ * @type JobPriority
+ * @description Queue lanes: interactive (HTTP callers) jobs run ahead of background ones
+ */
+export type JobPriority = 'interactive' | 'background';
+
+/**
+ * @interface UserFetchOptions
+ * @description Per-call queueing options. `deadline` (epoch ms) and `signal` let the queue
+ * drop work nobody is waiting for any more.
+ */
+export interface UserFetchOptions {
+  priority?: JobPriority;
+  deadline?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * @interface QueueLaneStatus
+ * @description Depth and recent wait time percentiles for one priority lane
+ */
+export interface QueueLaneStatus {
+  depth: number;
+  waitTimeMs: {
+    p50: number;
+    p95: number;
+    p99: number;
+  };
+}
+
+/**
+ * @interface BatchStats
+ * @description Batch loader statistics; `histogram` counts batches per size bucket
+ * (keys are bucket upper bounds)
+ */
+export interface BatchStats {
+  batches: number;
+  totalIds: number;
+  averageBatchSize: number;
+  largestBatch: number;
+  histogram: Record<string, number>;
+}
+
+/**
+ * @interface QueueStatus
+ * @description Snapshot of the user fetch queue for monitoring
+ */
+export interface QueueStatus {
+  backend: QueueBackend;
+  waiting: number;
+  active: number;
+  oldestJobAgeMs: number | null; // Age of the longest-waiting queued job, null when none is queued
+  pendingRequests: number;
+  stats: {
+    processed: number;
+    failed: number;
+    pending: number;
+    dropped?: number;
+    rejected?: number;
+  };
+  concurrency?: number;
+  maxDepth?: number;
+  lanes?: Record<JobPriority, QueueLaneStatus>;
+  batching?: BatchStats;
+  delayed?: number;
+  deadLettered?: number;
+}
+
+/**
+ * @interface UserFetchQueue
+ * @description Queue contract for user fetches. Concurrent calls for the same user must
+ * share one promise (request coalescing). `invalidateUser` stops later calls from joining a
+ * fetch that started before the user was written. `close` lets queued and running jobs finish
+ * for up to `drainTimeoutMs`, then rejects the rest with `QueueShutdownError`.
+ */
+export interface UserFetchQueue {
+  addUserFetchJob(userId: number, options?: UserFetchOptions): Promise<User | null>;
+  invalidateUser(userId: number): void;
+  getQueueStatus(): Promise<QueueStatus>;
+  close(drainTimeoutMs?: number): Promise<void>;
+}
+
+/**
+ * @interface RateLimitRules
+ * @description Dual-window limits: a sustained window plus a shorter burst window
+ */
+export interface RateLimitRules {
+  maxRequests: number;
+  windowMs: number;
+  maxBurstRequests: number;
+  burstWindowMs: number;
+}
+
+/**
+ * @interface RateLimitResult
+ * @description Outcome of a rate limit check; `reason` names the window that rejected it
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  resetTime: number;
+  reason?: 'burst' | 'regular';
+}
+
+/**
+ * @type RateLimitBackend
+ * @description Supported rate limit storage backends, selected through RATE_LIMIT_BACKEND
+ */
+export type RateLimitBackend = 'memory' | 'redis';
+
+/**
+ * @type RateLimitFailurePolicy
+ * @description Behaviour when the shared rate limit store is unreachable:
+ * 'local' limits per instance, 'open' allows every request, 'closed' rejects every request
+ */
+export type RateLimitFailurePolicy = 'local' | 'open' | 'closed';
+
+/**
+ * @interface RateLimitStore
+ * @description Backend-agnostic storage for sliding window rate limiting.
+ * `consume` must check both windows and record the request atomically. A request with a
+ * cost above 1 counts as that many requests and is rejected unless all of them fit.
+ */
+export interface RateLimitStore {
+  readonly backend: RateLimitBackend;
+  consume(
+    clientId: string,
+    rules: RateLimitRules,
+    now: number,
+    cost?: number
+  ): Promise<RateLimitResult>;
+  getTrackedClients(): number | null;
+  close(): Promise<void>;
+}
+
+/**
+ * @type ClientTier
+ * @description Client plan used to pick rate limits: anonymous callers or API key plans
+ */
+export type ClientTier = 'anonymous' | 'free' | 'pro' | 'internal';
+
+/**
+ * @type ApiKeyScope
+ * @description Permissions granted to an API key; 'admin' unlocks the administrative routes
+ */
+export type ApiKeyScope = 'read' | 'write' | 'admin';
+
+/**
+ * @interface ApiKeyRecord
+ * @description Stored API key metadata. Only the SHA-256 hash of the key is kept.
+ */
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  tier: ClientTier;
+  scopes: ApiKeyScope[];
+  hash: string;
+  createdAt: string;
+  revokedAt?: string;
+  lastUsedAt?: string;
+}
+
+/**
+ * @interface ClientIdentity
+ * @description Identity of the caller attached to the request as `req.client`.
+ * `id` is the rate limiting key: the API key ID when one is presented, the client IP otherwise.
+ */
+export interface ClientIdentity {
+  id: string;
+  type: 'apiKey' | 'ip';
+  tier: ClientTier;
+  scopes: ApiKeyScope[];
+  keyId?: string;
+}
+
+/**
+ * @interface RateLimitPolicy
+ * @description Declarative limits for requests matching a path pattern and HTTP methods.
+ * Tiers set to 'exempt' are not limited; tiers left out use the anonymous limits.
+ */
+export interface RateLimitPolicy {
+  name: string;
+  match: {
+    path: string;
+    methods?: string[];
+  };
+  exempt?: boolean;
+  tiers?: Partial<Record<ClientTier, RateLimitRules | 'exempt'>>;
+}
+
+/**
+ * @interface RateLimitPolicyConfig
+ * @description Contents of the rate limit policy file; policies are matched in order
+ */
+export interface RateLimitPolicyConfig {
+  policies: RateLimitPolicy[];
+}
+
+/**
+ * @interface ResolvedRateLimitPolicy
+ * @description Policy applied to a request; `rules` is null when the request is exempt
+ */
+export interface ResolvedRateLimitPolicy {
+  policy: string;
+  tier: ClientTier;
+  rules: RateLimitRules | null;
+}
+
+/**
+ * @interface FieldError
+ * @description One invalid field of a request
+ */
+export interface FieldError {
+  location: 'params' | 'query' | 'body';
+  field?: string;
+  message: string;
+}
+
+/**
+ * @interface ProblemDetails
+ * @description Problem details object (RFC 9457) describing why a request failed
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance?: string;
+  errors?: FieldError[];
+  retryAfter?: number;
+  stack?: string;
+}
+
 /**
  * @interface ApiResponse
- * @description Generic API response structure
+ * @description Envelope of every JSON response: `data` (plus optional `meta` and `message`) on
+ * success, a problem details `error` on failure
  * @template T - The type of data in the response
  */
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
-  error?: string;
+  meta?: Record<string, unknown>;
+  error?: ProblemDetails;
+  message?: string;
+  timestamp?: string;
+}
+
+/**
+ * @type HealthStatus
+ * @description Outcome of a health check; any `fail` makes the instance not ready
+ */
+export type HealthStatus = 'pass' | 'fail';
+
+/**
+ * @interface HealthCheckOutcome
+ * @description What a registered health check reports. Throwing counts as `fail`.
+ */
+export interface HealthCheckOutcome {
+  status: HealthStatus;
   message?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * @interface HealthCheckResult
+ * @description Outcome of one check in a readiness report, with the time the check took
+ */
+export interface HealthCheckResult extends HealthCheckOutcome {
+  latencyMs: number;
+}
+
+/**
+ * @interface HealthReport
+ * @description Readiness of the instance: every registered check plus the shutdown state
+ */
+export interface HealthReport {
+  status: HealthStatus;
+  shuttingDown: boolean;
+  checks: Record<string, HealthCheckResult>;
 }
@@ -0,0 +1,106 @@
+/**
+ * @fileoverview API response helpers
+ * @description Builds the `ApiResponse` envelope used by every JSON response, with problem
+ * details for errors
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { STATUS_CODES } from 'http';
+import { Response } from 'express';
+import { ApiResponse, FieldError, ProblemDetails } from '../types';
+
+/**
+ * @constant PROBLEM_TYPES
+ * @description `type` URIs of the problems this API reports; everything else is `about:blank`
+ */
+export const PROBLEM_TYPES = {
+  validation: 'urn:user-data-api:problem:validation',
+  rateLimited: 'urn:user-data-api:problem:rate-limited',
+} as const;
+
+/**
+ * @interface SendDataOptions
+ * @description Optional parts of a success response
+ */
+export interface SendDataOptions {
+  status?: number;
+  meta?: Record<string, unknown>;
+  message?: string;
+}
+
+/**
+ * @interface ProblemOptions
+ * @description Optional parts of a problem
+ */
+export interface ProblemOptions {
+  type?: string;
+  errors?: FieldError[];
+  retryAfter?: number;
+  stack?: string;
+}
+
+/**
+ * @function sendData
+ * @description Sends a success envelope
+ * @param {Response} res - Express response object
+ * @param {T} data - Response payload
+ * @param {SendDataOptions} options - Status code (default: 200), metadata and message
+ * @returns {void}
+ * @author Bilal S.
+ */
+export const sendData = <T>(
+  res: Response,
+  data: T | undefined,
+  { status = 200, meta, message }: SendDataOptions = {}
+): void => {
+  const body: ApiResponse<T> = { success: true };
+  if (data !== undefined) body.data = data;
+  if (meta) body.meta = meta;
+  if (message) body.message = message;
+  body.timestamp = new Date().toISOString();
+
+  res.status(status).json(body);
+};
+
+/**
+ * @function sendProblem
+ * @description Sends an error envelope whose `error` is a problem details object (RFC 9457)
+ * @param {Response} res - Express response object
+ * @param {number} status - HTTP status code
+ * @param {string} title - Short, stable summary of the problem type
+ * @param {string} detail - Explanation specific to this occurrence
+ * @param {ProblemOptions} options - Problem type URI, field errors, retry hint and (in
+ * development) the stack trace
+ * @returns {void}
+ * @author Bilal S.
+ */
+export const sendProblem = (
+  res: Response,
+  status: number,
+  title: string,
+  detail: string,
+  { type = 'about:blank', errors, retryAfter, stack }: ProblemOptions = {}
+): void => {
+  const error: ProblemDetails = { type, title, status, detail, instance: res.req.originalUrl };
+  if (errors) error.errors = errors;
+  if (retryAfter !== undefined) error.retryAfter = retryAfter;
+  if (stack) error.stack = stack;
+
+  const body: ApiResponse<never> = {
+    success: false,
+    error,
+    timestamp: new Date().toISOString(),
+  };
+  res.status(status).json(body);
+};
+
+/**
+ * @function statusTitle
+ * @description Standard reason phrase for a status code, used as the title of generic problems
+ * @param {number} status - HTTP status code
+ * @returns {string} Reason phrase
+ * @author Bilal S.
+ */
+export const statusTitle = (status: number): string => STATUS_CODES[status] ?? 'Error';
@@ -0,0 +1,78 @@
+/**
+ * @fileoverview Structured logging
+ * @description JSON logger whose entries carry the ID of the request they were written for
+ * @author Bilal S.
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import winston from 'winston';
+
+/**
+ * @interface RequestContext
+ * @description Per-request values visible to everything running on behalf of the request
+ */
+export interface RequestContext {
+  requestId: string;
+}
+
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+// Default level per NODE_ENV; LOG_LEVEL overrides it
+const DEFAULT_LEVELS: Record<string, string> = {
+  development: 'debug',
+  production: 'info',
+  test: 'error',
+};
+
+/**
+ * @function currentRequestId
+ * @description ID of the request the caller is running for
+ * @returns {string | undefined} The request ID, or undefined outside a request
+ * @author Bilal S.
+ */
+export const currentRequestId = (): string | undefined => requestContext.getStore()?.requestId;
+
+/**
+ * @function runWithRequestId
+ * @description Runs work on behalf of a request started elsewhere (e.g. a queued job), so its
+ * log entries carry that request's ID rather than the one that happened to schedule it
+ * @param {string | undefined} requestId - Originating request, or undefined for none
+ * @param {Function} fn - Work to run
+ * @returns {T} Result of `fn`
+ * @author Bilal S.
+ */
+export const runWithRequestId = <T>(requestId: string | undefined, fn: () => T): T =>
+  requestId ? requestContext.run({ requestId }, fn) : requestContext.exit(fn);
+
+// Adds the current request ID unless the entry names one itself (e.g. a queue job's origin)
+const withRequestId = winston.format(info => {
+  const requestId = currentRequestId();
+  if (requestId && info['requestId'] === undefined) info['requestId'] = requestId;
+  return info;
+});
+
+/**
+ * @function createLogger
+ * @description Builds a JSON console logger. Errors passed as metadata keep their stack.
+ * @param {string} env - Environment selecting the default level (default: NODE_ENV)
+ * @returns {winston.Logger} The configured logger
+ * @author Bilal S.
+ */
+export const createLogger = (env = process.env['NODE_ENV'] || 'development'): winston.Logger =>
+  winston.createLogger({
+    level: process.env['LOG_LEVEL'] || DEFAULT_LEVELS[env] || 'info',
+    // Tests only log when LOG_LEVEL asks for it
+    silent: env === 'test' && !process.env['LOG_LEVEL'],
+    defaultMeta: { service: process.env['LOG_SERVICE_NAME'] || 'user-data-api' },
+    format: winston.format.combine(
+      withRequestId(),
+      winston.format.timestamp(),
+      winston.format.errors({ stack: true }),
+      winston.format.json()
+    ),
+    transports: [new winston.transports.Console()],
+  });
+
+export const logger = createLogger();
@@ -9,11 +9,11 @@ echo ""
 
 # Test 1: Basic functionality
 echo "1. Testing basic user retrieval..."
-curl -s http://localhost:3000/users/1 | jq .cached
+curl -s http://localhost:3000/users/1 | jq .meta.cached
 echo ""
 
 echo "2. Testing cache hit..."
-curl -s http://localhost:3000/users/1 | jq .cached
+curl -s http://localhost:3000/users/1 | jq .meta.cached
 echo ""
 
 # Test 2: Performance comparison
@@ -26,7 +26,7 @@ echo ""
 
 # Test 3: Cache status
 echo "4. Cache statistics:"
-curl -s http://localhost:3000/cache/status | jq .cache
+curl -s http://localhost:3000/cache/status | jq .data.cache
 echo ""
 
 # Test 4: User creation